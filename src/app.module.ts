@@ -1,14 +1,47 @@
-import { Module } from '@nestjs/common';
-import { APP_INTERCEPTOR } from '@nestjs/core';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { APP_FILTER, APP_PIPE } from '@nestjs/core';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { BrowserModule } from './browser/browser.module';
 import { LlmModule } from './llm/llm.module';
 import { ParserModule } from './parser/parser.module';
+import { JobsModule } from './jobs/jobs.module';
+import { TemplatesModule } from './templates/templates.module';
+import { StorageModule } from './storage/storage.module';
+import { CrawlerModule } from './crawler/crawler.module';
+import { UsageModule } from './usage/usage.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { HealthModule } from './health/health.module';
+import { ApiExceptionFilter } from './common/errors/api-exception.filter';
+import { createValidationPipe } from './common/validation/validation.pipe';
+import { CorrelationIdMiddleware } from './common/tracing/correlation-id.middleware';
 
 @Module({
-  imports: [BrowserModule, LlmModule, ParserModule],
+  imports: [
+    BrowserModule,
+    LlmModule,
+    ParserModule,
+    JobsModule,
+    TemplatesModule,
+    StorageModule,
+    CrawlerModule,
+    UsageModule,
+    MetricsModule,
+    HealthModule,
+  ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [
+    AppService,
+    { provide: APP_PIPE, useFactory: createValidationPipe },
+    { provide: APP_FILTER, useClass: ApiExceptionFilter },
+  ],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  /**
+   * Assigns a correlation ID to every request.
+   * @param {MiddlewareConsumer} consumer - The middleware consumer.
+   */
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(CorrelationIdMiddleware).forRoutes('*');
+  }
+}
@@ -0,0 +1,10 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedRequest } from './api-key.guard';
+
+/**
+ * Injects the client authenticated by the ApiKeyGuard, or undefined while authentication is disabled.
+ */
+export const CurrentClient = createParamDecorator(
+  (_data: unknown, context: ExecutionContext) =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().apiClient,
+);
@@ -0,0 +1,83 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ApiKeyGuard } from './api-key.guard';
+import { ApiKeysService } from './api-keys.service';
+import { QuotaService } from './quota.service';
+
+describe('ApiKeyGuard', () => {
+  let guard: ApiKeyGuard;
+  const client = { id: 'acme', requestsPerMinute: 10 };
+  const apiKeysService = { enabled: true, findClient: jest.fn() };
+  const quotaService = { consumeRequest: jest.fn() };
+
+  const createContext = (headers: Record<string, string>) => {
+    const request: any = { headers };
+    const context: any = {
+      switchToHttp: () => ({ getRequest: () => request }),
+    };
+    return { request, context };
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    apiKeysService.enabled = true;
+    apiKeysService.findClient.mockImplementation((key) =>
+      key === 'secret' ? client : undefined,
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyGuard,
+        { provide: ApiKeysService, useValue: apiKeysService },
+        { provide: QuotaService, useValue: quotaService },
+      ],
+    }).compile();
+
+    guard = module.get<ApiKeyGuard>(ApiKeyGuard);
+  });
+
+  it('should be defined', () => {
+    expect(guard).toBeDefined();
+  });
+
+  it('should attach the client of a valid key and count the request', () => {
+    const { request, context } = createContext({ 'x-api-key': 'secret' });
+
+    expect(guard.canActivate(context)).toBe(true);
+    expect(request.apiClient).toBe(client);
+    expect(quotaService.consumeRequest).toHaveBeenCalledWith(client);
+  });
+
+  it('should accept bearer tokens', () => {
+    const { request, context } = createContext({
+      authorization: 'Bearer secret',
+    });
+
+    expect(guard.canActivate(context)).toBe(true);
+    expect(request.apiClient).toBe(client);
+  });
+
+  it('should reject missing and unknown keys with 401', () => {
+    expect(() => guard.canActivate(createContext({}).context)).toThrow(
+      UnauthorizedException,
+    );
+    expect(() =>
+      guard.canActivate(createContext({ 'x-api-key': 'wrong' }).context),
+    ).toThrow('Invalid API key');
+  });
+
+  it('should reject disabled keys with 403', () => {
+    apiKeysService.findClient.mockReturnValue({ ...client, disabled: true });
+
+    expect(() =>
+      guard.canActivate(createContext({ 'x-api-key': 'secret' }).context),
+    ).toThrow(ForbiddenException);
+  });
+
+  it('should let every request through while authentication is disabled', () => {
+    apiKeysService.enabled = false;
+
+    expect(guard.canActivate(createContext({}).context)).toBe(true);
+    expect(quotaService.consumeRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { ApiKeysService } from './api-keys.service';
+import { QuotaService } from './quota.service';
+import { ApiClient } from './interfaces/api-client.interface';
+
+/**
+ * A request that passed the API key guard.
+ */
+export interface AuthenticatedRequest extends Request {
+  apiClient?: ApiClient;
+}
+
+/**
+ * Authenticates requests by the API key in the `X-API-Key` header or an
+ * `Authorization: Bearer` header, and counts them against the client's rate limit.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly apiKeysService: ApiKeysService,
+    private readonly quotaService: QuotaService,
+  ) {}
+
+  /**
+   * Checks the API key of a request and attaches its client to the request.
+   * @param {ExecutionContext} context - The execution context of the request.
+   * @returns {boolean} - True if the request may proceed.
+   */
+  canActivate(context: ExecutionContext): boolean {
+    if (!this.apiKeysService.enabled) {
+      return true;
+    }
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const key = this.extractKey(request);
+    if (!key) {
+      throw new UnauthorizedException(
+        'An API key is required in the X-API-Key or Authorization header',
+      );
+    }
+    const client = this.apiKeysService.findClient(key);
+    if (!client) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    if (client.disabled) {
+      throw new ForbiddenException(
+        `The API key of client "${client.id}" is disabled`,
+      );
+    }
+
+    this.quotaService.consumeRequest(client);
+    request.apiClient = client;
+    return true;
+  }
+
+  /**
+   * Reads the API key from the request headers.
+   * @param {Request} request - The request.
+   * @returns {string | undefined} - The API key, or undefined if none was sent.
+   */
+  private extractKey(request: Request): string | undefined {
+    const header = request.headers['x-api-key'];
+    if (typeof header === 'string' && header) {
+      return header;
+    }
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ');
+    return scheme?.toLowerCase() === 'bearer' && token ? token : undefined;
+  }
+}
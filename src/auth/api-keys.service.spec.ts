@@ -0,0 +1,91 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApiKeysService } from './api-keys.service';
+
+describe('ApiKeysService', () => {
+  const env = { ...process.env };
+
+  const createService = async (variables: Record<string, string> = {}) => {
+    Object.assign(process.env, variables);
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ApiKeysService],
+    }).compile();
+    return module.get<ApiKeysService>(ApiKeysService);
+  };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should be defined', async () => {
+    expect(await createService()).toBeDefined();
+  });
+
+  it('should reject every key when none is configured', async () => {
+    const service = await createService({ API_KEYS: '' });
+
+    expect(service.enabled).toBe(true);
+    expect(service.findClient('')).toBeUndefined();
+  });
+
+  it('should be disabled only when AUTH_DISABLED is set and no key is configured', async () => {
+    expect(
+      (await createService({ API_KEYS: '', AUTH_DISABLED: 'true' })).enabled,
+    ).toBe(false);
+    expect(
+      (await createService({ API_KEYS: 'acme:secret', AUTH_DISABLED: 'true' }))
+        .enabled,
+    ).toBe(true);
+  });
+
+  it('should find clients by key with the default limits', async () => {
+    const service = await createService({
+      API_KEYS: 'acme:secret-1, globex:secret-2',
+      API_KEY_REQUESTS_PER_MINUTE: '10',
+      API_KEY_DAILY_TOKEN_BUDGET: '0',
+    });
+
+    expect(service.enabled).toBe(true);
+    expect(service.findClient('secret-2')).toEqual({
+      id: 'globex',
+      requestsPerMinute: 10,
+      maxConcurrentScans: 2,
+      dailyTokenBudget: 0,
+      disabled: undefined,
+    });
+    expect(service.findClient('unknown')).toBeUndefined();
+  });
+
+  it('should load keys with their own limits from API_KEYS_FILE', async () => {
+    const filePath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'api-keys-')),
+      'keys.json',
+    );
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify([
+        { key: 'secret-1', clientId: 'acme', maxConcurrentScans: 5 },
+        { key: 'secret-3', clientId: 'initech', disabled: true },
+      ]),
+    );
+
+    const service = await createService({
+      API_KEYS: 'acme:secret-1',
+      API_KEYS_FILE: filePath,
+    });
+
+    expect(service.findClient('secret-1')).toMatchObject({
+      id: 'acme',
+      maxConcurrentScans: 5,
+    });
+    expect(service.findClient('secret-3')).toMatchObject({ disabled: true });
+  });
+
+  it('should reject malformed API_KEYS entries', async () => {
+    await expect(createService({ API_KEYS: 'secret-only' })).rejects.toThrow(
+      'API_KEYS entries must be "clientId:key" pairs',
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import {
+  ApiClient,
+  ApiClientLimits,
+  ApiKeyEntry,
+} from './interfaces/api-client.interface';
+
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+const DEFAULT_MAX_CONCURRENT_SCANS = 2;
+const DEFAULT_DAILY_TOKEN_BUDGET = 1_000_000;
+
+/**
+ * Holds the configured API keys. Keys come from API_KEYS as comma-separated
+ * `clientId:key` pairs and from the JSON file API_KEYS_FILE, which can also set
+ * per-key limits. Only SHA-256 hashes of the keys are kept in memory.
+ * Without any key every request is rejected, unless AUTH_DISABLED=true
+ * explicitly turns authentication off.
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+  private readonly clients = new Map<string, ApiClient>();
+  private readonly filePath = process.env['API_KEYS_FILE'];
+  private readonly authDisabled = process.env['AUTH_DISABLED'] === 'true';
+  private readonly defaultLimits: ApiClientLimits;
+
+  /**
+   * Initializes the default limits from the environment and loads the keys.
+   */
+  constructor() {
+    this.defaultLimits = {
+      requestsPerMinute: this.readLimit(
+        'API_KEY_REQUESTS_PER_MINUTE',
+        DEFAULT_REQUESTS_PER_MINUTE,
+      ),
+      maxConcurrentScans: this.readLimit(
+        'API_KEY_MAX_CONCURRENT_SCANS',
+        DEFAULT_MAX_CONCURRENT_SCANS,
+      ),
+      dailyTokenBudget: this.readLimit(
+        'API_KEY_DAILY_TOKEN_BUDGET',
+        DEFAULT_DAILY_TOKEN_BUDGET,
+      ),
+    };
+    this.loadKeys();
+    if (!this.enabled) {
+      this.logger.warn(
+        'AUTH_DISABLED is set and no API keys are configured: every endpoint is open to anyone',
+      );
+    } else if (this.clients.size === 0) {
+      this.logger.error(
+        'No API keys are configured: every request is rejected until API_KEYS or API_KEYS_FILE configures a key, or AUTH_DISABLED=true turns authentication off',
+      );
+    }
+  }
+
+  /**
+   * Whether requests must carry an API key.
+   * @returns {boolean} - False only while AUTH_DISABLED is set and no key is configured.
+   */
+  get enabled(): boolean {
+    return this.clients.size > 0 || !this.authDisabled;
+  }
+
+  /**
+   * Looks up the client an API key belongs to.
+   * @param {string} key - The API key sent with the request.
+   * @returns {ApiClient | undefined} - The client, or undefined if the key is unknown.
+   */
+  findClient(key: string): ApiClient | undefined {
+    return this.clients.get(this.hashKey(key));
+  }
+
+  /**
+   * Loads the keys from API_KEYS and API_KEYS_FILE. Entries of the file take
+   * precedence over those of API_KEYS with the same key.
+   */
+  private loadKeys() {
+    const entries: ApiKeyEntry[] = (process.env['API_KEYS'] ?? '')
+      .split(',')
+      .map((pair) => pair.trim())
+      .filter(Boolean)
+      .map((pair) => {
+        const separator = pair.indexOf(':');
+        if (separator <= 0 || separator === pair.length - 1) {
+          throw new Error(
+            'API_KEYS entries must be "clientId:key" pairs separated by commas',
+          );
+        }
+        return {
+          clientId: pair.slice(0, separator),
+          key: pair.slice(separator + 1),
+        };
+      });
+    if (this.filePath && fs.existsSync(this.filePath)) {
+      const saved: ApiKeyEntry[] = JSON.parse(
+        fs.readFileSync(this.filePath, 'utf8'),
+      );
+      entries.push(...saved);
+      this.logger.log(`Loaded ${saved.length} API keys from ${this.filePath}`);
+    }
+
+    for (const { key, clientId, disabled, ...limits } of entries) {
+      if (!key || !clientId) {
+        throw new Error('Every API key needs a "key" and a "clientId"');
+      }
+      this.clients.set(this.hashKey(key), {
+        ...this.defaultLimits,
+        ...limits,
+        id: clientId,
+        disabled,
+      });
+    }
+  }
+
+  /**
+   * Hashes an API key for storage and lookup.
+   * @param {string} key - The API key.
+   * @returns {string} - The hex-encoded SHA-256 hash.
+   */
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+
+  /**
+   * Reads a non-negative limit from the environment.
+   * @param {string} name - The environment variable.
+   * @param {number} fallback - The value used when the variable is unset or invalid.
+   * @returns {number} - The limit, where 0 means unlimited.
+   */
+  private readLimit(name: string, fallback: number): number {
+    const value = Number(process.env[name] || NaN);
+    return Number.isInteger(value) && value >= 0 ? value : fallback;
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { QuotaService } from './quota.service';
+import { ApiKeyGuard } from './api-key.guard';
+
+@Module({
+  providers: [ApiKeysService, QuotaService, ApiKeyGuard],
+  exports: [ApiKeysService, QuotaService, ApiKeyGuard],
+})
+export class AuthModule {}
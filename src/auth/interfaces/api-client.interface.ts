@@ -0,0 +1,25 @@
+/**
+ * Limits applied to the requests of an API client. `0` means unlimited.
+ */
+export interface ApiClientLimits {
+  requestsPerMinute: number;
+  maxConcurrentScans: number;
+  dailyTokenBudget: number;
+}
+
+/**
+ * A client authenticated by an API key.
+ */
+export interface ApiClient extends ApiClientLimits {
+  id: string;
+  disabled?: boolean;
+}
+
+/**
+ * An API key as configured in API_KEYS_FILE. Limits that are left out use the defaults from the environment.
+ */
+export interface ApiKeyEntry extends Partial<ApiClientLimits> {
+  key: string;
+  clientId: string;
+  disabled?: boolean;
+}
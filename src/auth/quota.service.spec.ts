@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { QuotaService } from './quota.service';
+import { ApiClient } from './interfaces/api-client.interface';
+import { QuotaExceededException } from '../common/errors/api-exceptions';
+
+describe('QuotaService', () => {
+  let service: QuotaService;
+  const client: ApiClient = {
+    id: 'acme',
+    requestsPerMinute: 2,
+    maxConcurrentScans: 1,
+    dailyTokenBudget: 100,
+  };
+
+  const catchError = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (error) {
+      return error;
+    }
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [QuotaService],
+    }).compile();
+
+    service = module.get<QuotaService>(QuotaService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should limit the requests per minute over a sliding window', () => {
+    jest.useFakeTimers({ now: Date.parse('2026-10-18T10:00:00Z') });
+    service.consumeRequest(client);
+    jest.advanceTimersByTime(20_000);
+    service.consumeRequest(client);
+
+    const error = catchError(() => service.consumeRequest(client));
+    expect(error).toBeInstanceOf(QuotaExceededException);
+    expect(error).toMatchObject({
+      code: 'RATE_LIMITED',
+      retryAfterSeconds: 40,
+    });
+
+    jest.advanceTimersByTime(40_000);
+    expect(() => service.consumeRequest(client)).not.toThrow();
+  });
+
+  it('should limit concurrent scans until a slot is released', () => {
+    const release = service.acquireScan(client);
+
+    expect(catchError(() => service.acquireScan(client))).toMatchObject({
+      code: 'CONCURRENCY_LIMITED',
+    });
+    release();
+    release();
+    const next = service.acquireScan(client);
+    expect(catchError(() => service.acquireScan(client))).toBeDefined();
+    next();
+  });
+
+  it('should reject scans once the daily token budget is used until the next UTC day', () => {
+    jest.useFakeTimers({ now: Date.parse('2026-10-18T23:00:00Z') });
+    service.recordTokens(client, { promptTokens: 80, completionTokens: 20 });
+
+    expect(catchError(() => service.acquireScan(client))).toMatchObject({
+      code: 'TOKEN_BUDGET_EXCEEDED',
+      retryAfterSeconds: 3600,
+    });
+
+    jest.advanceTimersByTime(3600_000);
+    expect(() => service.acquireScan(client)).not.toThrow();
+  });
+
+  it('should stop running scans once the daily token budget is used', () => {
+    expect(() => service.assertTokenBudget(client)).not.toThrow();
+    service.recordTokens(client, { promptTokens: 90, completionTokens: 10 });
+
+    expect(catchError(() => service.assertTokenBudget(client))).toMatchObject({
+      code: 'TOKEN_BUDGET_EXCEEDED',
+    });
+    expect(() =>
+      service.assertTokenBudget({ ...client, id: 'free', dailyTokenBudget: 0 }),
+    ).not.toThrow();
+  });
+
+  it('should not limit requests without a client', () => {
+    expect(() => service.acquireScan()()).not.toThrow();
+    expect(() =>
+      service.recordTokens(undefined, { promptTokens: 1, completionTokens: 1 }),
+    ).not.toThrow();
+  });
+});
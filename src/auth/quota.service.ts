@@ -0,0 +1,155 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ApiClient } from './interfaces/api-client.interface';
+import { LlmUsage } from '../llm/providers/llm-provider.interface';
+import { QuotaExceededException } from '../common/errors/api-exceptions';
+
+const RATE_WINDOW_MS = 60 * 1000;
+const CONCURRENCY_RETRY_AFTER_S = 5;
+
+/**
+ * Usage of a single client, kept in memory.
+ */
+interface ClientUsage {
+  requests: number[];
+  activeScans: number;
+  day: string;
+  tokensUsed: number;
+}
+
+/**
+ * Enforces the per-client limits: requests per minute over a sliding window,
+ * concurrently running scans, and LLM tokens per UTC day.
+ */
+@Injectable()
+export class QuotaService {
+  private readonly logger = new Logger(QuotaService.name);
+  private readonly usage = new Map<string, ClientUsage>();
+
+  /**
+   * Counts a request against the client's rate limit.
+   * @param {ApiClient} client - The client making the request.
+   */
+  consumeRequest(client: ApiClient) {
+    if (client.requestsPerMinute === 0) {
+      return;
+    }
+    const usage = this.getUsage(client);
+    const now = Date.now();
+    usage.requests = usage.requests.filter(
+      (timestamp) => timestamp > now - RATE_WINDOW_MS,
+    );
+    if (usage.requests.length >= client.requestsPerMinute) {
+      throw new QuotaExceededException(
+        'RATE_LIMITED',
+        `Client "${client.id}" exceeded ${client.requestsPerMinute} requests per minute`,
+        Math.ceil((usage.requests[0] + RATE_WINDOW_MS - now) / 1000),
+      );
+    }
+    usage.requests.push(now);
+  }
+
+  /**
+   * Reserves a scan slot for the client, after checking its daily token budget.
+   * @param {ApiClient} [client] - The client starting a scan; no limits apply without one.
+   * @returns {() => void} - Releases the slot; calling it more than once has no effect.
+   */
+  acquireScan(client?: ApiClient): () => void {
+    if (!client) {
+      return () => {};
+    }
+    this.assertTokenBudget(client);
+    const usage = this.getUsage(client);
+    if (
+      client.maxConcurrentScans > 0 &&
+      usage.activeScans >= client.maxConcurrentScans
+    ) {
+      throw new QuotaExceededException(
+        'CONCURRENCY_LIMITED',
+        `Client "${client.id}" already runs ${usage.activeScans} scans`,
+        CONCURRENCY_RETRY_AFTER_S,
+      );
+    }
+
+    usage.activeScans++;
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        usage.activeScans--;
+      }
+    };
+  }
+
+  /**
+   * Checks that the client has LLM tokens left in its daily budget. Long-running
+   * scans and crawls call it before each page and LLM call, so they stop once the budget is used.
+   * @param {ApiClient} [client] - The client; no budget applies without one.
+   */
+  assertTokenBudget(client?: ApiClient) {
+    if (!client || client.dailyTokenBudget <= 0) {
+      return;
+    }
+    const usage = this.getUsage(client);
+    if (usage.tokensUsed >= client.dailyTokenBudget) {
+      throw new QuotaExceededException(
+        'TOKEN_BUDGET_EXCEEDED',
+        `Client "${client.id}" used its daily budget of ${client.dailyTokenBudget} LLM tokens`,
+        this.secondsUntilNextDay(),
+      );
+    }
+  }
+
+  /**
+   * Adds LLM tokens to the client's usage of the current day.
+   * @param {ApiClient} [client] - The client the tokens were spent for.
+   * @param {LlmUsage} tokens - The token usage of an LLM call.
+   */
+  recordTokens(client: ApiClient | undefined, tokens: LlmUsage) {
+    if (!client) {
+      return;
+    }
+    const usage = this.getUsage(client);
+    usage.tokensUsed += tokens.promptTokens + tokens.completionTokens;
+    if (
+      client.dailyTokenBudget > 0 &&
+      usage.tokensUsed >= client.dailyTokenBudget
+    ) {
+      this.logger.warn(
+        `Client "${client.id}" reached its daily budget of ${client.dailyTokenBudget} LLM tokens`,
+      );
+    }
+  }
+
+  /**
+   * Returns the usage of a client, resetting the token count when a new day has begun.
+   * @param {ApiClient} client - The client.
+   * @returns {ClientUsage} - The client's usage.
+   */
+  private getUsage(client: ApiClient): ClientUsage {
+    const day = new Date().toISOString().slice(0, 10);
+    let usage = this.usage.get(client.id);
+    if (!usage) {
+      usage = { requests: [], activeScans: 0, day, tokensUsed: 0 };
+      this.usage.set(client.id, usage);
+    }
+    if (usage.day !== day) {
+      usage.day = day;
+      usage.tokensUsed = 0;
+    }
+    return usage;
+  }
+
+  /**
+   * Computes the time left until the token budgets reset at midnight UTC.
+   * @returns {number} - The number of seconds until the next UTC day.
+   */
+  private secondsUntilNextDay(): number {
+    const now = new Date();
+    const nextDay = Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate() + 1,
+    );
+    return Math.ceil((nextDay - now.getTime()) / 1000);
+  }
+}
@@ -0,0 +1,178 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import puppeteer from 'puppeteer-extra';
+import { BrowserPoolService } from './browser-pool.service';
+import { MetricsService } from '../metrics/metrics.service';
+
+jest.mock('puppeteer-extra', () => ({
+  __esModule: true,
+  default: { use: jest.fn(), launch: jest.fn() },
+}));
+
+const createFakeBrowser = () => {
+  const context = {
+    newPage: jest.fn().mockResolvedValue({}),
+    close: jest.fn().mockResolvedValue(undefined),
+  };
+  return {
+    context,
+    isConnected: jest.fn().mockReturnValue(true),
+    createBrowserContext: jest.fn().mockResolvedValue(context),
+    close: jest.fn().mockResolvedValue(undefined),
+    version: jest.fn().mockResolvedValue('HeadlessChrome/124.0.0.0'),
+    on: jest.fn(),
+  };
+};
+
+describe('BrowserPoolService', () => {
+  let service: BrowserPoolService;
+  let metricsService: MetricsService;
+  const launch = puppeteer.launch as jest.Mock;
+
+  beforeEach(async () => {
+    process.env['BROWSER_POOL_MAX_CONCURRENCY'] = '1';
+    process.env['BROWSER_POOL_MAX_PAGES_PER_BROWSER'] = '2';
+    process.env['BROWSER_POOL_MAX_BROWSERS'] = '1';
+    launch.mockReset();
+    launch.mockImplementation(async () => createFakeBrowser());
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [BrowserPoolService, MetricsService],
+    }).compile();
+
+    service = module.get<BrowserPoolService>(BrowserPoolService);
+    metricsService = module.get<MetricsService>(MetricsService);
+  });
+
+  afterEach(() => {
+    delete process.env['BROWSER_POOL_MAX_CONCURRENCY'];
+    delete process.env['BROWSER_POOL_MAX_PAGES_PER_BROWSER'];
+    delete process.env['BROWSER_POOL_MAX_BROWSERS'];
+    delete process.env['BROWSER_POOL_IDLE_TTL_MS'];
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should reuse a warm browser and close the context on release', async () => {
+    const first = await service.acquirePage();
+    await first.release();
+    const second = await service.acquirePage();
+    await second.release();
+
+    expect(launch).toHaveBeenCalledTimes(1);
+    const browser = await launch.mock.results[0].value;
+    expect(browser.context.close).toHaveBeenCalledTimes(2);
+  });
+
+  it('should recycle a browser after the configured number of pages', async () => {
+    for (let i = 0; i < 3; i++) {
+      const { release } = await service.acquirePage();
+      await release();
+    }
+
+    expect(launch).toHaveBeenCalledTimes(2);
+    const recycled = await launch.mock.results[0].value;
+    expect(recycled.close).toHaveBeenCalled();
+  });
+
+  it('should use a separate browser per proxy', async () => {
+    const direct = await service.acquirePage();
+    await direct.release();
+    const proxied = await service.acquirePage('http://proxy:8080');
+    await proxied.release();
+
+    expect(launch).toHaveBeenCalledTimes(2);
+    expect(launch.mock.calls[1][0].args).toContain(
+      '--proxy-server=http://proxy:8080',
+    );
+  });
+
+  it('should close an idle browser when the browser limit is reached', async () => {
+    const direct = await service.acquirePage();
+    await direct.release();
+    const proxied = await service.acquirePage('http://proxy:8080');
+    await proxied.release();
+
+    const idle = await launch.mock.results[0].value;
+    expect(idle.close).toHaveBeenCalled();
+    expect(service.getStats().browsers).toBe(1);
+  });
+
+  it('should close browsers that stayed idle longer than the TTL', async () => {
+    jest.useFakeTimers();
+    process.env['BROWSER_POOL_IDLE_TTL_MS'] = '1000';
+    const pool = new BrowserPoolService(new MetricsService());
+    const { release } = await pool.acquirePage();
+    await release();
+
+    jest.advanceTimersByTime(500);
+    expect(pool.getStats().browsers).toBe(1);
+    jest.advanceTimersByTime(1000);
+
+    const browser = await launch.mock.results[0].value;
+    expect(browser.close).toHaveBeenCalled();
+    expect(pool.getStats().browsers).toBe(0);
+    await pool.onModuleDestroy();
+  });
+
+  it('should wait for a free slot when the concurrency limit is reached', async () => {
+    const first = await service.acquirePage();
+    let acquired = false;
+    const pending = service.acquirePage().then((lease) => {
+      acquired = true;
+      return lease;
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(acquired).toBe(false);
+
+    await first.release();
+    const second = await pending;
+    await second.release();
+    expect(service.getStats().activePages).toBe(0);
+  });
+
+  it('should free the slot when creating the page fails', async () => {
+    launch.mockRejectedValueOnce(new Error('launch failed'));
+
+    await expect(service.acquirePage()).rejects.toThrow('launch failed');
+    const { release } = await service.acquirePage();
+    await release();
+  });
+
+  it('should ping Chromium and expose the pool statistics as gauges', async () => {
+    await expect(service.ping()).resolves.toBe('HeadlessChrome/124.0.0.0');
+
+    const metrics = await metricsService.getMetrics();
+    expect(metrics).toContain('scanner_browsers_active 1');
+    expect(metrics).toContain('scanner_browser_pages_active 0');
+  });
+
+  it('should close all browsers on shutdown', async () => {
+    const { release } = await service.acquirePage();
+    await release();
+    await service.onModuleDestroy();
+
+    const browser = await launch.mock.results[0].value;
+    expect(browser.close).toHaveBeenCalled();
+    expect(service.getStats().browsers).toBe(0);
+  });
+
+  it('should close browsers that are still launching on shutdown', async () => {
+    const browser = createFakeBrowser();
+    let finishLaunch: () => void;
+    launch.mockImplementationOnce(
+      () => new Promise((resolve) => (finishLaunch = () => resolve(browser))),
+    );
+    const lease = service.acquirePage();
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const shutdown = service.onModuleDestroy();
+    finishLaunch();
+    await shutdown;
+
+    expect(browser.close).toHaveBeenCalled();
+    await (await lease).release();
+  });
+});
@@ -0,0 +1,402 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import puppeteer from 'puppeteer-extra';
+import AdblockerPlugin from 'puppeteer-extra-plugin-adblocker';
+import StealthPlugin from 'puppeteer-extra-plugin-stealth';
+import AnonymizeUAPlugin from 'puppeteer-extra-plugin-anonymize-ua';
+import { MetricsService } from '../metrics/metrics.service';
+
+puppeteer.use(StealthPlugin());
+puppeteer.use(AdblockerPlugin());
+puppeteer.use(AnonymizeUAPlugin());
+
+const DEFAULT_MAX_CONCURRENCY = 4;
+const DEFAULT_BROWSERS_PER_PROXY = 2;
+const DEFAULT_MAX_PAGES_PER_BROWSER = 50;
+const DEFAULT_MAX_BROWSERS = 8;
+const DEFAULT_IDLE_TTL_MS = 5 * 60 * 1000;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+const DIRECT_CONNECTION = 'direct';
+
+/**
+ * A browser instance managed by the pool.
+ */
+interface PooledBrowser {
+  instance: any;
+  key: string;
+  activePages: number;
+  pagesServed: number;
+  lastUsedAt: number;
+  retired: boolean;
+}
+
+/**
+ * A page leased from the pool. `release` must be called once the page is no longer needed.
+ */
+export interface PooledPage {
+  page: any;
+  release: () => Promise<void>;
+}
+
+/**
+ * Keeps warm Chromium instances and hands out pages in isolated browser contexts.
+ * Browsers are grouped per proxy, recycled after serving a number of pages,
+ * closed once they have been idle for a while and when the application shuts
+ * down. The number of open browsers is capped across all proxies.
+ */
+@Injectable()
+export class BrowserPoolService implements OnModuleDestroy {
+  private readonly logger = new Logger(BrowserPoolService.name);
+  private readonly pools = new Map<string, PooledBrowser[]>();
+  private readonly launching = new Map<string, Promise<PooledBrowser>>();
+  private readonly browsers = new Set<PooledBrowser>();
+  private readonly waiters: (() => void)[] = [];
+  private readonly maxConcurrency: number;
+  private readonly browsersPerProxy: number;
+  private readonly maxPagesPerBrowser: number;
+  private readonly maxBrowsers: number;
+  private readonly idleTtlMs: number;
+  private readonly sweepTimer: NodeJS.Timeout;
+  private activeLeases = 0;
+
+  /**
+   * Initializes the pool with the limits from the environment and exposes its
+   * statistics as gauges.
+   */
+  constructor(metricsService: MetricsService) {
+    this.maxConcurrency =
+      Number(process.env['BROWSER_POOL_MAX_CONCURRENCY']) ||
+      DEFAULT_MAX_CONCURRENCY;
+    this.browsersPerProxy =
+      Number(process.env['BROWSER_POOL_BROWSERS_PER_PROXY']) ||
+      DEFAULT_BROWSERS_PER_PROXY;
+    this.maxPagesPerBrowser =
+      Number(process.env['BROWSER_POOL_MAX_PAGES_PER_BROWSER']) ||
+      DEFAULT_MAX_PAGES_PER_BROWSER;
+    // Every leased page may need its own browser, so the cap never goes below the concurrency
+    this.maxBrowsers = Math.max(
+      Number(process.env['BROWSER_POOL_MAX_BROWSERS']) || DEFAULT_MAX_BROWSERS,
+      this.maxConcurrency,
+    );
+    this.idleTtlMs =
+      Number(process.env['BROWSER_POOL_IDLE_TTL_MS']) || DEFAULT_IDLE_TTL_MS;
+    this.sweepTimer = setInterval(
+      () => this.closeIdleBrowsers(),
+      Math.min(this.idleTtlMs, MAX_SWEEP_INTERVAL_MS),
+    );
+    this.sweepTimer.unref();
+    metricsService.registerGauge(
+      'browsers_active',
+      'Open Chromium instances',
+      () => this.getStats().browsers,
+    );
+    metricsService.registerGauge(
+      'browser_pages_active',
+      'Pages currently leased from the browser pool',
+      () => this.getStats().activePages,
+    );
+    metricsService.registerGauge(
+      'browser_pages_waiting',
+      'Scans waiting for a free browser page',
+      () => this.getStats().waiting,
+    );
+  }
+
+  /**
+   * Leases a page in a fresh incognito context of a pooled browser.
+   * Waits for a free slot when the maximum concurrency is reached.
+   * @param {string} [proxy] - Proxy server the browser must use.
+   * @returns {Promise<PooledPage>} - A promise that resolves to the leased page.
+   */
+  async acquirePage(proxy?: string): Promise<PooledPage> {
+    await this.acquireSlot();
+    let browser: PooledBrowser;
+    let context: any;
+    try {
+      browser = await this.getBrowser(proxy ?? DIRECT_CONNECTION);
+      browser.activePages++;
+      browser.pagesServed++;
+      browser.lastUsedAt = Date.now();
+      context = await this.createContext(browser.instance);
+      const page = await context.newPage();
+
+      let released = false;
+      const release = async () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        await this.releasePage(browser, context);
+      };
+      return { page, release };
+    } catch (error) {
+      if (browser) {
+        await this.releasePage(browser, context);
+      } else {
+        this.releaseSlot();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the number of open browsers and leased pages.
+   * @returns {{ browsers: number; activePages: number; waiting: number }} - The pool statistics.
+   */
+  getStats(): { browsers: number; activePages: number; waiting: number } {
+    return {
+      browsers: this.browsers.size,
+      activePages: this.activeLeases,
+      waiting: this.waiters.length,
+    };
+  }
+
+  /**
+   * Checks that Chromium runs by asking an open browser for its version,
+   * launching a browser without a proxy when none is open.
+   * @returns {Promise<string>} - A promise that resolves to the browser version.
+   */
+  async ping(): Promise<string> {
+    const browser =
+      [...this.browsers].find(
+        (candidate) => !candidate.retired && this.isHealthy(candidate),
+      ) ?? (await this.getBrowser(DIRECT_CONNECTION));
+    return browser.instance.version();
+  }
+
+  /**
+   * Closes every browser when the application shuts down, including browsers
+   * that are still being launched.
+   */
+  async onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+    this.logger.log('Closing all pooled browsers...');
+    await Promise.allSettled(this.launching.values());
+    this.pools.clear();
+    await Promise.all(
+      [...this.browsers].map((browser) => this.closeBrowser(browser)),
+    );
+  }
+
+  /**
+   * Picks a healthy, least-loaded browser for the given proxy, launching one if needed.
+   * @param {string} key - The pool key, i.e. the proxy address or the direct connection marker.
+   * @returns {Promise<PooledBrowser>} - A promise that resolves to the browser.
+   */
+  private async getBrowser(key: string): Promise<PooledBrowser> {
+    const entries = this.pools.get(key) ?? [];
+
+    for (const browser of entries) {
+      if (!browser.retired && !this.isHealthy(browser)) {
+        this.logger.warn('Discarding unhealthy browser');
+        this.retire(browser);
+      } else if (
+        !browser.retired &&
+        browser.pagesServed >= this.maxPagesPerBrowser
+      ) {
+        this.logger.log(`Recycling browser after ${browser.pagesServed} pages`);
+        this.retire(browser);
+      }
+    }
+
+    const available = entries
+      .filter((browser) => !browser.retired)
+      .sort((a, b) => a.activePages - b.activePages);
+    if (
+      available.length > 0 &&
+      (available[0].activePages === 0 ||
+        available.length >= this.browsersPerProxy)
+    ) {
+      return available[0];
+    }
+
+    if (!this.launching.has(key)) {
+      if (this.browsers.size + this.launching.size >= this.maxBrowsers) {
+        const idle = this.findIdleBrowser();
+        if (idle) {
+          this.logger.log('Closing an idle browser to stay within the limit');
+          this.retire(idle);
+        } else if (available.length > 0) {
+          return available[0];
+        } else {
+          throw new ServiceUnavailableException(
+            'No browser is available; try again later',
+          );
+        }
+      }
+      const launch = this.launchBrowser(key)
+        .then((browser) => {
+          const pool = this.pools.get(key) ?? [];
+          this.pools.set(key, pool);
+          pool.push(browser);
+          this.browsers.add(browser);
+          return browser;
+        })
+        .finally(() => this.launching.delete(key));
+      this.launching.set(key, launch);
+    }
+    return this.launching.get(key);
+  }
+
+  /**
+   * Finds the least recently used browser without leased pages.
+   * @returns {PooledBrowser | undefined} - The browser, or undefined if every browser is busy.
+   */
+  private findIdleBrowser(): PooledBrowser | undefined {
+    return [...this.pools.values()]
+      .flat()
+      .filter((browser) => browser.activePages === 0)
+      .sort((a, b) => a.lastUsedAt - b.lastUsedAt)[0];
+  }
+
+  /**
+   * Closes browsers that have not served a page within the idle TTL.
+   */
+  private closeIdleBrowsers() {
+    const cutoff = Date.now() - this.idleTtlMs;
+    for (const browser of [...this.pools.values()].flat()) {
+      if (browser.activePages === 0 && browser.lastUsedAt <= cutoff) {
+        this.logger.log(`Closing browser idle for ${this.idleTtlMs} ms`);
+        this.retire(browser);
+      }
+    }
+  }
+
+  /**
+   * Launches a Puppeteer browser instance with the pool's default options.
+   * @param {string} key - The pool key, i.e. the proxy address or the direct connection marker.
+   * @returns {Promise<PooledBrowser>} - A promise that resolves to the launched browser.
+   */
+  private async launchBrowser(key: string): Promise<PooledBrowser> {
+    this.logger.log('Launching browser...');
+    const args: string[] = [
+      '--window-size=1920,1080',
+      '--no-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-gpu',
+      '--ignore-certificate-errors',
+    ];
+
+    if (key !== DIRECT_CONNECTION) {
+      this.logger.log(`Using proxy: ${key}`);
+      args.push('--proxy-server=' + key);
+    }
+    const instance = await puppeteer.launch({ args, timeout: 60000 });
+    const browser: PooledBrowser = {
+      instance,
+      key,
+      activePages: 0,
+      pagesServed: 0,
+      lastUsedAt: Date.now(),
+      retired: false,
+    };
+    instance.on('disconnected', () => {
+      if (!browser.retired) {
+        this.logger.warn('Browser disconnected unexpectedly');
+        this.retire(browser);
+      }
+    });
+    return browser;
+  }
+
+  /**
+   * Creates an isolated browser context, supporting both the current and the legacy Puppeteer API.
+   * @param {any} instance - The Puppeteer browser instance.
+   * @returns {Promise<any>} - A promise that resolves to the browser context.
+   */
+  private async createContext(instance: any): Promise<any> {
+    if (typeof instance.createBrowserContext === 'function') {
+      return instance.createBrowserContext();
+    }
+    return instance.createIncognitoBrowserContext();
+  }
+
+  /**
+   * Closes a leased context and returns its slot to the pool.
+   * @param {PooledBrowser} browser - The browser the page belongs to.
+   * @param {any} [context] - The browser context to close.
+   */
+  private async releasePage(browser: PooledBrowser, context?: any) {
+    try {
+      await context?.close();
+    } catch (error) {
+      this.logger.warn(`Failed to close browser context: ${error.message}`);
+    }
+    browser.activePages--;
+    browser.lastUsedAt = Date.now();
+    if (browser.retired && browser.activePages === 0) {
+      await this.closeBrowser(browser);
+    }
+    this.releaseSlot();
+  }
+
+  /**
+   * Checks whether a browser is still usable.
+   * @param {PooledBrowser} browser - The browser to check.
+   * @returns {boolean} - True if the browser is still connected.
+   */
+  private isHealthy(browser: PooledBrowser): boolean {
+    return browser.instance.isConnected?.() ?? browser.instance.connected;
+  }
+
+  /**
+   * Removes a browser from its pool so it receives no new pages, closing it once idle.
+   * @param {PooledBrowser} browser - The browser to retire.
+   */
+  private retire(browser: PooledBrowser) {
+    browser.retired = true;
+    const entries = this.pools.get(browser.key) ?? [];
+    const index = entries.indexOf(browser);
+    if (index !== -1) {
+      entries.splice(index, 1);
+    }
+    if (entries.length === 0) {
+      this.pools.delete(browser.key);
+    }
+    if (browser.activePages === 0) {
+      this.closeBrowser(browser);
+    }
+  }
+
+  /**
+   * Closes a browser, ignoring errors from browsers that already exited.
+   * @param {PooledBrowser} browser - The browser to close.
+   */
+  private async closeBrowser(browser: PooledBrowser) {
+    browser.retired = true;
+    this.browsers.delete(browser);
+    try {
+      await browser.instance.close();
+      this.logger.log('Browser closed.');
+    } catch (error) {
+      this.logger.warn(`Failed to close browser: ${error.message}`);
+    }
+  }
+
+  /**
+   * Waits until a page slot is free.
+   */
+  private async acquireSlot(): Promise<void> {
+    if (this.activeLeases < this.maxConcurrency) {
+      this.activeLeases++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiters.push(resolve));
+  }
+
+  /**
+   * Frees a page slot, handing it directly to the next waiter if there is one.
+   */
+  private releaseSlot() {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.activeLeases--;
+    }
+  }
+}
@@ -1,13 +1,52 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { BrowserController } from './browser.controller';
+import { BrowserService } from './browser.service';
+import { JobsService } from '../jobs/jobs.service';
+import { ApiKeyGuard } from '../auth/api-key.guard';
+import { QuotaService } from '../auth/quota.service';
+import { UsageService } from '../usage/usage.service';
+import { NavigationTimeoutException } from '../common/errors/api-exceptions';
 
 describe('BrowserController', () => {
   let controller: BrowserController;
+  const browserService = { scanPage: jest.fn() };
+  const jobsService = { enqueue: jest.fn() };
+  const release = jest.fn();
+  const quotaService = {
+    acquireScan: jest.fn(),
+    recordTokens: jest.fn(),
+    assertTokenBudget: jest.fn(),
+  };
+  const usageService = { record: jest.fn() };
+  const res = { status: jest.fn() } as any;
+  const createStreamResponse = () => {
+    const written: string[] = [];
+    return {
+      written,
+      status: jest.fn(),
+      setHeader: jest.fn(),
+      flushHeaders: jest.fn(),
+      on: jest.fn(),
+      write: jest.fn((chunk: string) => written.push(chunk)),
+      end: jest.fn(),
+    } as any;
+  };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+    quotaService.acquireScan.mockReturnValue(release);
     const module: TestingModule = await Test.createTestingModule({
       controllers: [BrowserController],
-    }).compile();
+      providers: [
+        { provide: BrowserService, useValue: browserService },
+        { provide: JobsService, useValue: jobsService },
+        { provide: QuotaService, useValue: quotaService },
+        { provide: UsageService, useValue: usageService },
+      ],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
 
     controller = module.get<BrowserController>(BrowserController);
   });
@@ -15,4 +54,121 @@ describe('BrowserController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  it('should scan synchronously by default', async () => {
+    browserService.scanPage.mockResolvedValue([]);
+
+    await expect(
+      controller.scanPage({ url: 'https://example.com' }, res),
+    ).resolves.toEqual([]);
+    expect(jobsService.enqueue).not.toHaveBeenCalled();
+    expect(release).toHaveBeenCalled();
+  });
+
+  it('should queue a job and answer 202 when async is set', async () => {
+    jobsService.enqueue.mockReturnValue({ id: 'job-1', status: 'queued' });
+
+    await expect(
+      controller.scanPage({ url: 'https://example.com', async: true }, res),
+    ).resolves.toEqual({ jobId: 'job-1', status: 'queued' });
+    expect(res.status).toHaveBeenCalledWith(202);
+  });
+
+  it('should hold the scan slot of a queued scan until the job finishes and record its usage', async () => {
+    const client = { id: 'acme' } as any;
+    jobsService.enqueue.mockReturnValue({ id: 'job-1', status: 'queued' });
+    browserService.scanPage.mockImplementation(async (_dto, { onUsage }) => {
+      onUsage({ promptTokens: 3, completionTokens: 2 });
+      return {};
+    });
+
+    await controller.scanPage(
+      { url: 'https://example.com', async: true },
+      res,
+      client,
+    );
+    expect(quotaService.acquireScan).toHaveBeenCalledWith(client);
+    expect(release).not.toHaveBeenCalled();
+
+    await jobsService.enqueue.mock.calls[0][0](jest.fn());
+    expect(quotaService.recordTokens).toHaveBeenCalledWith(client, {
+      promptTokens: 3,
+      completionTokens: 2,
+    });
+    expect(usageService.record).toHaveBeenCalledWith('acme', {
+      promptTokens: 3,
+      completionTokens: 2,
+    });
+    expect(quotaService.assertTokenBudget).toHaveBeenCalledWith(client);
+    expect(release).toHaveBeenCalled();
+  });
+
+  it('should stream the scan events and the result as server-sent events', async () => {
+    const stream = createStreamResponse();
+    browserService.scanPage.mockImplementation(async (_dto, { onEvent }) => {
+      onEvent({ type: 'chunks', chunksTotal: 1 });
+      onEvent({ type: 'chunk', index: 0, cached: false, result: {} });
+      return { scanId: 'scan' };
+    });
+
+    await controller.streamScan({ url: 'https://example.com' }, stream);
+
+    expect(stream.setHeader).toHaveBeenCalledWith(
+      'Content-Type',
+      'text/event-stream',
+    );
+    expect(stream.written).toEqual([
+      'event: chunks\ndata: {"chunksTotal":1}\n\n',
+      'event: chunk\ndata: {"index":0,"cached":false,"result":{}}\n\n',
+      'event: result\ndata: {"scanId":"scan"}\n\n',
+    ]);
+    expect(stream.end).toHaveBeenCalled();
+    expect(release).toHaveBeenCalled();
+  });
+
+  it('should end the stream with an error event when the scan fails', async () => {
+    const stream = createStreamResponse();
+    browserService.scanPage.mockRejectedValue(
+      new NavigationTimeoutException('Navigation timeout'),
+    );
+
+    await controller.streamScan({ url: 'https://example.com' }, stream);
+
+    const [event] = stream.written;
+    expect(event).toMatch(/^event: error\n/);
+    expect(JSON.parse(event.split('data: ')[1])).toMatchObject({
+      statusCode: 504,
+      code: 'NAVIGATION_TIMEOUT',
+    });
+    expect(release).toHaveBeenCalled();
+  });
+
+  it('should stop the scan when the client disconnects', async () => {
+    const stream = createStreamResponse();
+    browserService.scanPage.mockImplementation(async (_dto, { signal }) => {
+      const [, onClose] = stream.on.mock.calls.find(
+        ([event]) => event === 'close',
+      );
+      onClose();
+      signal.throwIfAborted();
+    });
+
+    await controller.streamScan({ url: 'https://example.com' }, stream);
+
+    expect(stream.written).toEqual([]);
+    expect(release).toHaveBeenCalled();
+  });
+
+  it('should reject streamed scans that ask to run as a job', async () => {
+    const stream = createStreamResponse();
+
+    await expect(
+      controller.streamScan(
+        { url: 'https://example.com', async: true },
+        stream,
+      ),
+    ).rejects.toThrow('Streamed scans cannot run as jobs');
+    expect(stream.flushHeaders).not.toHaveBeenCalled();
+    expect(quotaService.acquireScan).not.toHaveBeenCalled();
+  });
 });
@@ -1,25 +1,166 @@
-import { Controller, Post, Body } from '@nestjs/common';
+import {
+  BadRequestException,
+  Controller,
+  Post,
+  Body,
+  Res,
+  HttpStatus,
+  Logger,
+  UseGuards,
+} from '@nestjs/common';
+import { Response } from 'express';
 import { BrowserService } from './browser.service';
 import { RequestDto } from './dto/request.dto';
-import { ApiTags, ApiOperation, ApiBody } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBody,
+  ApiProduces,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { JobsService } from '../jobs/jobs.service';
+import { ApiKeyGuard } from '../auth/api-key.guard';
+import { CurrentClient } from '../auth/api-client.decorator';
+import { QuotaService } from '../auth/quota.service';
+import { ApiClient } from '../auth/interfaces/api-client.interface';
+import {
+  LlmCallUsage,
+  LlmUsageListener,
+} from '../llm/providers/llm-provider.interface';
+import { UsageService } from '../usage/usage.service';
+import { SseStream } from '../common/sse/sse-stream';
+import { toErrorResponse } from '../common/errors/error-response';
 
 /**
  * Controller for handling browser-related operations.
  */
 @ApiTags('browser')
+@ApiSecurity('api-key')
+@UseGuards(ApiKeyGuard)
 @Controller('/api/v1/browser')
 export class BrowserController {
-  constructor(private readonly browserService: BrowserService) {}
+  private readonly logger = new Logger(BrowserController.name);
+
+  constructor(
+    private readonly browserService: BrowserService,
+    private readonly jobsService: JobsService,
+    private readonly quotaService: QuotaService,
+    private readonly usageService: UsageService,
+  ) {}
 
   /**
    * Endpoint to scan a web page.
+   * When `async` is set, the scan is queued and a job reference is returned with status 202.
+   * The scan holds one of the client's scan slots until it finishes, and its LLM usage counts against the client's budget and usage.
    * @param {RequestDto} requestDto - The request data transfer object containing URL and optional authentication details.
-   * @returns {Promise<string>} - A promise that resolves to the normalized HTML content of the web page.
+   * @param {Response} res - The response, used to switch the status code for queued jobs.
+   * @param {ApiClient} [client] - The authenticated client.
+   * @returns {Promise<any>} - A promise that resolves to the normalized content of the web page, or the queued job.
    */
   @Post('scan')
   @ApiOperation({ summary: 'Scan a web page' })
   @ApiBody({ type: RequestDto })
-  async scanPage(@Body() requestDto: RequestDto): Promise<string> {
-    return this.browserService.scanPage(requestDto);
+  async scanPage(
+    @Body() requestDto: RequestDto,
+    @Res({ passthrough: true }) res: Response,
+    @CurrentClient() client?: ApiClient,
+  ): Promise<any> {
+    const release = this.quotaService.acquireScan(client);
+    const onUsage = this.createUsageListener(client);
+    const checkBudget = () => this.quotaService.assertTokenBudget(client);
+    if (!requestDto.async) {
+      try {
+        return await this.browserService.scanPage(requestDto, {
+          clientId: client?.id,
+          onUsage,
+          checkBudget,
+        });
+      } finally {
+        release();
+      }
+    }
+
+    const job = this.jobsService.enqueue(
+      (onProgress) =>
+        this.browserService
+          .scanPage(requestDto, {
+            clientId: client?.id,
+            onProgress,
+            onUsage,
+            checkBudget,
+          })
+          .finally(release),
+      requestDto.callbackUrl,
+      client?.id,
+    );
+    res.status(HttpStatus.ACCEPTED);
+    return { jobId: job.id, status: job.status };
+  }
+
+  /**
+   * Endpoint to scan a web page while streaming its progress as Server-Sent
+   * Events: `navigated`, `metadata`, `chunks`, one `chunk` event per chunk
+   * result, optionally `token` events, and finally `result` or `error`.
+   * Requests that are rejected before the scan starts are answered with a regular JSON error,
+   * and the scan stops once the client disconnects.
+   * @param {RequestDto} requestDto - The request data transfer object containing URL and optional authentication details.
+   * @param {Response} res - The response the events are written to.
+   * @param {ApiClient} [client] - The authenticated client.
+   * @returns {Promise<void>} - A promise that resolves once the stream has ended.
+   */
+  @Post('scan/stream')
+  @ApiOperation({ summary: 'Scan a web page and stream its results' })
+  @ApiBody({ type: RequestDto })
+  @ApiProduces('text/event-stream')
+  async streamScan(
+    @Body() requestDto: RequestDto,
+    @Res() res: Response,
+    @CurrentClient() client?: ApiClient,
+  ): Promise<void> {
+    if (requestDto.async) {
+      throw new BadRequestException('Streamed scans cannot run as jobs');
+    }
+    const release = this.quotaService.acquireScan(client);
+    const stream = new SseStream(res);
+    try {
+      const result = await this.browserService.scanPage(requestDto, {
+        clientId: client?.id,
+        onUsage: this.createUsageListener(client),
+        checkBudget: () => this.quotaService.assertTokenBudget(client),
+        onEvent: ({ type, ...event }) => stream.send(type, event),
+        signal: stream.signal,
+      });
+      stream.send('result', result);
+    } catch (error) {
+      if (stream.signal.aborted) {
+        this.logger.log('Streamed scan stopped: the client disconnected');
+        return;
+      }
+      const response = toErrorResponse(error);
+      if (response.statusCode >= 500) {
+        this.logger.error(
+          `Streamed scan failed: ${error.message}`,
+          error.stack,
+        );
+      }
+      stream.send('error', response);
+    } finally {
+      release();
+      stream.end();
+    }
+  }
+
+  /**
+   * Creates the listener that counts the LLM usage of a scan against the client's budget and usage,
+   * and stops the scan once the budget is used.
+   * @param {ApiClient} [client] - The authenticated client.
+   * @returns {LlmUsageListener} - The usage listener.
+   */
+  private createUsageListener(client?: ApiClient): LlmUsageListener {
+    return (usage: LlmCallUsage) => {
+      this.usageService.record(client?.id, usage);
+      this.quotaService.recordTokens(client, usage);
+      this.quotaService.assertTokenBudget(client);
+    };
   }
 }
@@ -1,12 +1,38 @@
 import { Module } from '@nestjs/common';
 import { BrowserService } from './browser.service';
+import { BrowserPoolService } from './browser-pool.service';
+import { PageActionsService } from './page-actions.service';
+import { PageCaptureService } from './page-capture.service';
 import { BrowserController } from './browser.controller';
 import { LlmModule } from '../llm/llm.module';
 import { ParserModule } from '../parser/parser.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { CacheModule } from '../cache/cache.module';
+import { StorageModule } from '../storage/storage.module';
+import { UrlPolicyModule } from '../url-policy/url-policy.module';
+import { AuthModule } from '../auth/auth.module';
+import { UsageModule } from '../usage/usage.module';
+import { MetricsModule } from '../metrics/metrics.module';
 
 @Module({
-  imports: [LlmModule, ParserModule],
-  providers: [BrowserService],
+  imports: [
+    LlmModule,
+    ParserModule,
+    JobsModule,
+    CacheModule,
+    StorageModule,
+    UrlPolicyModule,
+    AuthModule,
+    UsageModule,
+    MetricsModule,
+  ],
+  providers: [
+    BrowserService,
+    BrowserPoolService,
+    PageActionsService,
+    PageCaptureService,
+  ],
+  exports: [BrowserService, BrowserPoolService],
   controllers: [BrowserController],
 })
 export class BrowserModule {}
@@ -1,18 +1,370 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { BrowserService } from './browser.service';
+import { ParserService } from '../parser/parser.service';
+import { BrowserPoolService } from './browser-pool.service';
+import { CacheService } from '../cache/cache.service';
+import { PageActionsService } from './page-actions.service';
+import { ImageFetcherService } from '../parser/image-fetcher.service';
+import { DocumentConverterService } from '../parser/document-converter.service';
+import { PageCaptureService } from './page-capture.service';
+import { StorageService } from '../storage/storage.service';
+import { UrlPolicyService } from '../url-policy/url-policy.service';
+import {
+  BlockedUrlException,
+  NavigationTimeoutException,
+} from '../common/errors/api-exceptions';
+import { MetricsService } from '../metrics/metrics.service';
 
 describe('BrowserService', () => {
   let service: BrowserService;
+  let metricsService: MetricsService;
+  const urlPolicyService = {
+    assertAllowed: jest.fn(),
+    assertProxyAllowed: jest.fn(),
+    requestOptions: {},
+  };
+  const page = {
+    setUserAgent: jest.fn(),
+    setViewport: jest.fn(),
+    goto: jest.fn(),
+    content: jest.fn().mockResolvedValue('<h1>Title</h1>'),
+    $$eval: jest.fn().mockResolvedValue(['https://example.com/next']),
+    on: jest.fn(),
+    setRequestInterception: jest.fn(),
+    mainFrame: jest.fn().mockReturnValue('main'),
+    screenshot: jest.fn().mockResolvedValue(Buffer.from('png')),
+    url: jest.fn().mockReturnValue('https://example.com/'),
+    title: jest.fn().mockResolvedValue('Example'),
+    authenticate: jest.fn(),
+    waitForSelector: jest.fn(),
+    click: jest.fn(),
+  };
+  const storageService = {
+    createScanId: jest.fn().mockReturnValue('scan'),
+    saveArtifact: jest.fn(),
+  };
+  const browserPool = {
+    acquirePage: jest.fn().mockResolvedValue({ page, release: jest.fn() }),
+  };
+  const parserService = {
+    getNormalizedContent: jest.fn().mockResolvedValue({
+      scanId: 'scan',
+      title: 'Title',
+      sections: [],
+      errors: [],
+    }),
+  };
 
   beforeEach(async () => {
+    jest.clearAllMocks();
     const module: TestingModule = await Test.createTestingModule({
-      providers: [BrowserService],
+      providers: [
+        BrowserService,
+        CacheService,
+        PageActionsService,
+        ImageFetcherService,
+        DocumentConverterService,
+        PageCaptureService,
+        { provide: StorageService, useValue: storageService },
+        { provide: UrlPolicyService, useValue: urlPolicyService },
+        { provide: ParserService, useValue: parserService },
+        { provide: BrowserPoolService, useValue: browserPool },
+        MetricsService,
+      ],
     }).compile();
 
     service = module.get<BrowserService>(BrowserService);
+    metricsService = module.get<MetricsService>(MetricsService);
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should serve repeated scans from the result cache', async () => {
+    const first = await service.scanPage({ url: 'https://example.com/#a' });
+    const second = await service.scanPage({ url: 'https://example.com/' });
+
+    expect(first.cache).toEqual({ hit: false });
+    expect(second).toEqual({ ...first, cache: { hit: true } });
+    expect(browserPool.acquirePage).toHaveBeenCalledTimes(1);
+    expect(parserService.getNormalizedContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache results with failed chunks', async () => {
+    parserService.getNormalizedContent.mockResolvedValueOnce({
+      scanId: 'scan',
+      title: 'Title',
+      sections: [],
+      errors: [{ chunk: 0, error: 'LLM provider unavailable' }],
+    });
+    const partial = await service.scanPage({ url: 'https://example.com/' });
+    const second = await service.scanPage({ url: 'https://example.com/' });
+
+    expect(partial.errors).toHaveLength(1);
+    expect(second.cache).toEqual({ hit: false });
+    expect(browserPool.acquirePage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should pass the images loaded by the page to the parser', async () => {
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+    const response = (url: string, resourceType: string) => ({
+      url: () => url,
+      ok: () => true,
+      headers: () => ({ 'content-type': 'image/png' }),
+      request: () => ({ resourceType: () => resourceType }),
+      buffer: async () => image,
+    });
+    page.goto.mockImplementationOnce(async () => {
+      const [, onResponse] = page.on.mock.calls[0];
+      onResponse(response('https://example.com/a.png', 'image'));
+      onResponse(response('https://example.com/app.js', 'script'));
+    });
+
+    await service.scanPage({ url: 'https://example.com/', cache: 'bypass' });
+
+    const options = parserService.getNormalizedContent.mock.calls[0][2];
+    expect([...options.preloadedImages]).toEqual([
+      [
+        'https://example.com/a.png',
+        { content: image, contentType: 'image/png' },
+      ],
+    ]);
+  });
+
+  it('should emit the navigation and the page metadata', async () => {
+    const onEvent = jest.fn();
+
+    await service.scanPage(
+      { url: 'https://example.com/', cache: 'bypass', streamTokens: true },
+      { onEvent },
+    );
+
+    expect(onEvent.mock.calls.map(([event]) => event)).toEqual([
+      { type: 'navigated', url: 'https://example.com/', status: undefined },
+      { type: 'metadata', title: 'Example', contentType: undefined, links: 1 },
+    ]);
+    const options = parserService.getNormalizedContent.mock.calls[0][2];
+    expect(options).toMatchObject({ onEvent, streamTokens: true });
+  });
+
+  it('should stop an aborted scan before the next phase', async () => {
+    const controller = new AbortController();
+    const onEvent = jest.fn(() => controller.abort());
+
+    await expect(
+      service.scanPage(
+        { url: 'https://example.com/', cache: 'bypass' },
+        { onEvent, signal: controller.signal },
+      ),
+    ).rejects.toThrow('aborted');
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    expect(parserService.getNormalizedContent).not.toHaveBeenCalled();
+  });
+
+  it('should authenticate with the credentials only', async () => {
+    await service.scanPage({
+      url: 'https://example.com/',
+      cache: 'bypass',
+      username: 'user',
+      password: 'secret',
+      actions: [{ type: 'click', selector: '#login' }],
+    });
+
+    expect(page.authenticate).toHaveBeenCalledWith({
+      username: 'user',
+      password: 'secret',
+    });
+  });
+
+  it('should report the links of fresh and cached pages', async () => {
+    const onLinks = jest.fn();
+
+    await service.scanPage({ url: 'https://example.com/' }, { onLinks });
+    await service.scanPage({ url: 'https://example.com/' }, { onLinks });
+
+    expect(onLinks).toHaveBeenNthCalledWith(1, ['https://example.com/next']);
+    expect(onLinks).toHaveBeenNthCalledWith(2, ['https://example.com/next']);
+  });
+
+  it('should not share cached results across clients, credentials or proxies', async () => {
+    const url = 'https://example.com/';
+    await service.scanPage({ url, username: 'user', password: 'secret' });
+    await service.scanPage({ url, username: 'user', password: 'wrong' });
+    await service.scanPage({ url, username: 'user' });
+    await service.scanPage({ url, proxy: 'http://proxy.example:8080' });
+    await service.scanPage({ url }, { clientId: 'acme' });
+    await service.scanPage({ url }, { clientId: 'other' });
+    const cached = await service.scanPage({ url }, { clientId: 'acme' });
+
+    expect(browserPool.acquirePage).toHaveBeenCalledTimes(6);
+    expect(cached.cache).toEqual({ hit: true });
+  });
+
+  it('should rescan when the cache is refreshed or bypassed', async () => {
+    await service.scanPage({ url: 'https://example.com/' });
+    await service.scanPage({ url: 'https://example.com/', cache: 'refresh' });
+    await service.scanPage({ url: 'https://example.com/', cache: 'bypass' });
+
+    expect(browserPool.acquirePage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should convert documents that are not HTML', async () => {
+    page.goto.mockImplementationOnce(async () => {
+      const [, onResponse] = page.on.mock.calls[1];
+      onResponse({
+        url: () => 'https://example.com/notes.txt',
+        status: () => 200,
+        headers: () => ({ 'content-type': 'text/plain; charset=utf-8' }),
+        request: () => ({
+          isNavigationRequest: () => true,
+          frame: () => 'main',
+        }),
+        buffer: async () => Buffer.from('Release notes'),
+      });
+    });
+
+    await service.scanPage({
+      url: 'https://example.com/notes.txt',
+      cache: 'bypass',
+    });
+
+    expect(page.content).not.toHaveBeenCalled();
+    expect(parserService.getNormalizedContent.mock.calls[0][0]).toContain(
+      '<p>Release notes</p>',
+    );
+  });
+
+  it('should store captures under the scan ID and list them in the response', async () => {
+    const result = await service.scanPage({
+      url: 'https://example.com/',
+      capture: { screenshot: true, har: true },
+    });
+
+    expect(page.screenshot).toHaveBeenCalledWith({
+      type: 'png',
+      fullPage: true,
+    });
+    expect(storageService.saveArtifact).toHaveBeenCalledWith(
+      'scan',
+      'screenshot.png',
+      Buffer.from('png'),
+      'image/png',
+    );
+    expect(storageService.saveArtifact.mock.calls[1][1]).toBe('network.har');
+    expect(parserService.getNormalizedContent.mock.calls[0][2].scanId).toBe(
+      'scan',
+    );
+    expect(result.captures).toEqual([
+      {
+        type: 'screenshot',
+        name: 'screenshot.png',
+        contentType: 'image/png',
+        url: '/api/v1/scans/scan/artifacts/screenshot.png',
+      },
+      {
+        type: 'har',
+        name: 'network.har',
+        contentType: 'application/json',
+        url: '/api/v1/scans/scan/artifacts/network.har',
+      },
+    ]);
+  });
+
+  it('should reject URLs blocked by the URL policy before opening a page', async () => {
+    urlPolicyService.assertAllowed.mockRejectedValueOnce(
+      new BlockedUrlException('Scheme "file" is not allowed'),
+    );
+
+    await expect(
+      service.scanPage({ url: 'file:///etc/passwd' }),
+    ).rejects.toBeInstanceOf(BlockedUrlException);
+    expect(browserPool.acquirePage).not.toHaveBeenCalled();
+  });
+
+  it('should reject proxies blocked by the URL policy before opening a page', async () => {
+    urlPolicyService.assertProxyAllowed.mockRejectedValueOnce(
+      new BlockedUrlException('Address 169.254.169.254 is private'),
+    );
+
+    await expect(
+      service.scanPage({
+        url: 'https://example.com/',
+        proxy: '169.254.169.254:80',
+      }),
+    ).rejects.toBeInstanceOf(BlockedUrlException);
+    expect(urlPolicyService.assertProxyAllowed).toHaveBeenCalledWith(
+      '169.254.169.254:80',
+    );
+    expect(browserPool.acquirePage).not.toHaveBeenCalled();
+  });
+
+  it('should abort page requests the URL policy rejects', async () => {
+    const request = (url: string) => ({
+      url: () => url,
+      isInterceptResolutionHandled: () => false,
+      enqueueInterceptAction: jest.fn(),
+      isNavigationRequest: () => false,
+      frame: () => 'main',
+      continueRequestOverrides: () => ({}),
+      continue: jest.fn(),
+      abort: jest.fn(),
+    });
+    const internal = request('http://169.254.169.254/latest');
+    const image = request('data:image/png;base64,AA==');
+    page.goto.mockImplementationOnce(async () => {
+      const [, onRequest] = page.on.mock.calls.find(
+        ([event]) => event === 'request',
+      );
+      onRequest(internal);
+      onRequest(image);
+    });
+    urlPolicyService.assertAllowed.mockImplementation(async (url: string) => {
+      if (url.includes('169.254')) {
+        throw new BlockedUrlException('private address');
+      }
+    });
+
+    await service.scanPage({ url: 'https://example.com/', cache: 'bypass' });
+    await internal.enqueueInterceptAction.mock.calls[0][0]();
+    await image.enqueueInterceptAction.mock.calls[0][0]();
+
+    expect(page.setRequestInterception).toHaveBeenCalledWith(true);
+    expect(internal.abort).toHaveBeenCalledWith('blockedbyclient', 0);
+    expect(image.continue).toHaveBeenCalledWith({}, 0);
+    urlPolicyService.assertAllowed.mockReset();
+  });
+
+  it('should report navigation timeouts with their own error', async () => {
+    const timeout = Object.assign(new Error('Navigation timeout'), {
+      name: 'TimeoutError',
+    });
+    page.goto.mockRejectedValueOnce(timeout).mockRejectedValueOnce(timeout);
+
+    await expect(
+      service.scanPage({ url: 'https://example.com/', cache: 'bypass' }),
+    ).rejects.toBeInstanceOf(NavigationTimeoutException);
+  });
+
+  it('should count scans by outcome and time the browser phases', async () => {
+    await service.scanPage({ url: 'https://example.com/' });
+    await service.scanPage({ url: 'https://example.com/' });
+    urlPolicyService.assertAllowed.mockRejectedValueOnce(
+      new BlockedUrlException('private address'),
+    );
+    await expect(
+      service.scanPage({ url: 'http://10.0.0.1/', cache: 'bypass' }),
+    ).rejects.toBeInstanceOf(BlockedUrlException);
+
+    const metrics = await metricsService.getMetrics();
+    expect(metrics).toContain('scanner_scans_total{outcome="success"} 1');
+    expect(metrics).toContain('scanner_scans_total{outcome="cached"} 1');
+    expect(metrics).toContain('scanner_scans_total{outcome="failed"} 1');
+    expect(metrics).toContain(
+      'scanner_phase_duration_seconds_count{phase="launch"} 1',
+    );
+    expect(metrics).toContain(
+      'scanner_phase_duration_seconds_count{phase="navigate"} 1',
+    );
+  });
 });
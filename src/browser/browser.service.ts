@@ -1,47 +1,241 @@
 import { Injectable, Logger } from '@nestjs/common';
-import puppeteer from 'puppeteer-extra';
 import { RequestDto } from './dto/request.dto';
 import { ParserService } from '../parser/parser.service';
-import AdblockerPlugin from 'puppeteer-extra-plugin-adblocker';
+import { BrowserPoolService } from './browser-pool.service';
 import performanceNow from 'performance-now';
 import UserAgent from 'user-agents';
+import { ScanOptions } from './interfaces/scan-options.interface';
+import { CacheService } from '../cache/cache.service';
+import { PageActionsService } from './page-actions.service';
+import { ImageFetcherService } from '../parser/image-fetcher.service';
+import { FetchedImage } from '../parser/interfaces/fetched-image.interface';
+import { DocumentConverterService } from '../parser/document-converter.service';
+import { FetchedDocument } from '../parser/interfaces/fetched-document.interface';
+import { StorageService } from '../storage/storage.service';
+import { NetworkLog, PageCaptureService } from './page-capture.service';
+import { CapturedArtifact } from './interfaces/page-capture.interface';
+import { UrlPolicyService } from '../url-policy/url-policy.service';
+import { MetricsService } from '../metrics/metrics.service';
+import {
+  BlockedUrlException,
+  NavigationFailedException,
+  NavigationTimeoutException,
+} from '../common/errors/api-exceptions';
 
-import StealthPlugin from 'puppeteer-extra-plugin-stealth';
-import AnonymizeUAPlugin from 'puppeteer-extra-plugin-anonymize-ua';
+const LOCAL_URL_PATTERN = /^(data|blob|about):/;
+const NAVIGATION_TIMEOUT_MS = 60000;
+const FALLBACK_NAVIGATION_TIMEOUT_MS = 10000;
 
-puppeteer.use(StealthPlugin());
-puppeteer.use(AdblockerPlugin());
-puppeteer.use(AnonymizeUAPlugin());
+/**
+ * Why the URL policy blocked the page's own navigation, if it did.
+ */
+interface NavigationGuard {
+  blockedReason?: string;
+}
 
 @Injectable()
 export class BrowserService {
   private readonly logger = new Logger(BrowserService.name);
-  constructor(private readonly parserService: ParserService) {}
+  constructor(
+    private readonly parserService: ParserService,
+    private readonly browserPool: BrowserPoolService,
+    private readonly cacheService: CacheService,
+    private readonly pageActionsService: PageActionsService,
+    private readonly imageFetcherService: ImageFetcherService,
+    private readonly documentConverterService: DocumentConverterService,
+    private readonly pageCaptureService: PageCaptureService,
+    private readonly storageService: StorageService,
+    private readonly urlPolicyService: UrlPolicyService,
+    private readonly metricsService: MetricsService,
+  ) {}
 
   /**
-   * Scans a web page and returns its normalized content.
+   * Scans a web page and returns its normalized content. PDFs, plain text, JSON
+   * and feeds are converted to HTML instead of using the page Chromium rendered.
    * @param {RequestDto} requestDto - The request data transfer object containing URL and optional authentication details.
-   * @returns {Promise<string>} - A promise that resolves to the normalized HTML content of the web page.
+   * @param {ScanOptions} [options] - The client the scan runs for and the listeners notified while it runs.
+   * @returns {Promise<any>} - A promise that resolves to the normalized content of the web page.
+   */
+  async scanPage(
+    requestDto: RequestDto,
+    options: ScanOptions = {},
+  ): Promise<any> {
+    try {
+      const result = await this.runScan(requestDto, options);
+      this.metricsService.recordScan(result.cache?.hit ? 'cached' : 'success');
+      return result;
+    } catch (error) {
+      this.metricsService.recordScan('failed');
+      throw error;
+    }
+  }
+
+  /**
+   * Runs a scan, serving it from the result cache when possible.
+   * @param {RequestDto} requestDto - The request data transfer object.
+   * @param {ScanOptions} options - The client the scan runs for and the listeners notified while it runs.
+   * @returns {Promise<any>} - A promise that resolves to the normalized content of the web page.
    */
-  async scanPage(requestDto: RequestDto): Promise<string> {
+  private async runScan(
+    requestDto: RequestDto,
+    options: ScanOptions,
+  ): Promise<any> {
+    const { onProgress, onLinks, onUsage, onEvent, signal } = options;
     const start = performanceNow();
-    const browser = await this.launchBrowser(requestDto);
-    const page = await browser.newPage();
+    this.pageActionsService.validate(requestDto.actions);
+    this.pageCaptureService.validate(requestDto.capture);
+    await this.urlPolicyService.assertAllowed(requestDto.url);
+    if (requestDto.proxy) {
+      await this.urlPolicyService.assertProxyAllowed(requestDto.proxy);
+    }
+    const cacheMode = requestDto.cache ?? 'use';
+    const cacheKey = this.createCacheKey(requestDto, options.clientId);
+    if (cacheMode === 'use') {
+      const cached = this.cacheService.getResult(cacheKey);
+      if (cached) {
+        this.logger.log(`Serving ${requestDto.url} from the result cache`);
+        onLinks?.(cached.links);
+        return {
+          ...cached.result,
+          cache: { ...cached.result.cache, hit: true },
+        };
+      }
+    }
+
+    signal?.throwIfAborted();
+    const scanId = this.storageService.createScanId(options.clientId);
+    onProgress?.({ phase: 'fetching' });
+    this.logger.log('Acquiring browser page...');
+    const endLaunch = this.metricsService.startPhase('launch');
+    const { page, release } = await this.browserPool.acquirePage(
+      requestDto.proxy,
+    );
+    endLaunch();
+
+    let htmlContent: string;
+    let links: string[];
+    let preloadedImages: Map<string, FetchedImage>;
+    let captures: CapturedArtifact[] = [];
+    try {
+      await this.authenticatePage(page, requestDto);
+      await this.setupPage(page);
+      const imageResponses = this.captureImageResponses(page);
+      const navigation = this.captureNavigationResponse(page);
+      const networkLog: NetworkLog = requestDto.capture?.har
+        ? this.pageCaptureService.recordNetwork(page)
+        : undefined;
+      const guard = await this.enforceUrlPolicy(page);
+      let document: FetchedDocument | null = null;
+      const endNavigate = this.metricsService.startPhase('navigate');
+      try {
+        await this.navigateToUrl(page, requestDto.url, guard);
+      } catch (error) {
+        // Chromium aborts navigations that end in a download, as with most PDFs
+        document = await this.readDocument(navigation.response);
+        if (!document) {
+          throw error;
+        }
+      } finally {
+        endNavigate();
+      }
+      document ??= await this.readDocument(navigation.response);
+      onEvent?.({
+        type: 'navigated',
+        url: page.url(),
+        status: navigation.response?.status(),
+      });
+      signal?.throwIfAborted();
+
+      if (document) {
+        if (requestDto.actions?.length) {
+          this.logger.warn('Skipping page actions on a non-HTML document');
+        }
+        htmlContent = await this.documentConverterService.toHtml(document);
+        links = [];
+        preloadedImages = new Map();
+      } else {
+        if (requestDto.actions?.length) {
+          await this.pageActionsService.run(page, requestDto.actions);
+        }
 
-    await this.authenticatePage(page, requestDto);
-    await this.setupPage(page);
-    await this.navigateToUrl(page, requestDto.url);
+        htmlContent = await this.extractHtmlContent(page);
+        links = await this.extractLinks(page);
+        preloadedImages = await this.collectImageResponses(imageResponses);
+      }
+      if (onEvent) {
+        onEvent({
+          type: 'metadata',
+          title: document ? undefined : await page.title(),
+          contentType:
+            document?.contentType ??
+            navigation.response?.headers()['content-type'],
+          links: links.length,
+        });
+      }
+      if (this.pageCaptureService.isRequested(requestDto.capture)) {
+        captures = await this.pageCaptureService.capture(
+          page,
+          requestDto.capture,
+          networkLog,
+        );
+      }
+    } finally {
+      await release();
+      this.logger.log('Browser page released.');
+    }
+    signal?.throwIfAborted();
 
-    const htmlContent = await this.extractHtmlContent(page);
+    for (const artifact of captures) {
+      await this.storageService.saveArtifact(
+        scanId,
+        artifact.name,
+        artifact.content,
+        artifact.contentType,
+      );
+    }
 
     // Use ParserService to get normalized content
     const jsonContent = await this.parserService.getNormalizedContent(
       htmlContent,
       requestDto.url,
+      {
+        scanId,
+        clientId: options.clientId,
+        onProgress,
+        onUsage,
+        checkBudget: options.checkBudget,
+        onEvent,
+        streamTokens: requestDto.streamTokens,
+        llmProvider: requestDto.llmProvider,
+        extractionMode: requestDto.extractionMode,
+        debug: requestDto.debug,
+        template: requestDto.template,
+        schema: requestDto.schema,
+        outputFormat: requestDto.outputFormat,
+        cache: cacheMode,
+        includeSelectors: requestDto.includeSelectors,
+        excludeSelectors: requestDto.excludeSelectors,
+        detectMainContent: requestDto.detectMainContent,
+        describeImages: requestDto.describeImages,
+        preloadedImages,
+        signal,
+      },
     );
-    this.logger.log('Web page content normalized');
-    await browser.close();
-    this.logger.log('Browser closed. Script complete.');
+    if (captures.length > 0) {
+      jsonContent.captures = captures.map(({ type, name, contentType }) => ({
+        type,
+        name,
+        contentType,
+        url: `/api/v1/scans/${scanId}/artifacts/${name}`,
+      }));
+    }
+    jsonContent.cache = { hit: false, ...jsonContent.cache };
+    // Results with failed chunks are partial, so they are not served again
+    if (cacheMode !== 'bypass' && !jsonContent.errors?.length) {
+      this.cacheService.setResult(cacheKey, { result: jsonContent, links });
+    }
+    onLinks?.(links);
+    this.logger.log('Web page content normalized. Script complete.');
 
     const end = performanceNow();
     const duration = (end - start).toFixed(2);
@@ -51,26 +245,33 @@ export class BrowserService {
   }
 
   /**
-   * Launches a Puppeteer browser instance with specified options.
-   * @param {RequestDto} requestDto - The request data transfer object containing proxy settings.
-   * @returns {Promise<any>} - A promise that resolves to the launched browser instance.
+   * Builds the result cache key of a scan from its URL, the options that change
+   * its result and the client it runs for. Credentials and proxy are part of
+   * the key, so authenticated results are only served to the same credentials;
+   * the key is a hash, so they are not kept in the cache.
+   * @param {RequestDto} requestDto - The request data transfer object.
+   * @param {string} [clientId] - The API client the scan runs for.
+   * @returns {string} - The cache key.
    */
-  private async launchBrowser(requestDto: RequestDto): Promise<any> {
-    this.logger.log('Launching browser...');
-    const args: string[] = [
-      '--window-size=1920,1080',
-      '--no-sandbox',
-      '--disable-dev-shm-usage',
-      '--disable-gpu',
-      '--ignore-certificate-errors',
-    ];
-
-    if (requestDto.proxy) {
-      this.logger.log(`Using proxy: ${requestDto.proxy}`);
-      args.push('--proxy-server=' + requestDto.proxy);
-    }
-    const options = { args, timeout: 60000 };
-    return await puppeteer.launch(options);
+  private createCacheKey(requestDto: RequestDto, clientId?: string): string {
+    return this.cacheService.createResultKey(requestDto.url, {
+      clientId,
+      proxy: requestDto.proxy,
+      username: requestDto.username,
+      password: requestDto.password,
+      actions: requestDto.actions,
+      capture: requestDto.capture,
+      llmProvider: requestDto.llmProvider,
+      extractionMode: requestDto.extractionMode,
+      debug: requestDto.debug,
+      template: requestDto.template,
+      schema: requestDto.schema,
+      outputFormat: requestDto.outputFormat,
+      includeSelectors: requestDto.includeSelectors,
+      excludeSelectors: requestDto.excludeSelectors,
+      detectMainContent: requestDto.detectMainContent,
+      describeImages: requestDto.describeImages,
+    });
   }
 
   /**
@@ -101,25 +302,86 @@ export class BrowserService {
     await page.setViewport({ width: 1920, height: 1080 });
   }
 
+  /**
+   * Aborts every request of the page, redirects and subresources included,
+   * whose URL the URL policy rejects. Verdicts are shared per origin.
+   * @param {any} page - The Puppeteer page instance.
+   * @returns {Promise<NavigationGuard>} - A promise that resolves to the guard state of the page.
+   */
+  private async enforceUrlPolicy(page: any): Promise<NavigationGuard> {
+    const guard: NavigationGuard = {};
+    const verdicts = new Map<string, Promise<string | null>>();
+    await page.setRequestInterception(true);
+    page.on('request', (request: any) => {
+      if (request.isInterceptResolutionHandled()) {
+        return;
+      }
+      request.enqueueInterceptAction(async () => {
+        const url = request.url();
+        if (LOCAL_URL_PATTERN.test(url)) {
+          return request.continue(request.continueRequestOverrides(), 0);
+        }
+        const parsed = URL.canParse(url) ? new URL(url) : null;
+        const origin = parsed ? `${parsed.protocol}//${parsed.host}` : url;
+        if (!verdicts.has(origin)) {
+          verdicts.set(
+            origin,
+            this.urlPolicyService.assertAllowed(url).then(
+              (): null => null,
+              (error) => error.message,
+            ),
+          );
+        }
+        const reason = await verdicts.get(origin);
+        if (!reason) {
+          return request.continue(request.continueRequestOverrides(), 0);
+        }
+        this.logger.warn(`Blocked request to ${url}: ${reason}`);
+        if (
+          request.isNavigationRequest() &&
+          request.frame() === page.mainFrame()
+        ) {
+          guard.blockedReason = reason;
+        }
+        return request.abort('blockedbyclient', 0);
+      });
+    });
+    return guard;
+  }
+
   /**
    * Navigates the Puppeteer page to the specified URL.
    * @param {any} page - The Puppeteer page instance.
    * @param {string} url - The URL to navigate to.
    */
-  private async navigateToUrl(page: any, url: string) {
+  private async navigateToUrl(page: any, url: string, guard: NavigationGuard) {
     this.logger.log(`Navigating to ${url}...`);
     try {
       await page.goto(url, {
         waitUntil: 'networkidle2',
-        timeout: 60000,
+        timeout: NAVIGATION_TIMEOUT_MS,
       });
     } catch (error) {
       this.logger.warn(`networkidle2 failed: ${error.message}`);
       this.logger.log('Falling back to waitUntil: load');
-      await page.goto(url, {
-        waitUntil: 'domcontentloaded',
-        timeout: 10000,
-      });
+      try {
+        await page.goto(url, {
+          waitUntil: 'domcontentloaded',
+          timeout: FALLBACK_NAVIGATION_TIMEOUT_MS,
+        });
+      } catch (fallbackError) {
+        if (guard.blockedReason) {
+          throw new BlockedUrlException(guard.blockedReason);
+        }
+        if (fallbackError.name === 'TimeoutError') {
+          throw new NavigationTimeoutException(
+            `Navigation to ${url} timed out after ${NAVIGATION_TIMEOUT_MS} ms`,
+          );
+        }
+        throw new NavigationFailedException(
+          `Navigation to ${url} failed: ${fallbackError.message}`,
+        );
+      }
     }
   }
 
@@ -132,4 +394,116 @@ export class BrowserService {
     this.logger.log('Extracting HTML content...');
     return await page.content();
   }
+
+  /**
+   * Extracts the absolute URLs of all links on the Puppeteer page.
+   * @param {any} page - The Puppeteer page instance.
+   * @returns {Promise<string[]>} - A promise that resolves to the link URLs.
+   */
+  private async extractLinks(page: any): Promise<string[]> {
+    return page.$$eval('a[href]', (anchors: any[]) =>
+      anchors.map((anchor) => anchor.href),
+    );
+  }
+
+  /**
+   * Keeps the latest response of the main frame's navigation, whose content
+   * type tells whether the page is an HTML document.
+   * @param {any} page - The Puppeteer page instance.
+   * @returns {{ response?: any }} - Holder of the latest navigation response.
+   */
+  private captureNavigationResponse(page: any): { response?: any } {
+    const navigation: { response?: any } = {};
+    page.on('response', (response: any) => {
+      const request = response.request();
+      if (
+        request.isNavigationRequest() &&
+        request.frame() === page.mainFrame() &&
+        (response.status() < 300 || response.status() >= 400)
+      ) {
+        navigation.response = response;
+      }
+    });
+    return navigation;
+  }
+
+  /**
+   * Reads the body of a navigation response that is not HTML, downloading it
+   * again when the browser did not keep it.
+   * @param {any} [response] - The navigation response.
+   * @returns {Promise<FetchedDocument | null>} - A promise that resolves to the document, or null for HTML pages.
+   */
+  private async readDocument(response?: any): Promise<FetchedDocument | null> {
+    const contentType = response?.headers()['content-type'];
+    if (
+      !response ||
+      this.documentConverterService.detectType({
+        content: Buffer.alloc(0),
+        contentType,
+      }) === 'html'
+    ) {
+      return null;
+    }
+    this.logger.log(`Received a ${contentType} document`);
+    try {
+      return { content: await response.buffer(), contentType };
+    } catch {
+      return this.documentConverterService.download(response.url());
+    }
+  }
+
+  /**
+   * Keeps the bodies of the images the page loads, within the image size and
+   * count limits, so they do not have to be downloaded a second time.
+   * @param {any} page - The Puppeteer page instance.
+   * @returns {Map<string, Promise<FetchedImage | null>>} - The pending image bodies by URL.
+   */
+  private captureImageResponses(
+    page: any,
+  ): Map<string, Promise<FetchedImage | null>> {
+    const { maxBytes, maxCount } = this.imageFetcherService;
+    const responses = new Map<string, Promise<FetchedImage | null>>();
+    page.on('response', (response: any) => {
+      const headers = response.headers();
+      if (
+        response.request().resourceType() !== 'image' ||
+        !response.ok() ||
+        responses.size >= maxCount ||
+        Number(headers['content-length']) > maxBytes
+      ) {
+        return;
+      }
+      responses.set(
+        response.url(),
+        response
+          .buffer()
+          .then((content: Buffer) =>
+            content.length <= maxBytes
+              ? { content, contentType: headers['content-type'] }
+              : null,
+          )
+          .catch((): null => null),
+      );
+    });
+    return responses;
+  }
+
+  /**
+   * Waits for the captured image bodies and drops those that could not be read.
+   * @param {Map<string, Promise<FetchedImage | null>>} responses - The pending image bodies by URL.
+   * @returns {Promise<Map<string, FetchedImage>>} - A promise that resolves to the captured images by URL.
+   */
+  private async collectImageResponses(
+    responses: Map<string, Promise<FetchedImage | null>>,
+  ): Promise<Map<string, FetchedImage>> {
+    const images = new Map<string, FetchedImage>();
+    for (const [url, pending] of responses) {
+      const image = await pending;
+      if (image) {
+        images.set(url, image);
+      }
+    }
+    this.logger.log(`Captured ${images.size} images from the browser`);
+    return images;
+  }
 }
@@ -0,0 +1,72 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import {
+  MAX_SCROLL_TIMES,
+  MAX_STEP_TIMEOUT_MS,
+  PAGE_ACTION_TYPES,
+  PageAction,
+  PageActionType,
+} from '../interfaces/page-action.interface';
+
+export class PageActionDto implements PageAction {
+  @ApiProperty({
+    description: 'The interaction to run',
+    enum: PAGE_ACTION_TYPES,
+  })
+  @IsIn(PAGE_ACTION_TYPES)
+  type: PageActionType;
+
+  @ApiProperty({
+    description:
+      'CSS selector of the target element (required for click, type, waitForSelector and select; optional focus target for press)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  selector?: string;
+
+  @ApiProperty({ description: 'Text to type (type)', required: false })
+  @IsOptional()
+  @IsString()
+  text?: string;
+
+  @ApiProperty({
+    description: 'Option value to select (select)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  value?: string;
+
+  @ApiProperty({
+    description: 'Key to press, e.g. "Enter" or "Escape" (press)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  key?: string;
+
+  @ApiProperty({
+    description:
+      'How many times to scroll to the bottom (scroll); the default timeout of the step grows by 500 ms per scroll',
+    required: false,
+    default: 1,
+    maximum: MAX_SCROLL_TIMES,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SCROLL_TIMES)
+  times?: number;
+
+  @ApiProperty({
+    description: 'Timeout of this step in milliseconds',
+    required: false,
+    maximum: MAX_STEP_TIMEOUT_MS,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_STEP_TIMEOUT_MS)
+  timeoutMs?: number;
+}
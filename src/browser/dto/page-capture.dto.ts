@@ -0,0 +1,71 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  PageCaptureOptions,
+  SCREENSHOT_FORMATS,
+  ScreenshotFormat,
+} from '../interfaces/page-capture.interface';
+
+export class PageCaptureDto implements PageCaptureOptions {
+  @ApiProperty({
+    description: 'Store a full-page screenshot of the rendered page',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  screenshot?: boolean;
+
+  @ApiProperty({
+    description: 'Image format of the screenshot',
+    enum: SCREENSHOT_FORMATS,
+    required: false,
+    default: 'png',
+  })
+  @IsOptional()
+  @IsIn(SCREENSHOT_FORMATS)
+  screenshotFormat?: ScreenshotFormat;
+
+  @ApiProperty({
+    description: 'JPEG quality from 0 to 100 (jpeg only)',
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  screenshotQuality?: number;
+
+  @ApiProperty({
+    description:
+      'CSS selector of the element to screenshot instead of the full page',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  screenshotSelector?: string;
+
+  @ApiProperty({
+    description: 'Store the rendered page printed as a PDF',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  pdf?: boolean;
+
+  @ApiProperty({
+    description:
+      'Store a HAR log of the network requests and responses made while loading the page',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  har?: boolean;
+}
@@ -1,15 +1,222 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { PageActionDto } from './page-action.dto';
+import { PageCaptureDto } from './page-capture.dto';
+import {
+  LLM_PROVIDER_NAMES,
+  LlmProviderName,
+} from '../../llm/providers/llm-provider.interface';
+import {
+  CACHE_MODES,
+  CacheMode,
+  EXTRACTION_MODES,
+  ExtractionMode,
+  OUTPUT_FORMATS,
+  OutputFormat,
+} from '../../parser/interfaces/parse-options.interface';
 
 export class RequestDto {
   @ApiProperty({ description: 'The URL to scan' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2048)
   url: string;
 
-  @ApiProperty({ description: 'Proxy server address', required: false })
+  @ApiProperty({
+    description:
+      'Proxy server address as [scheme://]host:port, with scheme http, https, socks4 or socks5',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2048)
   proxy?: string;
 
   @ApiProperty({ description: 'Username for authentication', required: false })
+  @IsOptional()
+  @IsString()
   username?: string;
 
   @ApiProperty({ description: 'Password for authentication', required: false })
+  @IsOptional()
+  @IsString()
   password?: string;
+
+  @ApiProperty({
+    description:
+      'Interactions (click, type, wait, scroll, select, press) run in order after the page has loaded and before its content is extracted',
+    type: [PageActionDto],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => PageActionDto)
+  actions?: PageActionDto[];
+
+  @ApiProperty({
+    description:
+      'Screenshot, PDF and HAR captures of the page, stored as scan artifacts and listed in the response',
+    type: PageCaptureDto,
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => PageCaptureDto)
+  capture?: PageCaptureDto;
+
+  @ApiProperty({
+    description:
+      'Run the scan as a background job and return a job ID immediately',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  async?: boolean;
+
+  @ApiProperty({
+    description: 'URL that receives the finished job via POST (async only)',
+    required: false,
+  })
+  @IsOptional()
+  @IsUrl({ require_tld: false, require_protocol: true })
+  callbackUrl?: string;
+
+  @ApiProperty({
+    description: 'LLM provider used to structure the content',
+    enum: LLM_PROVIDER_NAMES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(LLM_PROVIDER_NAMES)
+  llmProvider?: LlmProviderName;
+
+  @ApiProperty({
+    description:
+      'How the structured content is produced: "llm" asks the language model, "dom" builds it directly from the HTML',
+    enum: EXTRACTION_MODES,
+    required: false,
+    default: 'llm',
+  })
+  @IsOptional()
+  @IsIn(EXTRACTION_MODES)
+  extractionMode?: ExtractionMode;
+
+  @ApiProperty({
+    description: 'Include the raw per-chunk LLM output in the response',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  debug?: boolean;
+
+  @ApiProperty({
+    description:
+      'Name of a saved extraction template; defaults to the "sections" template',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  template?: string;
+
+  @ApiProperty({
+    description:
+      'Inline JSON Schema the extracted JSON must follow; takes precedence over "template"',
+    type: 'object',
+    additionalProperties: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  schema?: object;
+
+  @ApiProperty({
+    description:
+      'CSS selectors of the elements to extract; everything else is ignored',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  includeSelectors?: string[];
+
+  @ApiProperty({
+    description: 'CSS selectors of elements removed before extraction',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  excludeSelectors?: string[];
+
+  @ApiProperty({
+    description:
+      'Without include selectors, remove navigation, footers, cookie notices and sidebars and keep only the detected main content',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  detectMainContent?: boolean;
+
+  @ApiProperty({
+    description:
+      'Describe images with the vision model of the LLM provider instead of using their alt text or figure caption',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  describeImages?: boolean;
+
+  @ApiProperty({
+    description:
+      'Format of the result: the structured JSON document, Markdown, plain text or cleaned HTML',
+    enum: OUTPUT_FORMATS,
+    required: false,
+    default: 'json',
+  })
+  @IsOptional()
+  @IsIn(OUTPUT_FORMATS)
+  outputFormat?: OutputFormat;
+
+  @ApiProperty({
+    description:
+      'Cache usage: reuse cached results and chunk outputs, refresh them, or bypass the cache entirely',
+    enum: CACHE_MODES,
+    required: false,
+    default: 'use',
+  })
+  @IsOptional()
+  @IsIn(CACHE_MODES)
+  cache?: CacheMode;
+
+  @ApiProperty({
+    description:
+      'Stream the text the LLM generates for each chunk as `token` events (streaming endpoint only)',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  streamTokens?: boolean;
 }
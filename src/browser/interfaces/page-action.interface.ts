@@ -0,0 +1,33 @@
+/**
+ * Interactions that can run on a page between navigation and content extraction.
+ */
+export const PAGE_ACTION_TYPES = [
+  'click',
+  'type',
+  'waitForSelector',
+  'waitForNetworkIdle',
+  'scroll',
+  'select',
+  'press',
+] as const;
+
+export type PageActionType = (typeof PAGE_ACTION_TYPES)[number];
+
+/**
+ * Upper bounds that keep a step from holding a pooled page for too long.
+ */
+export const MAX_SCROLL_TIMES = 100;
+export const MAX_STEP_TIMEOUT_MS = 60000;
+
+/**
+ * A single declarative page interaction.
+ */
+export interface PageAction {
+  type: PageActionType;
+  selector?: string;
+  text?: string;
+  value?: string;
+  key?: string;
+  times?: number;
+  timeoutMs?: number;
+}
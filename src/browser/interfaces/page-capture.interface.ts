@@ -0,0 +1,66 @@
+export const SCREENSHOT_FORMATS = ['png', 'jpeg'] as const;
+export type ScreenshotFormat = (typeof SCREENSHOT_FORMATS)[number];
+
+/**
+ * What to record of a page, as seen after navigation and page actions.
+ */
+export interface PageCaptureOptions {
+  screenshot?: boolean;
+  screenshotFormat?: ScreenshotFormat;
+  screenshotQuality?: number;
+  screenshotSelector?: string;
+  pdf?: boolean;
+  har?: boolean;
+}
+
+/**
+ * A captured file, ready to be stored as a scan artifact.
+ */
+export interface CapturedArtifact {
+  type: 'screenshot' | 'pdf' | 'har';
+  name: string;
+  content: Buffer | string;
+  contentType: string;
+}
+
+/**
+ * A name/value pair of a HAR log, such as a header or query parameter.
+ */
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * One request/response exchange of a HAR 1.2 log.
+ */
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    cookies: HarNameValue[];
+    headersSize: number;
+    bodySize: number;
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    cookies: HarNameValue[];
+    content: { size: number; mimeType: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  _resourceType: string;
+  _error?: string;
+}
@@ -0,0 +1,20 @@
+import { ScanProgressListener } from '../../common/scan-progress';
+import { ScanEventListener } from '../../common/scan-events';
+import { LlmUsageListener } from '../../llm/providers/llm-provider.interface';
+
+/**
+ * Options of a single scan that do not come from the request body.
+ */
+export interface ScanOptions {
+  /** The API client the scan runs for; cached results are only shared within a client. */
+  clientId?: string;
+  onProgress?: ScanProgressListener;
+  /** Receives the absolute URLs of the links on the rendered page. */
+  onLinks?: (links: string[]) => void;
+  onUsage?: LlmUsageListener;
+  /** Throws once the client's LLM token budget is used; called before each LLM call. */
+  checkBudget?: () => void;
+  onEvent?: ScanEventListener;
+  /** Stops the scan between its phases once aborted, e.g. when a streaming client disconnected. */
+  signal?: AbortSignal;
+}
@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { PageActionsService } from './page-actions.service';
+
+describe('PageActionsService', () => {
+  let service: PageActionsService;
+  const page = {
+    waitForSelector: jest.fn(),
+    click: jest.fn(),
+    type: jest.fn(),
+    select: jest.fn(),
+    focus: jest.fn(),
+    evaluate: jest.fn(),
+    waitForNetworkIdle: jest.fn(),
+    keyboard: { press: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [PageActionsService],
+    }).compile();
+
+    service = module.get<PageActionsService>(PageActionsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should run the actions in order', async () => {
+    await service.run(page, [
+      { type: 'click', selector: '#accept-cookies' },
+      { type: 'type', selector: '#user', text: 'jane' },
+      { type: 'select', selector: '#lang', value: 'en' },
+      { type: 'press', key: 'Enter' },
+      { type: 'waitForNetworkIdle' },
+    ]);
+
+    expect(page.click).toHaveBeenCalledWith('#accept-cookies');
+    expect(page.type).toHaveBeenCalledWith('#user', 'jane');
+    expect(page.select).toHaveBeenCalledWith('#lang', 'en');
+    expect(page.keyboard.press).toHaveBeenCalledWith('Enter');
+    expect(page.waitForNetworkIdle).toHaveBeenCalledWith(
+      expect.objectContaining({ timeout: 10000 }),
+    );
+  });
+
+  it('should name the step that failed', async () => {
+    page.waitForSelector.mockRejectedValueOnce(new Error('Waiting failed'));
+
+    await expect(
+      service.run(page, [
+        { type: 'scroll', times: 1 },
+        { type: 'click', selector: '.load-more' },
+      ]),
+    ).rejects.toThrow(
+      new UnprocessableEntityException(
+        'Action 2 (click ".load-more") failed: Waiting failed',
+      ),
+    );
+  });
+
+  it('should enforce the step timeout', async () => {
+    page.waitForSelector.mockReturnValueOnce(new Promise(() => undefined));
+
+    await expect(
+      service.run(page, [
+        { type: 'waitForSelector', selector: '#tab', timeoutMs: 20 },
+      ]),
+    ).rejects.toThrow(
+      'Action 1 (waitForSelector "#tab") failed: timed out after 20 ms',
+    );
+  });
+
+  it('should stop a scroll once its step timed out', async () => {
+    jest.useFakeTimers();
+    try {
+      const run = service.run(page, [
+        { type: 'scroll', times: 10, timeoutMs: 1200 },
+      ]);
+      const assertion = expect(run).rejects.toThrow(
+        'Action 1 (scroll) failed: timed out after 1200 ms',
+      );
+      await jest.advanceTimersByTimeAsync(5000);
+      await assertion;
+
+      expect(page.evaluate).toHaveBeenCalledTimes(3);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should give long scrolls a longer default timeout', async () => {
+    jest.useFakeTimers();
+    try {
+      const run = service.run(page, [{ type: 'scroll', times: 40 }]);
+      await jest.advanceTimersByTimeAsync(40 * 500);
+      await expect(run).resolves.toBeUndefined();
+
+      expect(page.evaluate).toHaveBeenCalledTimes(40);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should reject incomplete actions', () => {
+    expect(() => service.validate([{ type: 'click' }])).toThrow(
+      new BadRequestException('Action 1 (click): selector is required'),
+    );
+    expect(() => service.validate([{ type: 'hover' } as any])).toThrow(
+      BadRequestException,
+    );
+    expect(() =>
+      service.validate([{ type: 'scroll', timeoutMs: 600000 }]),
+    ).toThrow(
+      new BadRequestException(
+        'Action 1 (scroll): timeoutMs must not be greater than 60000',
+      ),
+    );
+    expect(() => service.validate(undefined)).not.toThrow();
+  });
+});
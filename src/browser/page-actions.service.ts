@@ -0,0 +1,212 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import {
+  MAX_SCROLL_TIMES,
+  MAX_STEP_TIMEOUT_MS,
+  PAGE_ACTION_TYPES,
+  PageAction,
+} from './interfaces/page-action.interface';
+
+const DEFAULT_STEP_TIMEOUT_MS = 10000;
+const SCROLL_SETTLE_MS = 500;
+const NETWORK_IDLE_TIME_MS = 500;
+const SELECTOR_ACTIONS = ['click', 'type', 'waitForSelector', 'select'];
+
+/**
+ * Runs declarative interactions (clicks, typing, scrolling, waiting) on a page
+ * so content behind banners, buttons, tabs or forms is rendered before extraction.
+ */
+@Injectable()
+export class PageActionsService {
+  private readonly logger = new Logger(PageActionsService.name);
+  private readonly defaultTimeoutMs: number;
+
+  /**
+   * Initializes the runner with the default step timeout from the environment.
+   */
+  constructor() {
+    this.defaultTimeoutMs =
+      Number(process.env['PAGE_ACTION_TIMEOUT_MS']) || DEFAULT_STEP_TIMEOUT_MS;
+  }
+
+  /**
+   * Checks that every action is complete before a browser page is acquired.
+   * @param {PageAction[]} [actions] - The actions to check.
+   */
+  validate(actions?: PageAction[]) {
+    if (actions === undefined) {
+      return;
+    }
+    if (!Array.isArray(actions)) {
+      throw new BadRequestException('actions must be an array');
+    }
+    actions.forEach((action, index) => {
+      const step = this.describe(action, index);
+      if (!PAGE_ACTION_TYPES.includes(action?.type)) {
+        throw new BadRequestException(
+          `${step}: type must be one of ${PAGE_ACTION_TYPES.join(', ')}`,
+        );
+      }
+      if (SELECTOR_ACTIONS.includes(action.type) && !action.selector) {
+        throw new BadRequestException(`${step}: selector is required`);
+      }
+      if (action.type === 'type' && typeof action.text !== 'string') {
+        throw new BadRequestException(`${step}: text is required`);
+      }
+      if (action.type === 'select' && typeof action.value !== 'string') {
+        throw new BadRequestException(`${step}: value is required`);
+      }
+      if (action.type === 'press' && !action.key) {
+        throw new BadRequestException(`${step}: key is required`);
+      }
+      if (action.times > MAX_SCROLL_TIMES) {
+        throw new BadRequestException(
+          `${step}: times must not be greater than ${MAX_SCROLL_TIMES}`,
+        );
+      }
+      if (action.timeoutMs > MAX_STEP_TIMEOUT_MS) {
+        throw new BadRequestException(
+          `${step}: timeoutMs must not be greater than ${MAX_STEP_TIMEOUT_MS}`,
+        );
+      }
+    });
+  }
+
+  /**
+   * Runs the actions in order. Each step has its own timeout and is stopped
+   * once it times out, so it does not keep using a page that is being released.
+   * @param {any} page - The Puppeteer page instance.
+   * @param {PageAction[]} actions - The actions to run.
+   * @returns {Promise<void>} - A promise that resolves when all actions have run.
+   */
+  async run(page: any, actions: PageAction[]): Promise<void> {
+    for (const [index, action] of actions.entries()) {
+      const step = this.describe(action, index);
+      const timeoutMs = this.getTimeout(action);
+      this.logger.log(`Running ${step}`);
+      const controller = new AbortController();
+      try {
+        await this.withTimeout(
+          this.runAction(page, action, timeoutMs, controller.signal),
+          timeoutMs,
+          controller,
+        );
+      } catch (error) {
+        throw new UnprocessableEntityException(
+          `${step} failed: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Returns the timeout of a step. Scrolling waits for the page to settle after
+   * every scroll, so its default timeout grows with the number of scrolls.
+   * @param {PageAction} action - The action.
+   * @returns {number} - The timeout in milliseconds.
+   */
+  private getTimeout(action: PageAction): number {
+    if (action.timeoutMs) {
+      return action.timeoutMs;
+    }
+    if (action.type === 'scroll') {
+      return this.defaultTimeoutMs + (action.times || 1) * SCROLL_SETTLE_MS;
+    }
+    return this.defaultTimeoutMs;
+  }
+
+  /**
+   * Performs a single action on the page.
+   * @param {any} page - The Puppeteer page instance.
+   * @param {PageAction} action - The action to perform.
+   * @param {number} timeoutMs - The timeout of the step.
+   * @param {AbortSignal} signal - Aborted when the step timed out.
+   * @returns {Promise<void>} - A promise that resolves when the action is done.
+   */
+  private async runAction(
+    page: any,
+    action: PageAction,
+    timeoutMs: number,
+    signal: AbortSignal,
+  ): Promise<void> {
+    switch (action.type) {
+      case 'click':
+        await page.waitForSelector(action.selector, {
+          visible: true,
+          timeout: timeoutMs,
+        });
+        await page.click(action.selector);
+        break;
+      case 'type':
+        await page.waitForSelector(action.selector, { timeout: timeoutMs });
+        await page.type(action.selector, action.text);
+        break;
+      case 'waitForSelector':
+        await page.waitForSelector(action.selector, { timeout: timeoutMs });
+        break;
+      case 'waitForNetworkIdle':
+        await page.waitForNetworkIdle({
+          idleTime: NETWORK_IDLE_TIME_MS,
+          timeout: timeoutMs,
+        });
+        break;
+      case 'scroll':
+        for (let i = 0; i < (action.times || 1) && !signal.aborted; i++) {
+          await page.evaluate('window.scrollTo(0, document.body.scrollHeight)');
+          await new Promise((resolve) => setTimeout(resolve, SCROLL_SETTLE_MS));
+        }
+        break;
+      case 'select':
+        await page.waitForSelector(action.selector, { timeout: timeoutMs });
+        await page.select(action.selector, action.value);
+        break;
+      case 'press':
+        if (action.selector) {
+          await page.focus(action.selector);
+        }
+        await page.keyboard.press(action.key);
+        break;
+    }
+  }
+
+  /**
+   * Rejects when a step does not finish within its timeout, aborting the step.
+   * @param {Promise<void>} step - The running step.
+   * @param {number} timeoutMs - The timeout in milliseconds.
+   * @param {AbortController} controller - Aborts the step when it times out.
+   * @returns {Promise<void>} - A promise that settles with the step or the timeout.
+   */
+  private async withTimeout(
+    step: Promise<void>,
+    timeoutMs: number,
+    controller: AbortController,
+  ): Promise<void> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<void>((resolve, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new Error(`timed out after ${timeoutMs} ms`));
+      }, timeoutMs);
+    });
+    try {
+      await Promise.race([step, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Describes an action for logs and error messages, e.g. `Action 2 (click "#more")`.
+   * @param {PageAction} action - The action.
+   * @param {number} index - The position of the action in the list.
+   * @returns {string} - The description.
+   */
+  private describe(action: PageAction, index: number): string {
+    const target = action?.selector ?? action?.key;
+    return `Action ${index + 1} (${action?.type}${target ? ` "${target}"` : ''})`;
+  }
+}
@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { PageCaptureService } from './page-capture.service';
+
+describe('PageCaptureService', () => {
+  let service: PageCaptureService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [PageCaptureService],
+    }).compile();
+
+    service = module.get<PageCaptureService>(PageCaptureService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should reject invalid screenshot options', () => {
+    expect(() =>
+      service.validate({ screenshot: true, screenshotFormat: 'gif' as any }),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      service.validate({ screenshot: true, screenshotQuality: 80 }),
+    ).toThrow('capture.screenshotQuality is only supported for jpeg');
+    expect(() =>
+      service.validate({ screenshotFormat: 'jpeg', screenshotQuality: 101 }),
+    ).toThrow(BadRequestException);
+    expect(() =>
+      service.validate({ screenshotFormat: 'jpeg', screenshotQuality: 60 }),
+    ).not.toThrow();
+  });
+
+  it('should screenshot the element matching the selector', async () => {
+    const element = {
+      screenshot: jest.fn().mockResolvedValue(Buffer.from('jpg')),
+    };
+    const page = { $: jest.fn().mockResolvedValue(element) };
+
+    const [artifact] = await service.capture(page, {
+      screenshot: true,
+      screenshotFormat: 'jpeg',
+      screenshotSelector: '#chart',
+    });
+
+    expect(page.$).toHaveBeenCalledWith('#chart');
+    expect(element.screenshot).toHaveBeenCalledWith({
+      type: 'jpeg',
+      quality: 80,
+    });
+    expect(artifact).toEqual({
+      type: 'screenshot',
+      name: 'screenshot.jpg',
+      content: Buffer.from('jpg'),
+      contentType: 'image/jpeg',
+    });
+  });
+
+  it('should fail when the screenshot selector matches nothing', async () => {
+    const page = { $: jest.fn().mockResolvedValue(null) };
+
+    await expect(
+      service.capture(page, { screenshot: true, screenshotSelector: '#none' }),
+    ).rejects.toBeInstanceOf(UnprocessableEntityException);
+  });
+
+  it('should print the page as PDF', async () => {
+    const page = { pdf: jest.fn().mockResolvedValue(Buffer.from('%PDF')) };
+
+    const [artifact] = await service.capture(page, { pdf: true });
+
+    expect(page.pdf).toHaveBeenCalledWith({
+      format: 'A4',
+      printBackground: true,
+    });
+    expect(artifact.name).toBe('page.pdf');
+    expect(artifact.contentType).toBe('application/pdf');
+  });
+
+  it('should log network exchanges as HAR with credentials redacted', async () => {
+    const listeners: Record<string, (value: any) => void> = {};
+    const page = {
+      on: (event: string, listener: (value: any) => void) => {
+        listeners[event] = listener;
+      },
+      url: () => 'https://example.com/',
+    };
+    const request = (url: string) => ({
+      url: () => url,
+      method: () => 'GET',
+      headers: () => ({ accept: '*/*', authorization: 'Basic secret' }),
+      postData: (): string => undefined,
+      resourceType: () => 'document',
+      failure: () => ({ errorText: 'net::ERR_FAILED' }),
+    });
+    const page1 = request('https://example.com/?q=1');
+    const asset = request('https://example.com/app.js');
+
+    const log = service.recordNetwork(page);
+    listeners.request(page1);
+    listeners.request(asset);
+    listeners.response({
+      request: () => page1,
+      status: () => 200,
+      statusText: () => 'OK',
+      headers: () => ({ 'content-type': 'text/html', 'set-cookie': 'a=b' }),
+    });
+    listeners.requestfinished(page1);
+    listeners.requestfailed(asset);
+
+    const [artifact] = await service.capture(page, { har: true }, log);
+    const har = JSON.parse(artifact.content as string);
+
+    expect(artifact.name).toBe('network.har');
+    expect(har.log.version).toBe('1.2');
+    const [first, second] = har.log.entries;
+    expect(first.request.queryString).toEqual([{ name: 'q', value: '1' }]);
+    expect(first.request.headers).toContainEqual({
+      name: 'authorization',
+      value: '[redacted]',
+    });
+    expect(first.response.status).toBe(200);
+    expect(first.response.headers).toContainEqual({
+      name: 'set-cookie',
+      value: '[redacted]',
+    });
+    expect(first.time).toBeGreaterThanOrEqual(0);
+    expect(second.response.status).toBe(0);
+    expect(second._error).toBe('net::ERR_FAILED');
+  });
+});
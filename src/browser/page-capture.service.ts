@@ -0,0 +1,309 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import {
+  CapturedArtifact,
+  HarEntry,
+  HarNameValue,
+  PageCaptureOptions,
+  SCREENSHOT_FORMATS,
+} from './interfaces/page-capture.interface';
+
+const REDACTED_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+];
+const REDACTED_VALUE = '[redacted]';
+
+/**
+ * Network exchanges recorded while a page loads.
+ */
+export interface NetworkLog {
+  startedAt: Date;
+  entries: HarEntry[];
+}
+
+/**
+ * Captures what the service saw of a page for audit trails: a screenshot of
+ * the page or of one element, the page printed as a PDF and a HAR log of its
+ * network traffic.
+ */
+@Injectable()
+export class PageCaptureService {
+  private readonly logger = new Logger(PageCaptureService.name);
+
+  /**
+   * Checks the capture options before a browser page is acquired.
+   * @param {PageCaptureOptions} [options] - The capture options to check.
+   */
+  validate(options?: PageCaptureOptions) {
+    if (options === undefined) {
+      return;
+    }
+    if (typeof options !== 'object' || options === null) {
+      throw new BadRequestException('capture must be an object');
+    }
+    const format = options.screenshotFormat;
+    if (format !== undefined && !SCREENSHOT_FORMATS.includes(format)) {
+      throw new BadRequestException(
+        `capture.screenshotFormat must be one of ${SCREENSHOT_FORMATS.join(', ')}`,
+      );
+    }
+    const quality = options.screenshotQuality;
+    if (quality !== undefined) {
+      if (format !== 'jpeg') {
+        throw new BadRequestException(
+          'capture.screenshotQuality is only supported for jpeg screenshots',
+        );
+      }
+      if (!Number.isInteger(quality) || quality < 0 || quality > 100) {
+        throw new BadRequestException(
+          'capture.screenshotQuality must be an integer from 0 to 100',
+        );
+      }
+    }
+  }
+
+  /**
+   * Tells whether the options ask for any capture.
+   * @param {PageCaptureOptions} [options] - The capture options.
+   * @returns {boolean} - True if a screenshot, PDF or HAR log is requested.
+   */
+  isRequested(options?: PageCaptureOptions): boolean {
+    return !!(options?.screenshot || options?.pdf || options?.har);
+  }
+
+  /**
+   * Starts recording the network traffic of a page. Must be called before navigation.
+   * @param {any} page - The Puppeteer page instance.
+   * @returns {NetworkLog} - The log, filled in as the page loads.
+   */
+  recordNetwork(page: any): NetworkLog {
+    const log: NetworkLog = { startedAt: new Date(), entries: [] };
+    const pending = new Map<any, { entry: HarEntry; start: number }>();
+    const finish = (request: any, error?: string) => {
+      const exchange = pending.get(request);
+      if (!exchange) {
+        return;
+      }
+      pending.delete(request);
+      exchange.entry.time = Date.now() - exchange.start;
+      exchange.entry.timings.wait = exchange.entry.time;
+      if (error) {
+        exchange.entry._error = error;
+      }
+    };
+
+    page.on('request', (request: any) => {
+      const entry = this.createEntry(request);
+      log.entries.push(entry);
+      pending.set(request, { entry, start: Date.now() });
+    });
+    page.on('response', (response: any) => {
+      const exchange = pending.get(response.request());
+      if (exchange) {
+        exchange.entry.response = this.describeResponse(response);
+      }
+    });
+    page.on('requestfinished', (request: any) => finish(request));
+    page.on('requestfailed', (request: any) =>
+      finish(request, request.failure()?.errorText ?? 'Request failed'),
+    );
+    return log;
+  }
+
+  /**
+   * Captures the requested screenshot, PDF and HAR log of the page in its current state.
+   * @param {any} page - The Puppeteer page instance.
+   * @param {PageCaptureOptions} options - The capture options.
+   * @param {NetworkLog} [networkLog] - The network log of the page, for the HAR capture.
+   * @returns {Promise<CapturedArtifact[]>} - A promise that resolves to the captured files.
+   */
+  async capture(
+    page: any,
+    options: PageCaptureOptions,
+    networkLog?: NetworkLog,
+  ): Promise<CapturedArtifact[]> {
+    const artifacts: CapturedArtifact[] = [];
+    if (options.screenshot) {
+      artifacts.push(await this.captureScreenshot(page, options));
+    }
+    if (options.pdf) {
+      this.logger.log('Printing the page as PDF');
+      artifacts.push({
+        type: 'pdf',
+        name: 'page.pdf',
+        content: Buffer.from(
+          await page.pdf({ format: 'A4', printBackground: true }),
+        ),
+        contentType: 'application/pdf',
+      });
+    }
+    if (options.har && networkLog) {
+      artifacts.push({
+        type: 'har',
+        name: 'network.har',
+        content: JSON.stringify(this.toHar(page.url(), networkLog), null, 2),
+        contentType: 'application/json',
+      });
+    }
+    return artifacts;
+  }
+
+  /**
+   * Takes a screenshot of the full page or of the element matching the selector.
+   * @param {any} page - The Puppeteer page instance.
+   * @param {PageCaptureOptions} options - The capture options.
+   * @returns {Promise<CapturedArtifact>} - A promise that resolves to the screenshot.
+   */
+  private async captureScreenshot(
+    page: any,
+    options: PageCaptureOptions,
+  ): Promise<CapturedArtifact> {
+    const format = options.screenshotFormat ?? 'png';
+    const screenshotOptions = {
+      type: format,
+      ...(format === 'jpeg' && { quality: options.screenshotQuality ?? 80 }),
+    };
+    let content: Uint8Array;
+    if (options.screenshotSelector) {
+      this.logger.log(`Taking a screenshot of ${options.screenshotSelector}`);
+      const element = await page.$(options.screenshotSelector);
+      if (!element) {
+        throw new UnprocessableEntityException(
+          `Screenshot selector "${options.screenshotSelector}" matched no element`,
+        );
+      }
+      content = await element.screenshot(screenshotOptions);
+    } else {
+      this.logger.log('Taking a full-page screenshot');
+      content = await page.screenshot({ ...screenshotOptions, fullPage: true });
+    }
+    return {
+      type: 'screenshot',
+      name: `screenshot.${format === 'jpeg' ? 'jpg' : 'png'}`,
+      content: Buffer.from(content),
+      contentType: `image/${format}`,
+    };
+  }
+
+  /**
+   * Builds a HAR 1.2 document from a network log.
+   * @param {string} pageUrl - The URL of the page.
+   * @param {NetworkLog} networkLog - The network log.
+   * @returns {object} - The HAR document.
+   */
+  private toHar(pageUrl: string, networkLog: NetworkLog): object {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'html-parsing-service', version: '1.0' },
+        pages: [
+          {
+            startedDateTime: networkLog.startedAt.toISOString(),
+            id: 'page_1',
+            title: pageUrl,
+            pageTimings: {},
+          },
+        ],
+        entries: networkLog.entries.map((entry) => ({
+          pageref: 'page_1',
+          ...entry,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Creates the HAR entry of a request, before its response is known.
+   * @param {any} request - The Puppeteer request.
+   * @returns {HarEntry} - The HAR entry.
+   */
+  private createEntry(request: any): HarEntry {
+    const url = request.url();
+    const postData = request.postData();
+    const headers = request.headers();
+    return {
+      startedDateTime: new Date().toISOString(),
+      time: -1,
+      request: {
+        method: request.method(),
+        url,
+        httpVersion: 'HTTP/1.1',
+        headers: this.toNameValues(headers),
+        queryString: URL.canParse(url)
+          ? [...new URL(url).searchParams].map(([name, value]) => ({
+              name,
+              value,
+            }))
+          : [],
+        cookies: [],
+        headersSize: -1,
+        bodySize: postData ? Buffer.byteLength(postData) : 0,
+        ...(postData && {
+          postData: {
+            mimeType: headers['content-type'] ?? '',
+            text: postData,
+          },
+        }),
+      },
+      response: {
+        status: 0,
+        statusText: '',
+        httpVersion: 'HTTP/1.1',
+        headers: [],
+        cookies: [],
+        content: { size: -1, mimeType: '' },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: -1,
+      },
+      cache: {},
+      timings: { send: 0, wait: -1, receive: 0 },
+      _resourceType: request.resourceType(),
+    };
+  }
+
+  /**
+   * Describes a response for its HAR entry.
+   * @param {any} response - The Puppeteer response.
+   * @returns {HarEntry['response']} - The HAR response.
+   */
+  private describeResponse(response: any): HarEntry['response'] {
+    const headers = response.headers();
+    const size = Number(headers['content-length']);
+    return {
+      status: response.status(),
+      statusText: response.statusText(),
+      httpVersion: 'HTTP/1.1',
+      headers: this.toNameValues(headers),
+      cookies: [],
+      content: {
+        size: Number.isFinite(size) ? size : -1,
+        mimeType: headers['content-type'] ?? '',
+      },
+      redirectURL: headers['location'] ?? '',
+      headersSize: -1,
+      bodySize: Number.isFinite(size) ? size : -1,
+    };
+  }
+
+  /**
+   * Converts headers to HAR name/value pairs, redacting credentials and cookies.
+   * @param {Record<string, string>} headers - The headers.
+   * @returns {HarNameValue[]} - The name/value pairs.
+   */
+  private toNameValues(headers: Record<string, string>): HarNameValue[] {
+    return Object.entries(headers ?? {}).map(([name, value]) => ({
+      name,
+      value: REDACTED_HEADERS.includes(name.toLowerCase())
+        ? REDACTED_VALUE
+        : value,
+    }));
+  }
+}
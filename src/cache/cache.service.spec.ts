@@ -0,0 +1,81 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CacheService } from './cache.service';
+
+describe('CacheService', () => {
+  let service: CacheService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CacheService],
+    }).compile();
+
+    service = module.get<CacheService>(CacheService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete process.env['CACHE_MAX_ENTRIES'];
+    delete process.env['RESULT_CACHE_TTL_MS'];
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should share result keys between equivalent URLs', () => {
+    const options = { outputFormat: 'json' };
+
+    expect(
+      service.createResultKey('https://Example.com/page?b=2&a=1#top', options),
+    ).toBe(
+      service.createResultKey('https://example.com/page?a=1&b=2', options),
+    );
+    expect(
+      service.createResultKey('https://example.com/page', options),
+    ).not.toBe(
+      service.createResultKey('https://example.com/page', {
+        outputFormat: 'markdown',
+      }),
+    );
+  });
+
+  it('should return copies of cached values', () => {
+    service.setChunk('key', { title: 'A', sections: [] });
+
+    const cached = service.getChunk('key');
+    cached.title = 'B';
+
+    expect(service.getChunk('key')).toEqual({ title: 'A', sections: [] });
+    expect(service.getChunk('missing')).toBeUndefined();
+  });
+
+  it('should expire entries after their TTL', () => {
+    jest.useFakeTimers();
+    service.setResult('key', { title: 'A' });
+
+    jest.advanceTimersByTime(15 * 60 * 1000);
+
+    expect(service.getResult('key')).toBeUndefined();
+  });
+
+  it('should evict the oldest entries when full', async () => {
+    process.env['CACHE_MAX_ENTRIES'] = '2';
+    const small = new CacheService();
+
+    small.setResult('a', 1);
+    small.setResult('b', 2);
+    small.setResult('c', 3);
+
+    expect(small.getResult('a')).toBeUndefined();
+    expect(small.getResult('c')).toBe(3);
+  });
+
+  it('should not cache when the TTL is 0', () => {
+    process.env['RESULT_CACHE_TTL_MS'] = '0';
+    const disabled = new CacheService();
+
+    disabled.setResult('key', { title: 'A' });
+
+    expect(disabled.getResult('key')).toBeUndefined();
+  });
+});
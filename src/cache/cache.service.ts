@@ -0,0 +1,166 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+
+const DEFAULT_RESULT_TTL_MS = 15 * 60 * 1000;
+const DEFAULT_CHUNK_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 1000;
+
+interface CacheEntry {
+  value: any;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cache for finished scan results and per-chunk LLM outputs.
+ * Entries expire after their TTL; the oldest entries are evicted first once
+ * a cache reaches its size limit.
+ */
+@Injectable()
+export class CacheService {
+  private readonly logger = new Logger(CacheService.name);
+  private readonly results = new Map<string, CacheEntry>();
+  private readonly chunks = new Map<string, CacheEntry>();
+  private readonly resultTtlMs: number;
+  private readonly chunkTtlMs: number;
+  private readonly maxEntries: number;
+
+  /**
+   * Initializes the cache with the TTL and size settings from the environment.
+   */
+  constructor() {
+    this.resultTtlMs = this.readDuration(
+      'RESULT_CACHE_TTL_MS',
+      DEFAULT_RESULT_TTL_MS,
+    );
+    this.chunkTtlMs = this.readDuration(
+      'CHUNK_CACHE_TTL_MS',
+      DEFAULT_CHUNK_TTL_MS,
+    );
+    this.maxEntries =
+      Number(process.env['CACHE_MAX_ENTRIES']) || DEFAULT_MAX_ENTRIES;
+  }
+
+  /**
+   * Builds the result cache key from the normalized URL and the options that affect the result.
+   * @param {string} url - The scanned URL.
+   * @param {object} options - The options that change the result.
+   * @returns {string} - The cache key.
+   */
+  createResultKey(url: string, options: object): string {
+    return this.hash(`${this.normalizeUrl(url)}\n${JSON.stringify(options)}`);
+  }
+
+  /**
+   * Looks up a cached scan result.
+   * @param {string} key - The result cache key.
+   * @returns {any | undefined} - A copy of the cached result, or undefined on a miss.
+   */
+  getResult(key: string): any | undefined {
+    return this.read(this.results, key);
+  }
+
+  /**
+   * Caches a scan result.
+   * @param {string} key - The result cache key.
+   * @param {any} value - The result to cache.
+   */
+  setResult(key: string, value: any) {
+    this.write(this.results, key, value, this.resultTtlMs);
+  }
+
+  /**
+   * Looks up the cached LLM output of a chunk.
+   * @param {string} key - The chunk cache key.
+   * @returns {any | undefined} - A copy of the cached output, or undefined on a miss.
+   */
+  getChunk(key: string): any | undefined {
+    return this.read(this.chunks, key);
+  }
+
+  /**
+   * Caches the validated LLM output of a chunk.
+   * @param {string} key - The chunk cache key.
+   * @param {any} value - The output to cache.
+   */
+  setChunk(key: string, value: any) {
+    this.write(this.chunks, key, value, this.chunkTtlMs);
+  }
+
+  /**
+   * Normalizes a URL so equivalent spellings share a cache entry:
+   * the fragment is dropped and query parameters are sorted.
+   * @param {string} url - The URL to normalize.
+   * @returns {string} - The normalized URL.
+   */
+  normalizeUrl(url: string): string {
+    const normalized = new URL(url);
+    normalized.hash = '';
+    normalized.searchParams.sort();
+    return normalized.href;
+  }
+
+  /**
+   * Reads an entry, dropping it when it has expired.
+   * @param {Map<string, CacheEntry>} cache - The cache to read from.
+   * @param {string} key - The cache key.
+   * @returns {any | undefined} - A copy of the cached value, or undefined on a miss.
+   */
+  private read(cache: Map<string, CacheEntry>, key: string): any | undefined {
+    const entry = cache.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      cache.delete(key);
+      return undefined;
+    }
+    return structuredClone(entry.value);
+  }
+
+  /**
+   * Writes an entry, evicting the oldest entries when the cache is full.
+   * @param {Map<string, CacheEntry>} cache - The cache to write to.
+   * @param {string} key - The cache key.
+   * @param {any} value - The value to cache.
+   * @param {number} ttlMs - How long the entry stays valid; 0 disables caching.
+   */
+  private write(
+    cache: Map<string, CacheEntry>,
+    key: string,
+    value: any,
+    ttlMs: number,
+  ) {
+    if (ttlMs <= 0) {
+      return;
+    }
+    cache.delete(key);
+    while (cache.size >= this.maxEntries) {
+      cache.delete(cache.keys().next().value);
+    }
+    cache.set(key, {
+      value: structuredClone(value),
+      expiresAt: Date.now() + ttlMs,
+    });
+    this.logger.debug(`Cached entry ${key} (${cache.size} entries)`);
+  }
+
+  /**
+   * Reads a duration from the environment, where 0 is a valid value.
+   * @param {string} name - The environment variable.
+   * @param {number} defaultValue - The value used when the variable is unset or invalid.
+   * @returns {number} - The duration in milliseconds.
+   */
+  private readDuration(name: string, defaultValue: number): number {
+    const value = Number(process.env[name] ?? defaultValue);
+    return Number.isFinite(value) ? value : defaultValue;
+  }
+
+  /**
+   * Calculates the SHA-256 hash of the given content.
+   * @param {string} content - The content to hash.
+   * @returns {string} - The calculated hash.
+   */
+  private hash(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+}
@@ -0,0 +1,94 @@
+import { NotFoundException } from '@nestjs/common';
+import { ApiExceptionFilter } from './api-exception.filter';
+import {
+  BlockedUrlException,
+  QuotaExceededException,
+  ValidationFailedException,
+} from './api-exceptions';
+
+describe('ApiExceptionFilter', () => {
+  const filter = new ApiExceptionFilter();
+  const response = {
+    headersSent: false,
+    status: jest.fn().mockReturnThis(),
+    setHeader: jest.fn(),
+    json: jest.fn(),
+  };
+  const host = {
+    switchToHttp: () => ({
+      getRequest: () => ({ method: 'POST', url: '/api/v1/browser/scan' }),
+      getResponse: () => response,
+    }),
+  } as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(filter).toBeDefined();
+  });
+
+  it('should answer with the code of typed exceptions', () => {
+    filter.catch(new BlockedUrlException('Scheme "file" is not allowed'), host);
+
+    expect(response.status).toHaveBeenCalledWith(403);
+    expect(response.json).toHaveBeenCalledWith({
+      statusCode: 403,
+      code: 'BLOCKED_URL',
+      message: 'Scheme "file" is not allowed',
+      path: '/api/v1/browser/scan',
+      timestamp: expect.any(String),
+    });
+  });
+
+  it('should include validation details', () => {
+    const details = [{ field: 'url', messages: ['url must be a string'] }];
+
+    filter.catch(new ValidationFailedException(details), host);
+
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'VALIDATION_FAILED', details }),
+    );
+  });
+
+  it('should send a Retry-After header with quota errors', () => {
+    filter.catch(
+      new QuotaExceededException('RATE_LIMITED', 'Too many requests', 12),
+      host,
+    );
+
+    expect(response.status).toHaveBeenCalledWith(429);
+    expect(response.setHeader).toHaveBeenCalledWith('Retry-After', '12');
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: 'RATE_LIMITED',
+        details: { retryAfterSeconds: 12 },
+      }),
+    );
+  });
+
+  it('should derive codes of plain HTTP exceptions from their status', () => {
+    filter.catch(new NotFoundException('Job 1 not found'), host);
+
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        statusCode: 404,
+        code: 'NOT_FOUND',
+        message: 'Job 1 not found',
+      }),
+    );
+  });
+
+  it('should hide the message of unexpected errors', () => {
+    filter.catch(new TypeError('x is undefined'), host);
+
+    expect(response.status).toHaveBeenCalledWith(500);
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: 'INTERNAL_ERROR',
+        message: 'Internal server error',
+      }),
+    );
+  });
+});
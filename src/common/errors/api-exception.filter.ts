@@ -0,0 +1,42 @@
+import { ArgumentsHost, Catch, ExceptionFilter, Logger } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { toErrorResponse } from './error-response';
+import { QuotaExceededException } from './api-exceptions';
+
+/**
+ * Turns every exception into a JSON error response with a stable `code`.
+ * Quota errors also carry a `Retry-After` header.
+ */
+@Catch()
+export class ApiExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ApiExceptionFilter.name);
+
+  /**
+   * Writes the error response of an exception.
+   * @param {unknown} exception - The thrown value.
+   * @param {ArgumentsHost} host - The execution context.
+   */
+  catch(exception: unknown, host: ArgumentsHost) {
+    const context = host.switchToHttp();
+    const request = context.getRequest<Request>();
+    const response = context.getResponse<Response>();
+    const error = toErrorResponse(exception);
+    if (error.statusCode >= 500) {
+      this.logger.error(
+        `${request.method} ${request.url} failed: ${(exception as Error)?.message}`,
+        (exception as Error)?.stack,
+      );
+    }
+    if (response.headersSent) {
+      return;
+    }
+    if (exception instanceof QuotaExceededException) {
+      response.setHeader('Retry-After', String(exception.retryAfterSeconds));
+    }
+    response.status(error.statusCode).json({
+      ...error,
+      path: request.url,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
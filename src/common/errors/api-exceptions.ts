@@ -0,0 +1,100 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ErrorCode } from './error-codes';
+
+/**
+ * An HTTP exception with a stable error code and optional details.
+ */
+export class ApiException extends HttpException {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    status: HttpStatus,
+    readonly details?: unknown,
+  ) {
+    super(message, status);
+  }
+}
+
+/**
+ * The request body or parameters failed validation.
+ */
+export class ValidationFailedException extends ApiException {
+  constructor(details: unknown) {
+    super(
+      'VALIDATION_FAILED',
+      'Request validation failed',
+      HttpStatus.BAD_REQUEST,
+      details,
+    );
+  }
+}
+
+/**
+ * A URL is malformed or its host cannot be resolved.
+ */
+export class InvalidUrlException extends ApiException {
+  constructor(message: string) {
+    super('INVALID_URL', message, HttpStatus.BAD_REQUEST);
+  }
+}
+
+/**
+ * A URL is rejected by the URL policy (scheme, host lists or private address).
+ */
+export class BlockedUrlException extends ApiException {
+  constructor(message: string) {
+    super('BLOCKED_URL', message, HttpStatus.FORBIDDEN);
+  }
+}
+
+/**
+ * The page did not load within the navigation timeout.
+ */
+export class NavigationTimeoutException extends ApiException {
+  constructor(message: string) {
+    super('NAVIGATION_TIMEOUT', message, HttpStatus.GATEWAY_TIMEOUT);
+  }
+}
+
+/**
+ * The page could not be loaded, e.g. because of a DNS or connection error.
+ */
+export class NavigationFailedException extends ApiException {
+  constructor(message: string) {
+    super('NAVIGATION_FAILED', message, HttpStatus.BAD_GATEWAY);
+  }
+}
+
+/**
+ * The LLM provider failed to answer.
+ */
+export class LlmFailureException extends ApiException {
+  constructor(message: string) {
+    super('LLM_FAILURE', message, HttpStatus.BAD_GATEWAY);
+  }
+}
+
+/**
+ * A document could not be parsed.
+ */
+export class ParseFailureException extends ApiException {
+  constructor(message: string) {
+    super('PARSE_FAILURE', message, HttpStatus.UNPROCESSABLE_ENTITY);
+  }
+}
+
+/**
+ * A client exceeded one of its quotas. `retryAfterSeconds` tells it when to try again.
+ */
+export class QuotaExceededException extends ApiException {
+  constructor(
+    code: Extract<
+      ErrorCode,
+      'RATE_LIMITED' | 'CONCURRENCY_LIMITED' | 'TOKEN_BUDGET_EXCEEDED'
+    >,
+    message: string,
+    readonly retryAfterSeconds: number,
+  ) {
+    super(code, message, HttpStatus.TOO_MANY_REQUESTS, { retryAfterSeconds });
+  }
+}
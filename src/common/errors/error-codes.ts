@@ -0,0 +1,42 @@
+/**
+ * Stable, machine-readable codes carried by every error response.
+ */
+export const ERROR_CODES = [
+  'VALIDATION_FAILED',
+  'INVALID_URL',
+  'BLOCKED_URL',
+  'NAVIGATION_TIMEOUT',
+  'NAVIGATION_FAILED',
+  'LLM_FAILURE',
+  'PARSE_FAILURE',
+  'RATE_LIMITED',
+  'CONCURRENCY_LIMITED',
+  'TOKEN_BUDGET_EXCEEDED',
+  'BAD_REQUEST',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'NOT_FOUND',
+  'CONFLICT',
+  'PAYLOAD_TOO_LARGE',
+  'UNPROCESSABLE_ENTITY',
+  'TOO_MANY_REQUESTS',
+  'SERVICE_UNAVAILABLE',
+  'INTERNAL_ERROR',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+/**
+ * Codes of HTTP exceptions that were not raised with a code of their own.
+ */
+export const STATUS_ERROR_CODES: Record<number, ErrorCode> = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  413: 'PAYLOAD_TOO_LARGE',
+  422: 'UNPROCESSABLE_ENTITY',
+  429: 'TOO_MANY_REQUESTS',
+  503: 'SERVICE_UNAVAILABLE',
+};
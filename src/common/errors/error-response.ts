@@ -0,0 +1,47 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ApiException } from './api-exceptions';
+import { ErrorCode, STATUS_ERROR_CODES } from './error-codes';
+
+/**
+ * The JSON body of an error response.
+ */
+export interface ErrorResponse {
+  statusCode: number;
+  code: ErrorCode;
+  message: string;
+  details?: unknown;
+}
+
+/**
+ * Describes any thrown value as an error response. Errors that are not HTTP
+ * exceptions become internal errors without their message, which may expose internals.
+ * @param {unknown} exception - The thrown value.
+ * @returns {ErrorResponse} - The error response.
+ */
+export function toErrorResponse(exception: unknown): ErrorResponse {
+  if (exception instanceof ApiException) {
+    return {
+      statusCode: exception.getStatus(),
+      code: exception.code,
+      message: exception.message,
+      ...(exception.details !== undefined && { details: exception.details }),
+    };
+  }
+  if (exception instanceof HttpException) {
+    const statusCode = exception.getStatus();
+    const response = exception.getResponse() as any;
+    const message = response?.message ?? exception.message;
+    return {
+      statusCode,
+      code:
+        STATUS_ERROR_CODES[statusCode] ??
+        (statusCode >= 500 ? 'INTERNAL_ERROR' : 'BAD_REQUEST'),
+      message: Array.isArray(message) ? message.join('; ') : String(message),
+    };
+  }
+  return {
+    statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+    code: 'INTERNAL_ERROR',
+    message: 'Internal server error',
+  };
+}
@@ -0,0 +1,15 @@
+import { NestExpressApplication } from '@nestjs/platform-express';
+import { DEFAULT_DOCUMENT_MAX_BYTES } from '../../parser/document-converter.service';
+
+/**
+ * Raises the size limit of JSON bodies from Express' default of 100 kB to
+ * DOCUMENT_MAX_BYTES, so HTML sent in the `html` field of a parse request may be
+ * as large as an uploaded document. Must be called before the app is initialized.
+ * @param {NestExpressApplication} app - The application.
+ */
+export function configureBodyParser(app: NestExpressApplication) {
+  app.useBodyParser('json', {
+    limit:
+      Number(process.env['DOCUMENT_MAX_BYTES']) || DEFAULT_DOCUMENT_MAX_BYTES,
+  });
+}
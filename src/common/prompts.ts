@@ -1,3 +1,5 @@
+export const DEFAULT_TEMPLATE_NAME = 'sections';
+
 export function generateSystemPrompt(): any {
   return {
     role: 'system',
@@ -6,11 +8,36 @@ export function generateSystemPrompt(): any {
     { "title": "<Title of the document>", "sections": [ {"header": "<Section header>","content": [{"type": "<text|image|table>", "description": "<Description of the content>", "value": "<URL if the type is image>|<Table content if the type is table>|<Text content if the type is text>"}, ... ] }, ...]}
     Ensure that:
     - Text content is labeled as "type": "text" with "description" and "value" fields.
-    - Image content identified by [IMAGE: <filename>] is labeled as "type": "image" with "description" and "value" fields.
-    - Table content identified by [TABLE: <filename>] is labeled as "type": "table"  with "description" and "value" fields.
+    - Image content identified by [IMAGE: <filename>] is labeled as "type": "image" with "description" and "value" fields. When the placeholder reads [IMAGE: <filename> | <caption>], use the caption as the description and only the filename as the value.
+    - Table content identified by [TABLE: <filename>] is labeled as "type": "table"  with "description" and "value" fields. When the placeholder reads [TABLE: <filename> | <caption>], use the caption as the description and only the filename as the value.
+    - A leading [CONTEXT: <heading> > <subheading>] line lists the headings the text is nested under; use the last one as the header of content that appears before any other heading.
     - Process the input text and generate the JSON response accordingly.    
     - There is no json markup using ticks or backticks.    
     - Make sure that the JSON is complete and valid.    
     `,
   };
 }
+
+export function generateSchemaPrompt(
+  schema: object,
+  instructions?: string,
+): any {
+  return {
+    role: 'system',
+    content: `
+    You are a content extractor. Your task is to extract information from a given text into a compact JSON object that satisfies the following JSON Schema:
+    ${JSON.stringify(schema)}
+    ${instructions ? `Instructions: ${instructions}` : ''}
+    Ensure that:
+    - Only information present in the text is extracted; use null or omit optional fields that are not present.
+    - Images are identified by [IMAGE: <filename>] or [IMAGE: <filename> | <caption>] and tables by [TABLE: <filename>] or [TABLE: <filename> | <caption>].
+    - A leading [CONTEXT: <heading> > <subheading>] line lists the headings the text is nested under.
+    - There is no json markup using ticks or backticks.
+    - Make sure that the JSON is complete and valid.
+    `,
+  };
+}
+
+export function generateImageCaptionPrompt(hint?: string): string {
+  return `Describe this image in one or two sentences so it can replace the image in a text document. Mention any text, numbers or data that are visible. Answer with the description only.${hint ? ` The page describes it as: "${hint}".` : ''}`;
+}
@@ -0,0 +1,41 @@
+/**
+ * Events a scan emits as its pipeline progresses, for clients that stream its
+ * results instead of waiting for the merged document.
+ */
+export type ScanEvent =
+  | {
+      /** The page finished loading. */
+      type: 'navigated';
+      url: string;
+      status?: number;
+    }
+  | {
+      /** Metadata of the loaded page or document. */
+      type: 'metadata';
+      title?: string;
+      contentType?: string;
+      links: number;
+    }
+  | {
+      /** The content was split into chunks for the LLM. */
+      type: 'chunks';
+      chunksTotal: number;
+    }
+  | {
+      /** The structured result of a single chunk. */
+      type: 'chunk';
+      index: number;
+      cached: boolean;
+      result: any;
+    }
+  | {
+      /** Text generated by the LLM for a chunk, as it arrives. */
+      type: 'token';
+      chunk: number;
+      content: string;
+    };
+
+/**
+ * Callback invoked with every event of a scan.
+ */
+export type ScanEventListener = (event: ScanEvent) => void;
@@ -0,0 +1,27 @@
+/**
+ * Phases a scan moves through, from being queued until it either completes or fails.
+ */
+export type ScanPhase =
+  | 'queued'
+  | 'fetching'
+  | 'parsing'
+  | 'llm'
+  | 'done'
+  | 'failed';
+
+/**
+ * Progress update emitted while a scan runs.
+ */
+export interface ScanProgress {
+  phase: ScanPhase;
+  chunksTotal?: number;
+  chunksCompleted?: number;
+  pagesTotal?: number;
+  pagesCompleted?: number;
+  currentUrl?: string;
+}
+
+/**
+ * Callback invoked whenever a scan reports progress.
+ */
+export type ScanProgressListener = (progress: ScanProgress) => void;
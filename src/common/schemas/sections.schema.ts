@@ -0,0 +1,32 @@
+/**
+ * JSON Schema of the `{title, sections}` document described by `generateSystemPrompt`.
+ */
+export const SECTIONS_SCHEMA = {
+  type: 'object',
+  required: ['title', 'sections'],
+  properties: {
+    title: { type: 'string' },
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['header', 'content'],
+        properties: {
+          header: { type: 'string' },
+          content: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['type', 'value'],
+              properties: {
+                type: { enum: ['text', 'image', 'table'] },
+                description: { type: 'string' },
+                value: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,86 @@
+import { SseStream } from './sse-stream';
+
+describe('SseStream', () => {
+  const createResponse = () =>
+    ({
+      writableEnded: false,
+      destroyed: false,
+      status: jest.fn(),
+      setHeader: jest.fn(),
+      flushHeaders: jest.fn(),
+      on: jest.fn(),
+      write: jest.fn(),
+      end: jest.fn(),
+    }) as any;
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should send the event stream headers and JSON events', () => {
+    const res = createResponse();
+    const stream = new SseStream(res);
+
+    stream.send('chunk', { index: 0 });
+    stream.end();
+
+    expect(res.setHeader).toHaveBeenCalledWith(
+      'Content-Type',
+      'text/event-stream',
+    );
+    expect(res.flushHeaders).toHaveBeenCalled();
+    expect(res.write).toHaveBeenCalledWith(
+      'event: chunk\ndata: {"index":0}\n\n',
+    );
+    expect(res.end).toHaveBeenCalled();
+  });
+
+  it('should send keep-alive comments until the stream ends', () => {
+    jest.useFakeTimers();
+    const res = createResponse();
+    const stream = new SseStream(res, 1000);
+
+    jest.advanceTimersByTime(2000);
+    stream.end();
+    jest.advanceTimersByTime(2000);
+
+    expect(res.write).toHaveBeenCalledTimes(2);
+    expect(res.write).toHaveBeenCalledWith(': keep-alive\n\n');
+  });
+
+  it('should abort its signal when the client disconnects before the end', () => {
+    const res = createResponse();
+    const stream = new SseStream(res);
+    const onClose = res.on.mock.calls.find(([event]) => event === 'close')[1];
+
+    res.writableFinished = false;
+    onClose();
+
+    expect(stream.signal.aborted).toBe(true);
+  });
+
+  it('should not abort its signal when the stream ended normally', () => {
+    const res = createResponse();
+    const stream = new SseStream(res);
+    const onClose = res.on.mock.calls.find(([event]) => event === 'close')[1];
+
+    stream.end();
+    res.writableFinished = true;
+    onClose();
+
+    expect(stream.signal.aborted).toBe(false);
+  });
+
+  it('should drop events once the client disconnected', () => {
+    const res = createResponse();
+    const stream = new SseStream(res);
+    res.destroyed = true;
+
+    stream.send('result', {});
+    stream.end();
+
+    expect(stream.closed).toBe(true);
+    expect(res.write).not.toHaveBeenCalled();
+    expect(res.end).not.toHaveBeenCalled();
+  });
+});
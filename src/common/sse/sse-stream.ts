@@ -0,0 +1,87 @@
+import { Response } from 'express';
+
+const DEFAULT_HEARTBEAT_MS = 15000;
+
+/**
+ * Writes Server-Sent Events to an HTTP response. A comment is sent
+ * periodically so that proxies do not close an idle stream, and writes after
+ * the client disconnected are dropped.
+ */
+export class SseStream {
+  private readonly heartbeat: NodeJS.Timeout;
+  private readonly disconnect = new AbortController();
+
+  /**
+   * Starts the event stream by sending the response headers.
+   * @param {Response} res - The response to write the events to.
+   * @param {number} [heartbeatMs] - Interval of the keep-alive comments, in milliseconds.
+   */
+  constructor(
+    private readonly res: Response,
+    heartbeatMs = DEFAULT_HEARTBEAT_MS,
+  ) {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Keeps nginx from buffering the events
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    this.heartbeat = setInterval(
+      () => this.write(': keep-alive\n\n'),
+      heartbeatMs,
+    );
+    this.heartbeat.unref();
+    res.on('close', () => {
+      clearInterval(this.heartbeat);
+      if (!res.writableFinished) {
+        this.disconnect.abort();
+      }
+    });
+  }
+
+  /**
+   * A signal that is aborted when the client disconnects before the stream ended.
+   * @returns {AbortSignal} - The signal.
+   */
+  get signal(): AbortSignal {
+    return this.disconnect.signal;
+  }
+
+  /**
+   * Whether the stream was ended or the client disconnected.
+   * @returns {boolean} - True once no more events can be sent.
+   */
+  get closed(): boolean {
+    return this.res.writableEnded || this.res.destroyed;
+  }
+
+  /**
+   * Sends an event with a JSON payload.
+   * @param {string} event - The event name.
+   * @param {unknown} data - The payload.
+   */
+  send(event: string, data: unknown) {
+    this.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Ends the stream.
+   */
+  end() {
+    clearInterval(this.heartbeat);
+    if (!this.closed) {
+      this.res.end();
+    }
+  }
+
+  /**
+   * Writes raw data unless the stream is closed.
+   * @param {string} chunk - The data to write.
+   */
+  private write(chunk: string) {
+    if (!this.closed) {
+      this.res.write(chunk);
+    }
+  }
+}
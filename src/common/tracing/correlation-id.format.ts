@@ -0,0 +1,14 @@
+import * as winston from 'winston';
+import { getCorrelationId } from './request-context';
+
+/**
+ * Winston format adding the correlation ID of the current request to every
+ * log entry. Entries logged outside of a request are left unchanged.
+ */
+export const correlationIdFormat = winston.format((info) => {
+  const correlationId = getCorrelationId();
+  if (correlationId) {
+    info.correlationId = correlationId;
+  }
+  return info;
+});
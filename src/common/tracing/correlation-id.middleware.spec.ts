@@ -0,0 +1,31 @@
+import { CorrelationIdMiddleware } from './correlation-id.middleware';
+import { getCorrelationId } from './request-context';
+
+describe('CorrelationIdMiddleware', () => {
+  const middleware = new CorrelationIdMiddleware();
+  const run = (header?: string) => {
+    const req = { get: jest.fn().mockReturnValue(header) } as any;
+    const res = { setHeader: jest.fn() } as any;
+    let correlationId: string;
+    middleware.use(req, res, () => {
+      correlationId = getCorrelationId();
+    });
+    return { res, correlationId };
+  };
+
+  it('should keep a valid X-Request-Id and echo it in the response', () => {
+    const { res, correlationId } = run('req-42');
+
+    expect(correlationId).toBe('req-42');
+    expect(res.setHeader).toHaveBeenCalledWith('X-Request-Id', 'req-42');
+  });
+
+  it('should generate an ID when the header is missing or invalid', () => {
+    const missing = run();
+    const invalid = run('bad id\nwith newline');
+
+    expect(missing.correlationId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(invalid.correlationId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(getCorrelationId()).toBeUndefined();
+  });
+});
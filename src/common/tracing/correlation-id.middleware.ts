@@ -0,0 +1,35 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { runWithCorrelationId } from './request-context';
+
+/**
+ * Header carrying the correlation ID of a request and its response.
+ */
+export const CORRELATION_ID_HEADER = 'X-Request-Id';
+
+const VALID_CORRELATION_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Gives every request a correlation ID, taken from the `X-Request-Id` header
+ * when the caller sends a valid one, and runs the rest of the request with it
+ * so that every log line can carry it. The ID is echoed in the response.
+ */
+@Injectable()
+export class CorrelationIdMiddleware implements NestMiddleware {
+  /**
+   * Assigns the correlation ID and continues with the request.
+   * @param {Request} req - The request.
+   * @param {Response} res - The response.
+   * @param {NextFunction} next - Continues with the next handler.
+   */
+  use(req: Request, res: Response, next: NextFunction) {
+    const requested = req.get(CORRELATION_ID_HEADER);
+    const correlationId =
+      requested && VALID_CORRELATION_ID.test(requested)
+        ? requested
+        : randomUUID();
+    res.setHeader(CORRELATION_ID_HEADER, correlationId);
+    runWithCorrelationId(correlationId, next);
+  }
+}
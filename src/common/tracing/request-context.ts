@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * State of the request a piece of code runs for.
+ */
+export interface RequestContext {
+  correlationId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs a function, and everything it starts asynchronously, with the given correlation ID.
+ * @param {string} correlationId - The correlation ID.
+ * @param {() => T} fn - The function to run.
+ * @returns {T} - The result of the function.
+ */
+export function runWithCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return storage.run({ correlationId }, fn);
+}
+
+/**
+ * Returns the correlation ID of the current request.
+ * @returns {string | undefined} - The correlation ID, or undefined outside of a request.
+ */
+export function getCorrelationId(): string | undefined {
+  return storage.getStore()?.correlationId;
+}
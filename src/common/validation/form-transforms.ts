@@ -0,0 +1,48 @@
+import { Transform } from 'class-transformer';
+
+/**
+ * Converts the multipart form values "true" and "false" to booleans.
+ * @returns {PropertyDecorator} - The transform decorator.
+ */
+export function FormBoolean(): PropertyDecorator {
+  return Transform(({ value }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  );
+}
+
+/**
+ * Converts a multipart form value holding a JSON array or a single string to an array.
+ * @returns {PropertyDecorator} - The transform decorator.
+ */
+export function FormStringArray(): PropertyDecorator {
+  return Transform(({ value }) => {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    return value.trimStart().startsWith('[') ? parseJson(value) : [value];
+  });
+}
+
+/**
+ * Converts a multipart form value holding JSON to the parsed value.
+ * @returns {PropertyDecorator} - The transform decorator.
+ */
+export function FormJson(): PropertyDecorator {
+  return Transform(({ value }) =>
+    typeof value === 'string' ? parseJson(value) : value,
+  );
+}
+
+/**
+ * Parses JSON, keeping the original string when it is malformed so the
+ * validators report it.
+ * @param {string} value - The JSON text.
+ * @returns {unknown} - The parsed value, or the original string.
+ */
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,65 @@
+import { createValidationPipe } from './validation.pipe';
+import { RequestDto } from '../../browser/dto/request.dto';
+import { ParseRequestDto } from '../../parser/dto/parse-request.dto';
+import { ValidationFailedException } from '../errors/api-exceptions';
+
+describe('createValidationPipe', () => {
+  const pipe = createValidationPipe();
+  const validate = (value: unknown, metatype: any) =>
+    pipe.transform(value, { type: 'body', metatype });
+
+  it('should be defined', () => {
+    expect(pipe).toBeDefined();
+  });
+
+  it('should accept a valid scan request', async () => {
+    const dto = await validate(
+      {
+        url: 'https://example.com/',
+        actions: [{ type: 'click', selector: '#more' }],
+        capture: { screenshot: true },
+      },
+      RequestDto,
+    );
+
+    expect(dto).toBeInstanceOf(RequestDto);
+  });
+
+  it('should report every failing field, nested ones included', async () => {
+    const error = await validate(
+      {
+        url: 42,
+        actions: [{ type: 'hover' }],
+        outputFormat: 'pdf',
+        unknown: true,
+      },
+      RequestDto,
+    ).catch((error) => error);
+
+    expect(error).toBeInstanceOf(ValidationFailedException);
+    expect(error.details.map(({ field }) => field)).toEqual([
+      'unknown',
+      'url',
+      'actions.0.type',
+      'outputFormat',
+    ]);
+  });
+
+  it('should convert multipart form values of parse requests', async () => {
+    const dto = await validate(
+      {
+        html: '<p>Hi</p>',
+        debug: 'true',
+        includeSelectors: 'article',
+        schema: '{"type":"object"}',
+      },
+      ParseRequestDto,
+    );
+
+    expect(dto).toMatchObject({
+      debug: true,
+      includeSelectors: ['article'],
+      schema: { type: 'object' },
+    });
+  });
+});
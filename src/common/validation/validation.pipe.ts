@@ -0,0 +1,45 @@
+import { ValidationError, ValidationPipe } from '@nestjs/common';
+import { ValidationFailedException } from '../errors/api-exceptions';
+
+/**
+ * A property that failed validation, with the path of nested properties.
+ */
+export interface FieldError {
+  field: string;
+  messages: string[];
+}
+
+/**
+ * Flattens nested validation errors into one entry per failing property.
+ * @param {ValidationError[]} errors - The class-validator errors.
+ * @param {string} [parent] - The path of the parent property.
+ * @returns {FieldError[]} - The failing properties.
+ */
+export function flattenValidationErrors(
+  errors: ValidationError[],
+  parent?: string,
+): FieldError[] {
+  return errors.flatMap((error) => {
+    const field = parent ? `${parent}.${error.property}` : error.property;
+    const own = error.constraints
+      ? [{ field, messages: Object.values(error.constraints) }]
+      : [];
+    return [...own, ...flattenValidationErrors(error.children ?? [], field)];
+  });
+}
+
+/**
+ * Creates the global validation pipe: request bodies are converted to their
+ * DTO classes, unknown properties are rejected and failures are reported as
+ * `VALIDATION_FAILED` with the failing fields.
+ * @returns {ValidationPipe} - The validation pipe.
+ */
+export function createValidationPipe(): ValidationPipe {
+  return new ValidationPipe({
+    transform: true,
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    exceptionFactory: (errors) =>
+      new ValidationFailedException(flattenValidationErrors(errors)),
+  });
+}
@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CrawlerController } from './crawler.controller';
+import { CrawlerService } from './crawler.service';
+import { ApiKeyGuard } from '../auth/api-key.guard';
+import { QuotaService } from '../auth/quota.service';
+import { UsageService } from '../usage/usage.service';
+
+describe('CrawlerController', () => {
+  let controller: CrawlerController;
+  const crawlerService = { startCrawl: jest.fn() };
+  const release = jest.fn();
+  const quotaService = {
+    acquireScan: jest.fn(() => release),
+    recordTokens: jest.fn(),
+    assertTokenBudget: jest.fn(),
+  };
+  const usageService = { record: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CrawlerController],
+      providers: [
+        { provide: CrawlerService, useValue: crawlerService },
+        { provide: QuotaService, useValue: quotaService },
+        { provide: UsageService, useValue: usageService },
+      ],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<CrawlerController>(CrawlerController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should return the queued crawl job', () => {
+    crawlerService.startCrawl.mockReturnValue({
+      id: 'job-1',
+      status: 'queued',
+    });
+
+    expect(controller.crawl({ seeds: ['https://example.com'] })).toEqual({
+      jobId: 'job-1',
+      status: 'queued',
+    });
+  });
+
+  it('should release the scan slot when the crawl finishes', () => {
+    crawlerService.startCrawl.mockReturnValue({
+      id: 'job-1',
+      status: 'queued',
+    });
+
+    controller.crawl({ seeds: ['https://example.com'] });
+
+    expect(crawlerService.startCrawl).toHaveBeenCalledWith(
+      { seeds: ['https://example.com'] },
+      {
+        clientId: undefined,
+        onUsage: expect.any(Function),
+        checkBudget: expect.any(Function),
+      },
+      release,
+    );
+  });
+
+  it('should release the scan slot of a rejected crawl', () => {
+    release.mockReset();
+    crawlerService.startCrawl.mockImplementation(() => {
+      throw new Error('Invalid seed');
+    });
+
+    expect(() => controller.crawl({ seeds: ['nope'] })).toThrow('Invalid seed');
+    expect(release).toHaveBeenCalled();
+  });
+});
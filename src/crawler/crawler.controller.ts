@@ -0,0 +1,70 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBody, ApiOperation, ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { CrawlerService } from './crawler.service';
+import { CrawlRequestDto } from './dto/crawl-request.dto';
+import { ApiKeyGuard } from '../auth/api-key.guard';
+import { CurrentClient } from '../auth/api-client.decorator';
+import { QuotaService } from '../auth/quota.service';
+import { ApiClient } from '../auth/interfaces/api-client.interface';
+import { ScanJob } from '../jobs/interfaces/scan-job.interface';
+import { LlmCallUsage } from '../llm/providers/llm-provider.interface';
+import { UsageService } from '../usage/usage.service';
+
+/**
+ * Controller for crawling whole sites.
+ */
+@ApiTags('crawler')
+@ApiSecurity('api-key')
+@UseGuards(ApiKeyGuard)
+@Controller('/api/v1/crawler')
+export class CrawlerController {
+  constructor(
+    private readonly crawlerService: CrawlerService,
+    private readonly quotaService: QuotaService,
+    private readonly usageService: UsageService,
+  ) {}
+
+  /**
+   * Endpoint to start a crawl. Crawls always run as background jobs that are
+   * polled through the jobs endpoints. A crawl holds one of the client's scan
+   * slots until it finishes.
+   * @param {CrawlRequestDto} crawlRequestDto - The crawl request.
+   * @param {ApiClient} [client] - The authenticated client.
+   * @returns {{ jobId: string, status: string }} - The queued job.
+   */
+  @Post('crawl')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Crawl a site starting from seed URLs' })
+  @ApiBody({ type: CrawlRequestDto })
+  crawl(
+    @Body() crawlRequestDto: CrawlRequestDto,
+    @CurrentClient() client?: ApiClient,
+  ) {
+    const release = this.quotaService.acquireScan(client);
+    const onUsage = (usage: LlmCallUsage) => {
+      this.usageService.record(client?.id, usage);
+      this.quotaService.recordTokens(client, usage);
+      this.quotaService.assertTokenBudget(client);
+    };
+    const checkBudget = () => this.quotaService.assertTokenBudget(client);
+    let job: ScanJob;
+    try {
+      job = this.crawlerService.startCrawl(
+        crawlRequestDto,
+        { clientId: client?.id, onUsage, checkBudget },
+        release,
+      );
+    } catch (error) {
+      release();
+      throw error;
+    }
+    return { jobId: job.id, status: job.status };
+  }
+}
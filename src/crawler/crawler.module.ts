@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { CrawlerService } from './crawler.service';
+import { CrawlerController } from './crawler.controller';
+import { BrowserModule } from '../browser/browser.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { UrlPolicyModule } from '../url-policy/url-policy.module';
+import { AuthModule } from '../auth/auth.module';
+import { UsageModule } from '../usage/usage.module';
+
+@Module({
+  imports: [
+    BrowserModule,
+    JobsModule,
+    UrlPolicyModule,
+    AuthModule,
+    UsageModule,
+  ],
+  providers: [CrawlerService],
+  controllers: [CrawlerController],
+})
+export class CrawlerModule {}
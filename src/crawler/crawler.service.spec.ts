@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import axios from 'axios';
+import { CrawlerService } from './crawler.service';
+import { BrowserService } from '../browser/browser.service';
+import { JobsService } from '../jobs/jobs.service';
+import { UrlPolicyService } from '../url-policy/url-policy.service';
+import { QuotaExceededException } from '../common/errors/api-exceptions';
+
+describe('CrawlerService', () => {
+  let service: CrawlerService;
+  const urlPolicyService = { assertAllowed: jest.fn(), requestOptions: {} };
+  const site: Record<string, string[]> = {
+    'https://docs.example.com/': [
+      'https://docs.example.com/guide#top',
+      'https://docs.example.com/private/notes',
+      'https://other.example.com/',
+      'https://docs.example.com/logo.png',
+    ],
+    'https://docs.example.com/guide': ['https://docs.example.com/guide/deep'],
+  };
+  const browserService = {
+    scanPage: jest.fn(async ({ url }, { onLinks }) => {
+      onLinks(site[url] ?? []);
+      return { title: url };
+    }),
+  };
+  const jobsService = { enqueue: jest.fn() };
+  const robotsTxt = 'User-agent: *\nDisallow: /private';
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+      if (url.endsWith('/robots.txt')) {
+        return { data: robotsTxt };
+      }
+      throw new Error('Not found');
+    });
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CrawlerService,
+        { provide: BrowserService, useValue: browserService },
+        { provide: JobsService, useValue: jobsService },
+        { provide: UrlPolicyService, useValue: urlPolicyService },
+      ],
+    }).compile();
+
+    service = module.get<CrawlerService>(CrawlerService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should follow same-origin links within the depth limit', async () => {
+    const onProgress = jest.fn();
+
+    const result = await service.crawl(
+      { seeds: ['https://docs.example.com/'], maxDepth: 1, delayMs: 0 },
+      { onProgress },
+    );
+
+    expect(result.pages.map((page) => page.url)).toEqual([
+      'https://docs.example.com/',
+      'https://docs.example.com/guide',
+    ]);
+    expect(result).toMatchObject({
+      pagesCrawled: 2,
+      pagesFailed: 0,
+      pagesSkipped: 2,
+    });
+    expect(onProgress).toHaveBeenCalledWith({
+      phase: 'fetching',
+      pagesCompleted: 1,
+      pagesTotal: 4,
+      currentUrl: 'https://docs.example.com/guide',
+    });
+  });
+
+  it('should apply include and exclude patterns and the page limit', async () => {
+    const result = await service.crawl({
+      seeds: ['https://docs.example.com/'],
+      exclude: ['*/guide'],
+      respectRobots: false,
+      delayMs: 0,
+    });
+
+    expect(result.pages.map((page) => page.url)).toEqual([
+      'https://docs.example.com/',
+      'https://docs.example.com/private/notes',
+    ]);
+
+    const limited = await service.crawl({
+      seeds: ['https://docs.example.com/'],
+      maxPages: 1,
+      delayMs: 0,
+    });
+    expect(limited.pages).toHaveLength(1);
+  });
+
+  it('should record failed pages and keep crawling', async () => {
+    browserService.scanPage.mockRejectedValueOnce(new Error('Timeout'));
+
+    const result = await service.crawl({
+      seeds: ['https://docs.example.com/', 'https://docs.example.com/guide'],
+      maxDepth: 0,
+      delayMs: 0,
+    });
+
+    expect(result.pages[0]).toMatchObject({
+      status: 'failed',
+      error: 'Timeout',
+    });
+    expect(result.pagesCrawled).toBe(1);
+  });
+
+  it('should stop once the token budget of the client is used', async () => {
+    const exhausted = new QuotaExceededException(
+      'TOKEN_BUDGET_EXCEEDED',
+      'Budget used',
+      60,
+    );
+    const checkBudget = jest
+      .fn()
+      .mockImplementationOnce(() => {})
+      .mockImplementation(() => {
+        throw exhausted;
+      });
+
+    await expect(
+      service.crawl(
+        { seeds: ['https://docs.example.com/'], delayMs: 0 },
+        { checkBudget },
+      ),
+    ).rejects.toBe(exhausted);
+    expect(browserService.scanPage).toHaveBeenCalledTimes(1);
+    expect(browserService.scanPage.mock.calls[0][1].checkBudget).toBe(
+      checkBudget,
+    );
+  });
+
+  it('should add the URLs of a sitemap', async () => {
+    jest.spyOn(axios, 'get').mockImplementation(async (url: string) => {
+      if (url.endsWith('sitemap.xml')) {
+        return {
+          data: '<urlset><url><loc>https://docs.example.com/a?x=1&amp;y=2</loc></url></urlset>',
+        };
+      }
+      throw new Error('Not found');
+    });
+
+    const result = await service.crawl({
+      seeds: ['https://docs.example.com/'],
+      sitemapUrl: 'https://docs.example.com/sitemap.xml',
+      maxDepth: 0,
+      delayMs: 0,
+    });
+
+    expect(result.pages.map((page) => page.url)).toEqual([
+      'https://docs.example.com/',
+      'https://docs.example.com/a?x=1&y=2',
+    ]);
+  });
+
+  it('should reject invalid requests before queueing', () => {
+    expect(() => service.startCrawl({ seeds: [] })).toThrow(
+      BadRequestException,
+    );
+    expect(() =>
+      service.startCrawl({
+        seeds: ['https://a.example'],
+        include: ['*'.repeat(201)],
+      }),
+    ).toThrow(BadRequestException);
+    expect(jobsService.enqueue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,359 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import { UrlPolicyService } from '../url-policy/url-policy.service';
+import { BrowserService } from '../browser/browser.service';
+import { JobsService } from '../jobs/jobs.service';
+import { ScanJob } from '../jobs/interfaces/scan-job.interface';
+import { ScanOptions } from '../browser/interfaces/scan-options.interface';
+import { CrawlRequestDto } from './dto/crawl-request.dto';
+import {
+  CrawlPageResult,
+  CrawlResult,
+} from './interfaces/crawl-result.interface';
+import { RobotsPolicy, isPathAllowed, parseRobotsTxt } from './robots.utils';
+import {
+  MAX_URL_PATTERN_LENGTH,
+  MAX_URL_PATTERNS,
+  matchesUrlPattern,
+} from './url-pattern.utils';
+import { QuotaExceededException } from '../common/errors/api-exceptions';
+
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_MAX_PAGES = 20;
+const DEFAULT_MAX_PAGES_LIMIT = 500;
+const DEFAULT_DELAY_MS = 1000;
+const DEFAULT_USER_AGENT = 'html-parsing-service';
+const FETCH_TIMEOUT_MS = 10000;
+const UNSCANNABLE_EXTENSIONS =
+  /\.(zip|gz|png|jpe?g|gif|svg|webp|ico|mp3|mp4|webm|css|js|json|xml)$/i;
+
+/**
+ * Options of a crawl that do not come from the request body.
+ */
+export type CrawlOptions = Pick<
+  ScanOptions,
+  'clientId' | 'onProgress' | 'onUsage' | 'checkBudget'
+>;
+
+interface CrawlTarget {
+  url: string;
+  depth: number;
+}
+
+/**
+ * Crawls sites page by page through the scan pipeline: seeds and sitemap URLs
+ * are scanned first, then same-origin links found in the rendered pages, while
+ * honoring robots.txt and a per-host politeness delay.
+ */
+@Injectable()
+export class CrawlerService {
+  private readonly logger = new Logger(CrawlerService.name);
+  private readonly maxPagesLimit: number;
+  private readonly userAgent: string;
+  private readonly nextFetchAt = new Map<string, number>();
+
+  /**
+   * Initializes the crawler with the limits from the environment.
+   */
+  constructor(
+    private readonly browserService: BrowserService,
+    private readonly jobsService: JobsService,
+    private readonly urlPolicyService: UrlPolicyService,
+  ) {
+    this.maxPagesLimit =
+      Number(process.env['CRAWL_MAX_PAGES_LIMIT']) || DEFAULT_MAX_PAGES_LIMIT;
+    this.userAgent = process.env['CRAWL_USER_AGENT'] || DEFAULT_USER_AGENT;
+  }
+
+  /**
+   * Validates a crawl request and queues it as a background job.
+   * @param {CrawlRequestDto} crawlRequestDto - The crawl request.
+   * @param {Omit<CrawlOptions, 'onProgress'>} [options] - The client the crawl runs for and its usage listener.
+   * @param {() => void} [onFinished] - Callback invoked once the crawl has finished or failed.
+   * @returns {ScanJob} - The queued job.
+   */
+  startCrawl(
+    crawlRequestDto: CrawlRequestDto,
+    options: Omit<CrawlOptions, 'onProgress'> = {},
+    onFinished?: () => void,
+  ): ScanJob {
+    this.validate(crawlRequestDto);
+    return this.jobsService.enqueue(
+      (onProgress) =>
+        this.crawl(crawlRequestDto, { ...options, onProgress }).finally(
+          onFinished,
+        ),
+      crawlRequestDto.callbackUrl,
+      options.clientId,
+    );
+  }
+
+  /**
+   * Crawls the site described by the request.
+   * @param {CrawlRequestDto} crawlRequestDto - The crawl request.
+   * @param {CrawlOptions} [options] - The client the crawl runs for and the listeners notified as pages are scanned.
+   * @returns {Promise<CrawlResult>} - A promise that resolves to the aggregated results.
+   */
+  async crawl(
+    crawlRequestDto: CrawlRequestDto,
+    options: CrawlOptions = {},
+  ): Promise<CrawlResult> {
+    const { clientId, onProgress, onUsage, checkBudget } = options;
+    const {
+      seeds,
+      sitemapUrl,
+      include,
+      exclude,
+      maxDepth,
+      maxPages,
+      delayMs,
+      respectRobots,
+      ...scanOptions
+    } = crawlRequestDto;
+    const includePatterns = include ?? [];
+    const excludePatterns = exclude ?? [];
+    const depthLimit = maxDepth ?? DEFAULT_MAX_DEPTH;
+    const pageLimit = Math.min(
+      maxPages ?? DEFAULT_MAX_PAGES,
+      this.maxPagesLimit,
+    );
+    const origins = new Set(seeds.map((seed) => new URL(seed).origin));
+    const robots = new Map<string, RobotsPolicy>();
+
+    const queue: CrawlTarget[] = [];
+    const seen = new Set<string>();
+    const enqueue = (url: string, depth: number) => {
+      const normalized = this.normalizeUrl(url);
+      if (normalized && !seen.has(normalized)) {
+        seen.add(normalized);
+        queue.push({ url: normalized, depth });
+      }
+    };
+    seeds.forEach((seed) => enqueue(seed, 0));
+    if (sitemapUrl) {
+      const sitemapUrls = await this.fetchSitemap(sitemapUrl, pageLimit);
+      sitemapUrls.forEach((url) => enqueue(url, 0));
+    }
+
+    const pages: CrawlPageResult[] = [];
+    let pagesSkipped = 0;
+    while (queue.length > 0 && pages.length < pageLimit) {
+      const { url, depth } = queue.shift();
+      const { origin, pathname, search, host } = new URL(url);
+      if (
+        !origins.has(origin) ||
+        (includePatterns.length > 0 &&
+          !includePatterns.some((pattern) =>
+            matchesUrlPattern(url, pattern),
+          )) ||
+        excludePatterns.some((pattern) => matchesUrlPattern(url, pattern))
+      ) {
+        pagesSkipped++;
+        continue;
+      }
+
+      let delay = delayMs ?? DEFAULT_DELAY_MS;
+      if (respectRobots !== false) {
+        if (!robots.has(origin)) {
+          robots.set(origin, await this.fetchRobots(origin));
+        }
+        const policy = robots.get(origin);
+        if (!isPathAllowed(policy, pathname + search)) {
+          this.logger.log(`Skipping ${url}: disallowed by robots.txt`);
+          pagesSkipped++;
+          continue;
+        }
+        delay = Math.max(delay, policy.crawlDelayMs ?? 0);
+      }
+
+      const progress = {
+        pagesCompleted: pages.length,
+        pagesTotal: Math.min(pages.length + queue.length + 1, pageLimit),
+        currentUrl: url,
+      };
+      checkBudget?.();
+      onProgress?.({ phase: 'fetching', ...progress });
+      await this.waitForHost(host, delay);
+
+      let links: string[] = [];
+      try {
+        const result = await this.browserService.scanPage(
+          { ...scanOptions, url },
+          {
+            clientId,
+            onProgress: (pageProgress) =>
+              onProgress?.({ ...pageProgress, ...progress }),
+            onLinks: (discovered) => (links = discovered),
+            onUsage,
+            checkBudget,
+          },
+        );
+        pages.push({ url, depth, status: 'done', result });
+      } catch (error) {
+        if (error instanceof QuotaExceededException) {
+          throw error;
+        }
+        this.logger.error(`Crawling ${url} failed: ${error.message}`);
+        pages.push({ url, depth, status: 'failed', error: error.message });
+      }
+
+      if (depth < depthLimit) {
+        links.forEach((link) => enqueue(link, depth + 1));
+      }
+    }
+
+    const pagesFailed = pages.filter((page) => page.status === 'failed').length;
+    this.logger.log(
+      `Crawl finished: ${pages.length} pages, ${pagesFailed} failed, ${pagesSkipped} skipped`,
+    );
+    return {
+      pagesCrawled: pages.length - pagesFailed,
+      pagesFailed,
+      pagesSkipped,
+      pages,
+    };
+  }
+
+  /**
+   * Checks the seeds and URL patterns of a crawl request.
+   * @param {CrawlRequestDto} crawlRequestDto - The crawl request.
+   */
+  private validate(crawlRequestDto: CrawlRequestDto) {
+    const { seeds, sitemapUrl, include, exclude } = crawlRequestDto;
+    if (!Array.isArray(seeds) || seeds.length === 0) {
+      throw new BadRequestException('At least one seed URL is required');
+    }
+    for (const url of [...seeds, ...(sitemapUrl ? [sitemapUrl] : [])]) {
+      if (!this.normalizeUrl(url)) {
+        throw new BadRequestException(`Invalid URL: ${url}`);
+      }
+    }
+    for (const patterns of [include ?? [], exclude ?? []]) {
+      if (patterns.length > MAX_URL_PATTERNS) {
+        throw new BadRequestException(
+          `At most ${MAX_URL_PATTERNS} include and exclude URL patterns are allowed`,
+        );
+      }
+      for (const pattern of patterns) {
+        if (pattern.length > MAX_URL_PATTERN_LENGTH) {
+          throw new BadRequestException(
+            `URL patterns must not be longer than ${MAX_URL_PATTERN_LENGTH} characters`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Normalizes a discovered URL by dropping its fragment, and filters out
+   * URLs that are not HTTP(S) pages.
+   * @param {string} url - The URL to normalize.
+   * @returns {string | null} - The normalized URL, or null if it should not be crawled.
+   */
+  private normalizeUrl(url: string): string | null {
+    if (!URL.canParse(url)) {
+      return null;
+    }
+    const parsed = new URL(url);
+    if (
+      (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') ||
+      UNSCANNABLE_EXTENSIONS.test(parsed.pathname)
+    ) {
+      return null;
+    }
+    parsed.hash = '';
+    return parsed.href;
+  }
+
+  /**
+   * Waits until the politeness delay for a host has passed and reserves the next slot.
+   * @param {string} host - The host about to be fetched.
+   * @param {number} delayMs - The minimum delay between two requests to the host.
+   * @returns {Promise<void>} - A promise that resolves when the host may be fetched.
+   */
+  private async waitForHost(host: string, delayMs: number): Promise<void> {
+    const now = Date.now();
+    const fetchAt = Math.max(now, this.nextFetchAt.get(host) ?? 0);
+    this.nextFetchAt.set(host, fetchAt + delayMs);
+    if (fetchAt > now) {
+      await new Promise((resolve) => setTimeout(resolve, fetchAt - now));
+    }
+  }
+
+  /**
+   * Fetches and parses the robots.txt of an origin. Missing or unreadable files allow everything.
+   * @param {string} origin - The origin of the site.
+   * @returns {Promise<RobotsPolicy>} - A promise that resolves to the policy for our user agent.
+   */
+  private async fetchRobots(origin: string): Promise<RobotsPolicy> {
+    try {
+      await this.urlPolicyService.assertAllowed(`${origin}/robots.txt`);
+      const response = await axios.get(`${origin}/robots.txt`, {
+        ...this.urlPolicyService.requestOptions,
+        timeout: FETCH_TIMEOUT_MS,
+        responseType: 'text',
+        headers: { 'User-Agent': this.userAgent },
+      });
+      return parseRobotsTxt(String(response.data), this.userAgent);
+    } catch (error) {
+      this.logger.warn(`No robots.txt for ${origin}: ${error.message}`);
+      return { rules: [] };
+    }
+  }
+
+  /**
+   * Fetches the page URLs listed in a sitemap, following one level of sitemap indexes.
+   * @param {string} sitemapUrl - The URL of the sitemap.
+   * @param {number} limit - Maximum number of URLs to return.
+   * @param {boolean} [followIndex=true] - Whether nested sitemaps are fetched.
+   * @returns {Promise<string[]>} - A promise that resolves to the listed URLs.
+   */
+  private async fetchSitemap(
+    sitemapUrl: string,
+    limit: number,
+    followIndex = true,
+  ): Promise<string[]> {
+    let xml: string;
+    try {
+      await this.urlPolicyService.assertAllowed(sitemapUrl);
+      const response = await axios.get(sitemapUrl, {
+        ...this.urlPolicyService.requestOptions,
+        timeout: FETCH_TIMEOUT_MS,
+        responseType: 'text',
+        headers: { 'User-Agent': this.userAgent },
+      });
+      xml = String(response.data);
+    } catch (error) {
+      this.logger.warn(
+        `Fetching sitemap ${sitemapUrl} failed: ${error.message}`,
+      );
+      return [];
+    }
+
+    const locations = [...xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/gi)].map(
+      ([, location]) =>
+        location
+          .replace(/^<!\[CDATA\[|\]\]>$/g, '')
+          .replace(/&amp;/g, '&')
+          .replace(/&apos;/g, "'")
+          .replace(/&quot;/g, '"'),
+    );
+    if (!/<sitemapindex/i.test(xml)) {
+      return locations.slice(0, limit);
+    }
+    if (!followIndex) {
+      return [];
+    }
+
+    const urls: string[] = [];
+    for (const location of locations) {
+      if (urls.length >= limit) {
+        break;
+      }
+      urls.push(
+        ...(await this.fetchSitemap(location, limit - urls.length, false)),
+      );
+    }
+    return urls;
+  }
+}
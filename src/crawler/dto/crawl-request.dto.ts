@@ -0,0 +1,104 @@
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { RequestDto } from '../../browser/dto/request.dto';
+import { MAX_URL_PATTERN_LENGTH, MAX_URL_PATTERNS } from '../url-pattern.utils';
+
+export class CrawlRequestDto extends OmitType(RequestDto, [
+  'url',
+  'async',
+  'streamTokens',
+] as const) {
+  @ApiProperty({
+    description:
+      'URLs the crawl starts from; links are followed within their origins',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  seeds: string[];
+
+  @ApiProperty({
+    description: 'sitemap.xml whose URLs are added to the crawl',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  sitemapUrl?: string;
+
+  @ApiProperty({
+    description:
+      'Glob patterns matched against the whole URL, where `*` matches any characters; when set, only matching URLs are crawled',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_URL_PATTERNS)
+  @IsString({ each: true })
+  @MaxLength(MAX_URL_PATTERN_LENGTH, { each: true })
+  include?: string[];
+
+  @ApiProperty({
+    description:
+      'Glob patterns matched against the whole URL, where `*` matches any characters, for URLs that are never crawled',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_URL_PATTERNS)
+  @IsString({ each: true })
+  @MaxLength(MAX_URL_PATTERN_LENGTH, { each: true })
+  exclude?: string[];
+
+  @ApiProperty({
+    description: 'How many links away from the seeds the crawl may go',
+    required: false,
+    default: 2,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxDepth?: number;
+
+  @ApiProperty({
+    description: 'Maximum number of pages to scan',
+    required: false,
+    default: 20,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxPages?: number;
+
+  @ApiProperty({
+    description:
+      'Minimum delay between two requests to the same host, in milliseconds',
+    required: false,
+    default: 1000,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  delayMs?: number;
+
+  @ApiProperty({
+    description: 'Skip URLs disallowed by robots.txt and honor its Crawl-delay',
+    required: false,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  respectRobots?: boolean;
+}
@@ -0,0 +1,20 @@
+/**
+ * Outcome of scanning a single page during a crawl.
+ */
+export interface CrawlPageResult {
+  url: string;
+  depth: number;
+  status: 'done' | 'failed';
+  result?: any;
+  error?: string;
+}
+
+/**
+ * Aggregated result of a crawl.
+ */
+export interface CrawlResult {
+  pagesCrawled: number;
+  pagesFailed: number;
+  pagesSkipped: number;
+  pages: CrawlPageResult[];
+}
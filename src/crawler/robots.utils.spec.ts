@@ -0,0 +1,35 @@
+import { isPathAllowed, parseRobotsTxt } from './robots.utils';
+
+describe('robots.utils', () => {
+  const robotsTxt = [
+    '# comment',
+    'User-agent: *',
+    'Disallow: /private',
+    'Allow: /private/docs',
+    'Crawl-delay: 2',
+    '',
+    'User-agent: html-parsing-service',
+    'Disallow: /*.php$',
+  ].join('\n');
+
+  it('should apply the generic group to unknown agents', () => {
+    const policy = parseRobotsTxt(robotsTxt, 'other-bot');
+
+    expect(policy.crawlDelayMs).toBe(2000);
+    expect(isPathAllowed(policy, '/private/area')).toBe(false);
+    expect(isPathAllowed(policy, '/private/docs/intro')).toBe(true);
+    expect(isPathAllowed(policy, '/public')).toBe(true);
+  });
+
+  it('should prefer the group naming our user agent', () => {
+    const policy = parseRobotsTxt(robotsTxt, 'html-parsing-service');
+
+    expect(isPathAllowed(policy, '/private/area')).toBe(true);
+    expect(isPathAllowed(policy, '/index.php')).toBe(false);
+    expect(isPathAllowed(policy, '/index.php?page=2')).toBe(true);
+  });
+
+  it('should allow everything without matching groups', () => {
+    expect(isPathAllowed(parseRobotsTxt('', 'bot'), '/anything')).toBe(true);
+  });
+});
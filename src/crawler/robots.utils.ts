@@ -0,0 +1,113 @@
+/**
+ * A single Allow or Disallow rule of a robots.txt group.
+ */
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+/**
+ * The robots.txt rules that apply to our user agent.
+ */
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+}
+
+/**
+ * Parses a robots.txt file and selects the group matching the user agent,
+ * falling back to the `*` group.
+ * @param {string} content - The robots.txt content.
+ * @param {string} userAgent - The product token of the crawler.
+ * @returns {RobotsPolicy} - The rules that apply to the user agent.
+ */
+export function parseRobotsTxt(
+  content: string,
+  userAgent: string,
+): RobotsPolicy {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup;
+  let readingAgents = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!readingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      readingAgents = true;
+      continue;
+    }
+    readingAgents = false;
+    if (!current) {
+      continue;
+    }
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay' && Number(value) > 0) {
+      current.crawlDelayMs = Number(value) * 1000;
+    }
+  }
+
+  const token = userAgent.toLowerCase();
+  const group =
+    groups.find((candidate) =>
+      candidate.agents.some((agent) => agent !== '*' && token.includes(agent)),
+    ) ?? groups.find((candidate) => candidate.agents.includes('*'));
+  return group
+    ? { rules: group.rules, crawlDelayMs: group.crawlDelayMs }
+    : { rules: [] };
+}
+
+/**
+ * Checks whether a path may be crawled. The longest matching rule wins and
+ * Allow wins ties; `*` wildcards and `$` end anchors are supported.
+ * @param {RobotsPolicy} policy - The robots.txt policy.
+ * @param {string} path - The URL path including the query string.
+ * @returns {boolean} - True if the path may be crawled.
+ */
+export function isPathAllowed(policy: RobotsPolicy, path: string): boolean {
+  let match: RobotsRule;
+  for (const rule of policy.rules) {
+    if (!toPattern(rule.path).test(path)) {
+      continue;
+    }
+    if (
+      !match ||
+      rule.path.length > match.path.length ||
+      (rule.path.length === match.path.length && rule.allow)
+    ) {
+      match = rule;
+    }
+  }
+  return match ? match.allow : true;
+}
+
+/**
+ * Converts a robots.txt path rule into a regular expression anchored at the start of the path.
+ * @param {string} rulePath - The path of the rule.
+ * @returns {RegExp} - The matching regular expression.
+ */
+function toPattern(rulePath: string): RegExp {
+  const anchored = rulePath.endsWith('$');
+  const body = (anchored ? rulePath.slice(0, -1) : rulePath)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
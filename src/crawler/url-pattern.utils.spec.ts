@@ -0,0 +1,32 @@
+import { matchesUrlPattern } from './url-pattern.utils';
+
+describe('url-pattern.utils', () => {
+  it('should match the whole URL', () => {
+    const url = 'https://docs.example.com/guide';
+
+    expect(matchesUrlPattern(url, url)).toBe(true);
+    expect(matchesUrlPattern(url, 'https://docs.example.com/')).toBe(false);
+    expect(matchesUrlPattern(url, 'docs.example.com/guide')).toBe(false);
+  });
+
+  it('should let wildcards match any characters', () => {
+    const url = 'https://docs.example.com/guide/intro?page=2';
+
+    expect(matchesUrlPattern(url, 'https://docs.example.com/*')).toBe(true);
+    expect(matchesUrlPattern(url, '*/guide/*')).toBe(true);
+    expect(matchesUrlPattern(url, '*?page=*')).toBe(true);
+    expect(matchesUrlPattern(url, '*/blog/*')).toBe(false);
+    expect(matchesUrlPattern('https://a.example/', '**')).toBe(true);
+  });
+
+  it('should treat regular expression syntax as literal characters', () => {
+    expect(matchesUrlPattern('https://a.example/a', '*(a+)+$')).toBe(false);
+    expect(matchesUrlPattern('https://a.example/(a+)+$', '*(a+)+$')).toBe(true);
+  });
+
+  it('should match long URLs against many wildcards quickly', () => {
+    const url = `https://a.example/${'a'.repeat(2000)}`;
+
+    expect(matchesUrlPattern(url, `*${'a*'.repeat(50)}b`)).toBe(false);
+  });
+});
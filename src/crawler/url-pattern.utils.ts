@@ -0,0 +1,47 @@
+/**
+ * Maximum length of an include or exclude URL pattern of a crawl.
+ */
+export const MAX_URL_PATTERN_LENGTH = 200;
+
+/**
+ * Maximum number of include or exclude URL patterns of a crawl.
+ */
+export const MAX_URL_PATTERNS = 20;
+
+/**
+ * Checks whether a URL matches a glob pattern. The pattern must match the whole
+ * URL; `*` matches any run of characters, including none, and every other
+ * character matches itself. Matching takes at most pattern length × URL length
+ * steps, so client patterns cannot stall the crawler the way regular expressions can.
+ * @param {string} url - The URL to check.
+ * @param {string} pattern - The glob pattern, e.g. `https://example.com/docs/*`.
+ * @returns {boolean} - True if the URL matches the pattern.
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  let urlIndex = 0;
+  let patternIndex = 0;
+  let starIndex = -1;
+  let resumeIndex = 0;
+  while (urlIndex < url.length) {
+    if (pattern[patternIndex] === '*') {
+      starIndex = patternIndex++;
+      resumeIndex = urlIndex;
+    } else if (
+      patternIndex < pattern.length &&
+      pattern[patternIndex] === url[urlIndex]
+    ) {
+      patternIndex++;
+      urlIndex++;
+    } else if (starIndex !== -1) {
+      // Let the last `*` absorb one more character and retry from there
+      patternIndex = starIndex + 1;
+      urlIndex = ++resumeIndex;
+    } else {
+      return false;
+    }
+  }
+  while (pattern[patternIndex] === '*') {
+    patternIndex++;
+  }
+  return patternIndex === pattern.length;
+}
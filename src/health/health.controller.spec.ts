@@ -0,0 +1,44 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+
+describe('HealthController', () => {
+  let controller: HealthController;
+  const healthService = { checkReadiness: jest.fn() };
+  const res = { status: jest.fn() } as any;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [HealthController],
+      providers: [{ provide: HealthService, useValue: healthService }],
+    }).compile();
+
+    controller = module.get<HealthController>(HealthController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should report liveness without checking dependencies', () => {
+    expect(controller.getLiveness()).toEqual({ status: 'ok' });
+    expect(healthService.checkReadiness).not.toHaveBeenCalled();
+  });
+
+  it('should respond with 503 when a dependency is down', async () => {
+    const report = { status: 'error', checkedAt: '', checks: {} };
+    healthService.checkReadiness.mockResolvedValue(report);
+
+    await expect(controller.getReadiness(res)).resolves.toBe(report);
+    expect(res.status).toHaveBeenCalledWith(503);
+  });
+
+  it('should keep the default status when ready', async () => {
+    healthService.checkReadiness.mockResolvedValue({ status: 'ok' });
+
+    await controller.getReadiness(res);
+
+    expect(res.status).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,42 @@
+import { Controller, Get, Res } from '@nestjs/common';
+import { ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Response } from 'express';
+import { HealthService } from './health.service';
+import { ReadinessReport } from './interfaces/health.interface';
+
+/**
+ * Controller for the liveness and readiness probes. The probes do not require an API key.
+ */
+@ApiTags('health')
+@Controller('/health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  /**
+   * Endpoint reporting that the process is up and serving requests.
+   * @returns {{ status: string }} - Always `ok`.
+   */
+  @Get('/live')
+  @ApiOperation({ summary: 'Liveness probe' })
+  getLiveness(): { status: string } {
+    return { status: 'ok' };
+  }
+
+  /**
+   * Endpoint reporting whether Chromium can be launched and the LLM provider
+   * is reachable. Responds with 503 when a check fails.
+   * @param {Response} res - The response, used to set the status code.
+   * @returns {Promise<ReadinessReport>} - A promise that resolves to the readiness report.
+   */
+  @Get('/ready')
+  @ApiOperation({ summary: 'Readiness probe' })
+  async getReadiness(
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<ReadinessReport> {
+    const report = await this.healthService.checkReadiness();
+    if (report.status !== 'ok') {
+      res.status(503);
+    }
+    return report;
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { HealthService } from './health.service';
+import { HealthController } from './health.controller';
+import { BrowserModule } from '../browser/browser.module';
+import { LlmModule } from '../llm/llm.module';
+
+@Module({
+  imports: [BrowserModule, LlmModule],
+  providers: [HealthService],
+  controllers: [HealthController],
+})
+export class HealthModule {}
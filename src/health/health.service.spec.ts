@@ -0,0 +1,80 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HealthService } from './health.service';
+import { BrowserPoolService } from '../browser/browser-pool.service';
+import { LlmService } from '../llm/llm.service';
+
+describe('HealthService', () => {
+  let service: HealthService;
+  const browserPoolService = { ping: jest.fn() };
+  const llmService = {
+    ping: jest.fn(),
+    getProvider: jest.fn().mockReturnValue({ name: 'openai' }),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    process.env['HEALTH_CHECK_TIMEOUT_MS'] = '50';
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HealthService,
+        { provide: BrowserPoolService, useValue: browserPoolService },
+        { provide: LlmService, useValue: llmService },
+      ],
+    }).compile();
+
+    service = module.get<HealthService>(HealthService);
+  });
+
+  afterEach(() => {
+    delete process.env['HEALTH_CHECK_TIMEOUT_MS'];
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should report ready when Chromium and the LLM provider respond', async () => {
+    browserPoolService.ping.mockResolvedValue('HeadlessChrome/124.0.0.0');
+    llmService.ping.mockResolvedValue(undefined);
+
+    const report = await service.checkReadiness();
+
+    expect(report.status).toBe('ok');
+    expect(report.checks.browser).toMatchObject({
+      status: 'up',
+      details: { version: 'HeadlessChrome/124.0.0.0' },
+    });
+    expect(report.checks.llm).toMatchObject({
+      status: 'up',
+      details: { provider: 'openai' },
+    });
+  });
+
+  it('should fail checks that throw or time out', async () => {
+    browserPoolService.ping.mockRejectedValue(new Error('launch failed'));
+    llmService.ping.mockReturnValue(new Promise(() => undefined));
+
+    const report = await service.checkReadiness();
+
+    expect(report.status).toBe('error');
+    expect(report.checks.browser).toMatchObject({
+      status: 'down',
+      error: 'launch failed',
+    });
+    expect(report.checks.llm).toMatchObject({
+      status: 'down',
+      error: 'Timed out after 50ms',
+    });
+  });
+
+  it('should reuse a recent report', async () => {
+    browserPoolService.ping.mockResolvedValue('HeadlessChrome/124.0.0.0');
+    llmService.ping.mockResolvedValue(undefined);
+
+    const first = await service.checkReadiness();
+    const second = await service.checkReadiness();
+
+    expect(second).toBe(first);
+    expect(browserPoolService.ping).toHaveBeenCalledTimes(1);
+  });
+});
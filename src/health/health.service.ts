@@ -0,0 +1,116 @@
+import { Injectable, Logger } from '@nestjs/common';
+import performanceNow from 'performance-now';
+import { BrowserPoolService } from '../browser/browser-pool.service';
+import { LlmService } from '../llm/llm.service';
+import {
+  HealthCheckResult,
+  ReadinessReport,
+} from './interfaces/health.interface';
+
+const DEFAULT_CHECK_TIMEOUT_MS = 10000;
+const DEFAULT_CACHE_TTL_MS = 15000;
+
+/**
+ * Checks whether the dependencies a scan needs are available: Chromium must
+ * launch and the configured LLM provider must be reachable. Reports are cached
+ * briefly so that frequent probes do not hammer the LLM API.
+ */
+@Injectable()
+export class HealthService {
+  private readonly logger = new Logger(HealthService.name);
+  private readonly checkTimeoutMs: number;
+  private readonly cacheTtlMs: number;
+  private cached?: { report: ReadinessReport; expiresAt: number };
+  private pending?: Promise<ReadinessReport>;
+
+  /**
+   * Initializes the service with the timeout and cache settings from the environment.
+   */
+  constructor(
+    private readonly browserPoolService: BrowserPoolService,
+    private readonly llmService: LlmService,
+  ) {
+    this.checkTimeoutMs =
+      Number(process.env['HEALTH_CHECK_TIMEOUT_MS']) ||
+      DEFAULT_CHECK_TIMEOUT_MS;
+    this.cacheTtlMs =
+      Number(process.env['HEALTH_CACHE_TTL_MS']) || DEFAULT_CACHE_TTL_MS;
+  }
+
+  /**
+   * Checks the readiness of every dependency, reusing a recent report when there is one.
+   * @returns {Promise<ReadinessReport>} - A promise that resolves to the readiness report.
+   */
+  async checkReadiness(): Promise<ReadinessReport> {
+    if (this.cached && this.cached.expiresAt > Date.now()) {
+      return this.cached.report;
+    }
+    this.pending ??= this.runChecks().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  /**
+   * Runs all checks in parallel and caches the report.
+   * @returns {Promise<ReadinessReport>} - A promise that resolves to the readiness report.
+   */
+  private async runChecks(): Promise<ReadinessReport> {
+    const [browser, llm] = await Promise.all([
+      this.check('browser', async () => ({
+        version: await this.browserPoolService.ping(),
+      })),
+      this.check('llm', async () => {
+        await this.llmService.ping();
+        return { provider: this.llmService.getProvider().name };
+      }),
+    ]);
+    const checks = { browser, llm };
+    const report: ReadinessReport = {
+      status: Object.values(checks).every((check) => check.status === 'up')
+        ? 'ok'
+        : 'error',
+      checkedAt: new Date().toISOString(),
+      checks,
+    };
+    this.cached = { report, expiresAt: Date.now() + this.cacheTtlMs };
+    return report;
+  }
+
+  /**
+   * Runs a single check, failing it when it throws or exceeds the timeout.
+   * @param {string} name - The name of the check, used in log messages.
+   * @param {() => Promise<Record<string, any>>} probe - Performs the check and returns its details.
+   * @returns {Promise<HealthCheckResult>} - A promise that resolves to the outcome of the check.
+   */
+  private async check(
+    name: string,
+    probe: () => Promise<Record<string, any>>,
+  ): Promise<HealthCheckResult> {
+    const start = performanceNow();
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${this.checkTimeoutMs}ms`)),
+        this.checkTimeoutMs,
+      );
+    });
+    try {
+      const details = await Promise.race([probe(), timeout]);
+      return {
+        status: 'up',
+        latencyMs: Math.round(performanceNow() - start),
+        details,
+      };
+    } catch (error) {
+      this.logger.warn(`Health check "${name}" failed: ${error.message}`);
+      return {
+        status: 'down',
+        latencyMs: Math.round(performanceNow() - start),
+        error: error.message,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
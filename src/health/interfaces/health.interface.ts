@@ -0,0 +1,18 @@
+/**
+ * Outcome of a single readiness check.
+ */
+export interface HealthCheckResult {
+  status: 'up' | 'down';
+  latencyMs: number;
+  error?: string;
+  details?: Record<string, any>;
+}
+
+/**
+ * Readiness of the service and of each of its dependencies.
+ */
+export interface ReadinessReport {
+  status: 'ok' | 'error';
+  checkedAt: string;
+  checks: Record<string, HealthCheckResult>;
+}
@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ScanPhase } from '../../common/scan-progress';
+import { ErrorCode } from '../../common/errors/error-codes';
+
+/**
+ * The public status of a scan job. Internal fields of the job, such as its
+ * callback URL, client and correlation ID, are left out.
+ */
+export class JobStatusDto {
+  @ApiProperty({ description: 'The job ID' })
+  id: string;
+
+  @ApiProperty({
+    description: 'The phase the job is in',
+    enum: ['queued', 'fetching', 'parsing', 'llm', 'done', 'failed'],
+  })
+  status: ScanPhase;
+
+  @ApiProperty({ description: 'Chunks of the page', required: false })
+  chunksTotal?: number;
+
+  @ApiProperty({ description: 'Chunks processed so far', required: false })
+  chunksCompleted?: number;
+
+  @ApiProperty({ description: 'Pages of a crawl', required: false })
+  pagesTotal?: number;
+
+  @ApiProperty({ description: 'Pages crawled so far', required: false })
+  pagesCompleted?: number;
+
+  @ApiProperty({
+    description: 'The page a crawl is scanning',
+    required: false,
+  })
+  currentUrl?: string;
+
+  @ApiProperty({ description: 'When the job was queued' })
+  createdAt: string;
+
+  @ApiProperty({ description: 'When the job was last updated' })
+  updatedAt: string;
+
+  @ApiProperty({ description: 'When the job finished', required: false })
+  finishedAt?: string;
+
+  @ApiProperty({ description: 'Why the job failed', required: false })
+  error?: string;
+
+  @ApiProperty({
+    description: 'The error code of a failed job',
+    required: false,
+  })
+  errorCode?: ErrorCode;
+}
@@ -0,0 +1,26 @@
+import { ScanPhase } from '../../common/scan-progress';
+import { ErrorCode } from '../../common/errors/error-codes';
+
+/**
+ * A scan job tracked by the in-process job queue.
+ */
+export interface ScanJob {
+  id: string;
+  status: ScanPhase;
+  chunksTotal?: number;
+  chunksCompleted?: number;
+  pagesTotal?: number;
+  pagesCompleted?: number;
+  currentUrl?: string;
+  callbackUrl?: string;
+  /** The API client that queued the job; only it can read the job. */
+  clientId?: string;
+  /** Correlation ID of the request that queued the job, carried into its log lines. */
+  correlationId?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  result?: any;
+  error?: string;
+  errorCode?: ErrorCode;
+}
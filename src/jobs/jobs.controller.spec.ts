@@ -0,0 +1,75 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { JobsController } from './jobs.controller';
+import { JobsService } from './jobs.service';
+import { ApiKeyGuard } from '../auth/api-key.guard';
+
+describe('JobsController', () => {
+  let controller: JobsController;
+  const jobsService = { getJob: jest.fn() };
+
+  beforeEach(async () => {
+    jobsService.getJob.mockReset();
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [JobsController],
+      providers: [{ provide: JobsService, useValue: jobsService }],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<JobsController>(JobsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should return the status without the result', () => {
+    jobsService.getJob.mockReturnValue({ id: '1', status: 'done', result: [] });
+
+    expect(controller.getStatus('1')).toEqual({ id: '1', status: 'done' });
+  });
+
+  it('should not expose the internal fields of the job', () => {
+    const job = {
+      id: '1',
+      status: 'failed',
+      pagesTotal: 3,
+      pagesCompleted: 1,
+      callbackUrl: 'https://hooks.example.com/done',
+      clientId: 'acme',
+      correlationId: 'abc',
+      createdAt: '2026-10-18T10:00:00.000Z',
+      updatedAt: '2026-10-18T10:01:00.000Z',
+      finishedAt: '2026-10-18T10:01:00.000Z',
+      error: 'Navigation timed out',
+      errorCode: 'NAVIGATION_TIMEOUT',
+    };
+    jobsService.getJob.mockReturnValue(job);
+
+    const status = controller.getStatus('1');
+
+    expect(Object.keys(JSON.parse(JSON.stringify(status))).sort()).toEqual([
+      'createdAt',
+      'error',
+      'errorCode',
+      'finishedAt',
+      'id',
+      'pagesCompleted',
+      'pagesTotal',
+      'status',
+      'updatedAt',
+    ]);
+  });
+
+  it('should return 404 for unknown jobs', () => {
+    expect(() => controller.getStatus('missing')).toThrow(NotFoundException);
+  });
+
+  it('should return 409 while the job is still running', () => {
+    jobsService.getJob.mockReturnValue({ id: '1', status: 'llm' });
+
+    expect(() => controller.getResult('1')).toThrow(ConflictException);
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  ConflictException,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiOkResponse,
+  ApiOperation,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JobsService } from './jobs.service';
+import { ScanJob } from './interfaces/scan-job.interface';
+import { JobStatusDto } from './dto/job-status.dto';
+import { ApiKeyGuard } from '../auth/api-key.guard';
+import { CurrentClient } from '../auth/api-client.decorator';
+import { ApiClient } from '../auth/interfaces/api-client.interface';
+
+/**
+ * Controller for polling asynchronous scan jobs.
+ */
+@ApiTags('jobs')
+@ApiSecurity('api-key')
+@UseGuards(ApiKeyGuard)
+@Controller('/api/v1/jobs')
+export class JobsController {
+  constructor(private readonly jobsService: JobsService) {}
+
+  /**
+   * Endpoint to get the status and progress of a job.
+   * @param {string} id - The job ID.
+   * @param {ApiClient} [client] - The authenticated client; only its own jobs are found.
+   * @returns {JobStatusDto} - The public fields of the job, without its result.
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get the status of a scan job' })
+  @ApiOkResponse({ type: JobStatusDto })
+  getStatus(
+    @Param('id') id: string,
+    @CurrentClient() client?: ApiClient,
+  ): JobStatusDto {
+    const job = this.findJob(id, client);
+    return {
+      id: job.id,
+      status: job.status,
+      chunksTotal: job.chunksTotal,
+      chunksCompleted: job.chunksCompleted,
+      pagesTotal: job.pagesTotal,
+      pagesCompleted: job.pagesCompleted,
+      currentUrl: job.currentUrl,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      finishedAt: job.finishedAt,
+      error: job.error,
+      errorCode: job.errorCode,
+    };
+  }
+
+  /**
+   * Endpoint to get the result of a finished job.
+   * @param {string} id - The job ID.
+   * @param {ApiClient} [client] - The authenticated client; only its own jobs are found.
+   * @returns {any} - The scan result.
+   */
+  @Get(':id/result')
+  @ApiOperation({ summary: 'Get the result of a finished scan job' })
+  getResult(@Param('id') id: string, @CurrentClient() client?: ApiClient): any {
+    const job = this.findJob(id, client);
+    if (job.status === 'failed') {
+      throw new ConflictException(`Job ${id} failed: ${job.error}`);
+    }
+    if (job.status !== 'done') {
+      throw new ConflictException(`Job ${id} is still ${job.status}`);
+    }
+    return job.result;
+  }
+
+  /**
+   * Looks up a job of the client or throws a 404.
+   * @param {string} id - The job ID.
+   * @param {ApiClient} [client] - The authenticated client.
+   * @returns {ScanJob} - The job.
+   */
+  private findJob(id: string, client?: ApiClient): ScanJob {
+    const job = this.jobsService.getJob(id, client?.id);
+    if (!job) {
+      throw new NotFoundException(`Job ${id} not found`);
+    }
+    return job;
+  }
+}
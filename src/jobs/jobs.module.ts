@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { JobsService } from './jobs.service';
+import { JobsController } from './jobs.controller';
+import { UrlPolicyModule } from '../url-policy/url-policy.module';
+import { AuthModule } from '../auth/auth.module';
+import { MetricsModule } from '../metrics/metrics.module';
+
+@Module({
+  imports: [UrlPolicyModule, AuthModule, MetricsModule],
+  providers: [JobsService],
+  controllers: [JobsController],
+  exports: [JobsService],
+})
+export class JobsModule {}
@@ -0,0 +1,111 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import axios from 'axios';
+import { JobsService } from './jobs.service';
+import { UrlPolicyService } from '../url-policy/url-policy.service';
+import { MetricsService } from '../metrics/metrics.service';
+import {
+  getCorrelationId,
+  runWithCorrelationId,
+} from '../common/tracing/request-context';
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('JobsService', () => {
+  let service: JobsService;
+  const urlPolicyService = { assertAllowed: jest.fn(), requestOptions: {} };
+
+  beforeEach(async () => {
+    process.env['SCAN_JOB_CONCURRENCY'] = '1';
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobsService,
+        { provide: UrlPolicyService, useValue: urlPolicyService },
+        MetricsService,
+      ],
+    }).compile();
+
+    service = module.get<JobsService>(JobsService);
+  });
+
+  afterEach(() => {
+    delete process.env['SCAN_JOB_CONCURRENCY'];
+    jest.restoreAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should run a job and keep its result for polling', async () => {
+    const job = service.enqueue(async (onProgress) => {
+      onProgress({ phase: 'llm', chunksTotal: 2, chunksCompleted: 1 });
+      return [{ title: 'Done' }];
+    });
+    await flushPromises();
+
+    expect(service.getJob(job.id)).toMatchObject({
+      status: 'done',
+      chunksTotal: 2,
+      chunksCompleted: 1,
+      result: [{ title: 'Done' }],
+    });
+  });
+
+  it('should only return jobs to the client that queued them', () => {
+    const job = service.enqueue(async () => null, undefined, 'acme');
+
+    expect(service.getJob(job.id, 'acme')).toBe(job);
+    expect(service.getJob(job.id, 'globex')).toBeUndefined();
+    expect(service.getJob(job.id)).toBeUndefined();
+  });
+
+  it('should respect the concurrency limit', async () => {
+    let release: () => void;
+    const first = service.enqueue(
+      () => new Promise<void>((resolve) => (release = resolve)),
+    );
+    const second = service.enqueue(async () => 'second');
+    await flushPromises();
+
+    expect(service.getJob(first.id).status).toBe('queued');
+    expect(service.getJob(second.id).status).toBe('queued');
+
+    release();
+    await flushPromises();
+
+    expect(service.getJob(first.id).status).toBe('done');
+    expect(service.getJob(second.id).status).toBe('done');
+  });
+
+  it('should run jobs with the correlation ID of the request that queued them', async () => {
+    let correlationId: string;
+    const job = runWithCorrelationId('req-1', () =>
+      service.enqueue(async () => {
+        correlationId = getCorrelationId();
+      }),
+    );
+    await flushPromises();
+
+    expect(job.correlationId).toBe('req-1');
+    expect(correlationId).toBe('req-1');
+  });
+
+  it('should record failures and notify the callback URL', async () => {
+    const post = jest.spyOn(axios, 'post').mockResolvedValue({});
+    const job = service.enqueue(async () => {
+      throw new Error('boom');
+    }, 'https://hooks.example.com/scan');
+    await flushPromises();
+
+    expect(service.getJob(job.id)).toMatchObject({
+      status: 'failed',
+      error: 'boom',
+      errorCode: 'INTERNAL_ERROR',
+    });
+    expect(post).toHaveBeenCalledWith(
+      'https://hooks.example.com/scan',
+      expect.objectContaining({ id: job.id, status: 'failed' }),
+      expect.any(Object),
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import axios from 'axios';
+import { ScanJob } from './interfaces/scan-job.interface';
+import { ScanProgressListener } from '../common/scan-progress';
+import { UrlPolicyService } from '../url-policy/url-policy.service';
+import { toErrorResponse } from '../common/errors/error-response';
+import { MetricsService } from '../metrics/metrics.service';
+import {
+  getCorrelationId,
+  runWithCorrelationId,
+} from '../common/tracing/request-context';
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * A unit of work executed by the job queue. It receives a listener for reporting progress.
+ */
+export type JobTask = (onProgress: ScanProgressListener) => Promise<any>;
+
+/**
+ * In-process queue that runs scan jobs with a bounded concurrency and keeps
+ * finished jobs around so their status and result can still be polled.
+ */
+@Injectable()
+export class JobsService {
+  private readonly logger = new Logger(JobsService.name);
+  private readonly jobs = new Map<string, ScanJob>();
+  private readonly pending: { job: ScanJob; task: JobTask }[] = [];
+  private readonly concurrency: number;
+  private readonly retentionMs: number;
+  private running = 0;
+
+  /**
+   * Initializes the job queue with the concurrency and retention settings from
+   * the environment and exposes its depth as gauges.
+   */
+  constructor(
+    private readonly urlPolicyService: UrlPolicyService,
+    metricsService: MetricsService,
+  ) {
+    this.concurrency =
+      Number(process.env['SCAN_JOB_CONCURRENCY']) || DEFAULT_CONCURRENCY;
+    this.retentionMs =
+      Number(process.env['SCAN_JOB_RETENTION_MS']) || DEFAULT_RETENTION_MS;
+    metricsService.registerGauge(
+      'jobs_queued',
+      'Scan jobs waiting in the queue',
+      () => this.pending.length,
+    );
+    metricsService.registerGauge(
+      'jobs_running',
+      'Scan jobs currently running',
+      () => this.running,
+    );
+  }
+
+  /**
+   * Adds a task to the queue and starts it as soon as a slot is free.
+   * @param {JobTask} task - The task to run.
+   * @param {string} [callbackUrl] - URL that receives the finished job via POST.
+   * @param {string} [clientId] - The API client queuing the job.
+   * @returns {ScanJob} - The queued job.
+   */
+  enqueue(task: JobTask, callbackUrl?: string, clientId?: string): ScanJob {
+    this.pruneExpiredJobs();
+    const now = new Date().toISOString();
+    const job: ScanJob = {
+      id: randomUUID(),
+      status: 'queued',
+      callbackUrl,
+      clientId,
+      correlationId: getCorrelationId(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    this.pending.push({ job, task });
+    this.logger.log(`Job ${job.id} queued (${this.pending.length} pending)`);
+    this.drain();
+    return job;
+  }
+
+  /**
+   * Looks up a job of a client by its ID.
+   * @param {string} id - The job ID.
+   * @param {string} [clientId] - The API client asking.
+   * @returns {ScanJob | undefined} - The job, or undefined if it is unknown, expired or queued by another client.
+   */
+  getJob(id: string, clientId?: string): ScanJob | undefined {
+    this.pruneExpiredJobs();
+    const job = this.jobs.get(id);
+    return job?.clientId === clientId ? job : undefined;
+  }
+
+  /**
+   * Starts queued tasks until the concurrency limit is reached.
+   */
+  private drain() {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const { job, task } = this.pending.shift();
+      this.running++;
+      runWithCorrelationId(job.correlationId, () =>
+        this.run(job, task),
+      ).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  /**
+   * Runs a single job, recording its progress, result and failure.
+   * @param {ScanJob} job - The job being run.
+   * @param {JobTask} task - The task to execute.
+   */
+  private async run(job: ScanJob, task: JobTask): Promise<void> {
+    this.logger.log(`Job ${job.id} started`);
+    try {
+      job.result = await task(({ phase, ...counters }) => {
+        Object.assign(job, counters, {
+          status: phase,
+          updatedAt: new Date().toISOString(),
+        });
+      });
+      job.status = 'done';
+      this.logger.log(`Job ${job.id} done`);
+    } catch (error) {
+      job.status = 'failed';
+      job.error = error.message;
+      job.errorCode = toErrorResponse(error).code;
+      this.logger.error(`Job ${job.id} failed: ${error.message}`);
+    }
+    job.updatedAt = job.finishedAt = new Date().toISOString();
+
+    if (job.callbackUrl) {
+      await this.notifyCallback(job);
+    }
+  }
+
+  /**
+   * Delivers a finished job to its callback URL.
+   * @param {ScanJob} job - The finished job.
+   */
+  private async notifyCallback(job: ScanJob): Promise<void> {
+    this.logger.log(`Posting job ${job.id} to ${job.callbackUrl}`);
+    try {
+      await this.urlPolicyService.assertAllowed(job.callbackUrl);
+      await axios.post(job.callbackUrl, job, {
+        ...this.urlPolicyService.requestOptions,
+        timeout: 10000,
+      });
+    } catch (error) {
+      this.logger.warn(`Callback for job ${job.id} failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Removes finished jobs that are older than the retention period.
+   */
+  private pruneExpiredJobs() {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
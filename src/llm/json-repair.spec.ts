@@ -0,0 +1,48 @@
+import {
+  completeJson,
+  repairJson,
+  stripCodeFences,
+  stripCommentsAndTrailingCommas,
+} from './json-repair';
+
+describe('json-repair', () => {
+  it('should strip Markdown code fences', () => {
+    expect(stripCodeFences('```json\n{"a": 1}\n```')).toBe('{"a": 1}\n');
+  });
+
+  it('should strip comments and trailing commas outside of strings', () => {
+    expect(
+      stripCommentsAndTrailingCommas(
+        '{"url": "https://a.b//c", /* note */ "list": [1, 2,], // done\n}',
+      ),
+    ).toBe('{"url": "https://a.b//c",  "list": [1, 2] \n}');
+  });
+
+  it('should close truncated strings, arrays and objects', () => {
+    expect(
+      JSON.parse(completeJson('{"title": "A", "sections": [{"header": "B')),
+    ).toEqual({ title: 'A', sections: [{ header: 'B' }] });
+  });
+
+  it('should drop a dangling key at the cut-off point', () => {
+    expect(JSON.parse(completeJson('{"title": "A", "secti'))).toEqual({
+      title: 'A',
+    });
+  });
+
+  it('should repair a fenced, commented and truncated response', () => {
+    const raw =
+      'Here you go:\n```json\n{"title": "Doc", // the title\n"sections": [{"header": "Intro", "content": [';
+
+    expect(JSON.parse(repairJson(raw))).toEqual({
+      title: 'Doc',
+      sections: [{ header: 'Intro', content: [] }],
+    });
+  });
+
+  it('should drop prose after a complete object', () => {
+    expect(JSON.parse(repairJson('{"a": 1}\nHope this helps!'))).toEqual({
+      a: 1,
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Removes Markdown code fences around a JSON payload.
+ * @param {string} text - The raw model output.
+ * @returns {string} - The output without fences.
+ */
+export function stripCodeFences(text: string): string {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i);
+  return fenced ? fenced[1] : text;
+}
+
+/**
+ * Removes comments and trailing commas that appear outside of string literals.
+ * @param {string} text - The JSON-like text.
+ * @returns {string} - The cleaned text.
+ */
+export function stripCommentsAndTrailingCommas(text: string): string {
+  const withoutComments = transformOutsideStrings(text, (rest) => {
+    if (rest.startsWith('//')) {
+      const end = rest.indexOf('\n');
+      return { skip: end === -1 ? rest.length : end };
+    }
+    if (rest.startsWith('/*')) {
+      const end = rest.indexOf('*/', 2);
+      return { skip: end === -1 ? rest.length : end + 2 };
+    }
+    return null;
+  });
+  return transformOutsideStrings(withoutComments, (rest) =>
+    /^,\s*[}\]]/.test(rest) ? { skip: 1 } : null,
+  );
+}
+
+/**
+ * Walks the text and lets a callback drop characters that are outside of string literals.
+ * @param {string} text - The JSON-like text.
+ * @param {(rest: string) => { skip: number } | null} drop - Returns how many characters to drop at the current position, or null to keep it.
+ * @returns {string} - The transformed text.
+ */
+function transformOutsideStrings(
+  text: string,
+  drop: (rest: string) => { skip: number } | null,
+): string {
+  let result = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      result += char;
+      continue;
+    }
+    const dropped = drop(text.slice(i));
+    if (dropped) {
+      i += dropped.skip - 1;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    }
+    result += char;
+  }
+  return result;
+}
+
+/**
+ * Cuts the text down to the outermost JSON object, dropping any prose around it.
+ * @param {string} text - The JSON-like text.
+ * @returns {string} - The text from the first `{` to the last `}`, or to the end if the object is truncated.
+ */
+export function extractJsonObject(text: string): string {
+  const start = text.indexOf('{');
+  if (start === -1) {
+    return text;
+  }
+  const body = text.slice(start);
+  const closing = completeJson(body) === body ? body.lastIndexOf('}') : -1;
+  return closing === -1 ? body : body.slice(0, closing + 1);
+}
+
+/**
+ * Closes strings, arrays and objects left open by a truncated response.
+ * A dangling key or separator at the cut-off point is dropped.
+ * @param {string} text - The possibly truncated JSON text.
+ * @returns {string} - The completed JSON text.
+ */
+export function completeJson(text: string): string {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+    }
+  }
+
+  if (stack.length === 0 && !inString) {
+    return text;
+  }
+
+  let completed = inString ? text.replace(/\\$/, '') + '"' : text;
+  completed = completed.trimEnd();
+  if (completed.endsWith(':')) {
+    completed += ' null';
+  } else if (stack[stack.length - 1] === '}') {
+    // A key without a value, e.g. `{"title": "x", "sect`
+    completed = completed.replace(/([{,])\s*"(?:[^"\\]|\\.)*"$/, '$1');
+  }
+  completed = completed.replace(/,\s*$/, '');
+
+  return completed + stack.reverse().join('');
+}
+
+/**
+ * Applies all syntactic repairs to a raw model output.
+ * @param {string} text - The raw model output.
+ * @returns {string} - The repaired JSON text.
+ */
+export function repairJson(text: string): string {
+  const cleaned = stripCommentsAndTrailingCommas(
+    extractJsonObject(stripCodeFences(text).trim()),
+  );
+  return stripCommentsAndTrailingCommas(completeJson(cleaned.trim()));
+}
@@ -1,8 +1,11 @@
 import { Module } from '@nestjs/common';
 import { LlmService } from './llm.service';
+import { OutputValidatorService } from './output-validator.service';
+import { MetricsModule } from '../metrics/metrics.module';
 
 @Module({
-  providers: [LlmService],
-  exports: [LlmService],
+  imports: [MetricsModule],
+  providers: [LlmService, OutputValidatorService],
+  exports: [LlmService, OutputValidatorService],
 })
 export class LlmModule {}
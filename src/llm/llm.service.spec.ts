@@ -1,12 +1,17 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
 import { LlmService } from './llm.service';
+import { HeuristicProvider } from './providers/heuristic.provider';
+import { OpenAiCompatibleProvider } from './providers/openai-compatible.provider';
+import { LlmFailureException } from '../common/errors/api-exceptions';
+import { MetricsService } from '../metrics/metrics.service';
 
 describe('LlmService', () => {
   let service: LlmService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [LlmService],
+      providers: [LlmService, MetricsService],
     }).compile();
 
     service = module.get<LlmService>(LlmService);
@@ -15,4 +20,100 @@ describe('LlmService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should select the provider requested per call', () => {
+    expect(service.getProvider('heuristic')).toBeInstanceOf(HeuristicProvider);
+    expect(service.getProvider('openai-compatible')).toBeInstanceOf(
+      OpenAiCompatibleProvider,
+    );
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => service.getProvider('unknown' as any)).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should process text without network access using the heuristic provider', async () => {
+    const response = await service.processText('Intro\nSome text.', {
+      provider: 'heuristic',
+    });
+
+    expect(JSON.parse(response)).toEqual({
+      title: 'Intro',
+      sections: [
+        {
+          header: 'Intro',
+          content: [{ type: 'text', description: '', value: 'Some text.' }],
+        },
+      ],
+    });
+  });
+
+  it('should reject image descriptions for providers without vision', async () => {
+    await expect(
+      service.describeImage(
+        { content: Buffer.from(''), contentType: 'image/png' },
+        'Describe',
+        'heuristic',
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should report the usage of completions', async () => {
+    const onUsage = jest.fn();
+    jest.spyOn(service.getProvider('heuristic'), 'complete').mockResolvedValue({
+      content: '{}',
+      model: 'heuristic',
+      usage: { promptTokens: 12, completionTokens: 4 },
+    });
+
+    await service.processText('Text', { provider: 'heuristic', onUsage });
+
+    expect(onUsage).toHaveBeenCalledWith({
+      type: 'text',
+      provider: 'heuristic',
+      model: 'heuristic',
+      promptTokens: 12,
+      completionTokens: 4,
+      latencyMs: expect.any(Number),
+      costUsd: 0,
+    });
+  });
+
+  it('should report provider errors as LLM failures', async () => {
+    jest
+      .spyOn(service.getProvider('heuristic'), 'complete')
+      .mockRejectedValueOnce(new Error('socket hang up'));
+
+    await expect(
+      service.processText('Text', { provider: 'heuristic' }),
+    ).rejects.toThrow(
+      new LlmFailureException(
+        'LLM provider "heuristic" failed: socket hang up',
+      ),
+    );
+  });
+
+  it('should price completions with the configured price table', async () => {
+    process.env['LLM_PRICES'] = JSON.stringify({
+      'my-model': { input: 1, output: 4 },
+    });
+    const pricedService = new LlmService(new MetricsService());
+    delete process.env['LLM_PRICES'];
+    const onUsage = jest.fn();
+    jest
+      .spyOn(pricedService.getProvider('heuristic'), 'complete')
+      .mockResolvedValue({
+        content: '{}',
+        model: 'my-model',
+        usage: { promptTokens: 1000, completionTokens: 500 },
+      });
+
+    await pricedService.processText('Text', { provider: 'heuristic', onUsage });
+
+    expect(onUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ model: 'my-model', costUsd: 0.003 }),
+    );
+  });
 });
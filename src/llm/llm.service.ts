@@ -1,43 +1,216 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { OpenAI } from 'openai'; // Replace with the actual OpenAI package if needed
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import performanceNow from 'performance-now';
 import { generateSystemPrompt } from '../common/prompts';
+import { LlmFailureException } from '../common/errors/api-exceptions';
+import {
+  LLM_PROVIDER_NAMES,
+  LlmCallUsage,
+  LlmCompletion,
+  LlmImage,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderName,
+  LlmTokenListener,
+  LlmUsageListener,
+} from './providers/llm-provider.interface';
+import { OpenAiProvider } from './providers/openai.provider';
+import { OpenAiCompatibleProvider } from './providers/openai-compatible.provider';
+import { HeuristicProvider } from './providers/heuristic.provider';
+import { estimateCost, parsePriceTable, PriceTable } from './pricing';
+import { MetricsService } from '../metrics/metrics.service';
 
 /**
- * Service to interact with the OpenAI language model.
+ * Options for a single LLM request.
+ */
+export interface LlmRequestOptions {
+  provider?: LlmProviderName;
+  systemPrompt?: LlmMessage;
+  followUp?: LlmMessage[];
+  onUsage?: LlmUsageListener;
+  onToken?: LlmTokenListener;
+}
+
+/**
+ * Service to interact with the configured language model provider.
  */
 @Injectable()
 export class LlmService {
-  private openai: any;
+  private readonly providers = new Map<LlmProviderName, LlmProvider>();
+  private readonly defaultProvider: LlmProviderName;
+  private readonly prices: PriceTable;
   private readonly logger = new Logger(LlmService.name);
 
   /**
-   * Initializes the LLM service with the OpenAI API key.
+   * Initializes the LLM service with the default provider from the LLM_PROVIDER
+   * environment variable and the price table from LLM_PRICES.
    */
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env['OPENAI_API_KEY'], // This is the default and can be omitted
-    });
+  constructor(private readonly metricsService: MetricsService) {
+    this.defaultProvider = this.resolveProviderName(
+      process.env['LLM_PROVIDER'] || 'openai',
+    );
+    this.prices = parsePriceTable(process.env['LLM_PRICES']);
   }
 
   /**
-   * Processes the given text using the OpenAI language model.
+   * Processes the given text using the selected language model provider.
    * @param {string} text - The text to be processed by the language model.
+   * @param {LlmRequestOptions} [options] - Per-request options such as the provider, system prompt, follow-up messages and the usage and token listeners.
    * @returns {Promise<any>} - A promise that resolves to the response from the language model.
    */
-  async processText(text: string): Promise<any> {
-    this.logger.log('Processing text with LLM service');
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        generateSystemPrompt(),
-        {
-          role: 'user',
-          content: text,
-        },
-      ],
-      temperature: 1,
-      top_p: 1,
-    });
-    return response.choices[0].message.content;
+  async processText(
+    text: string,
+    options: LlmRequestOptions = {},
+  ): Promise<any> {
+    const provider = this.getProvider(options.provider);
+    this.logger.log(`Processing text with LLM provider ${provider.name}`);
+    const start = performanceNow();
+    const endPhase = this.metricsService.startPhase('llm');
+    let completion: LlmCompletion;
+    try {
+      completion = await provider.complete(
+        [
+          options.systemPrompt ?? generateSystemPrompt(),
+          {
+            role: 'user',
+            content: text,
+          },
+          ...(options.followUp ?? []),
+        ],
+        options.onToken,
+      );
+    } catch (error) {
+      throw new LlmFailureException(
+        `LLM provider "${provider.name}" failed: ${error.message}`,
+      );
+    } finally {
+      endPhase();
+    }
+    options.onUsage?.(
+      this.describeUsage(
+        'text',
+        provider,
+        completion,
+        performanceNow() - start,
+      ),
+    );
+    return completion.content;
+  }
+
+  /**
+   * Asks a vision-capable provider to describe an image.
+   * @param {LlmImage} image - The image to describe.
+   * @param {string} prompt - The instruction sent along with the image.
+   * @param {LlmProviderName} [providerName] - The provider; defaults to the configured provider.
+   * @param {LlmUsageListener} [onUsage] - Callback receiving the usage of the call.
+   * @returns {Promise<LlmCompletion>} - A promise that resolves to the completion, including its token usage.
+   */
+  async describeImage(
+    image: LlmImage,
+    prompt: string,
+    providerName?: LlmProviderName,
+    onUsage?: LlmUsageListener,
+  ): Promise<LlmCompletion> {
+    const provider = this.getProvider(providerName);
+    if (!provider.supportsVision) {
+      throw new BadRequestException(
+        `LLM provider "${provider.name}" does not support image descriptions`,
+      );
+    }
+    this.logger.log(`Describing image with LLM provider ${provider.name}`);
+    const start = performanceNow();
+    const endPhase = this.metricsService.startPhase('llm');
+    const completion = await provider
+      .describeImage(image, prompt)
+      .finally(endPhase);
+    onUsage?.(
+      this.describeUsage(
+        'vision',
+        provider,
+        completion,
+        performanceNow() - start,
+      ),
+    );
+    return completion;
+  }
+
+  /**
+   * Checks that a provider's backend is reachable. Providers without a backend always pass.
+   * @param {LlmProviderName} [name] - The provider; defaults to the configured provider.
+   * @returns {Promise<void>} - A promise that resolves once the provider answered.
+   */
+  async ping(name?: LlmProviderName): Promise<void> {
+    await this.getProvider(name).ping?.();
+  }
+
+  /**
+   * Describes the usage of a call, pricing its tokens with the price table.
+   * Providers that do not report token counts are recorded with zero tokens.
+   * @param {LlmCallUsage['type']} type - Whether the call processed text or an image.
+   * @param {LlmProvider} provider - The provider that was called.
+   * @param {LlmCompletion} completion - The completion it returned.
+   * @param {number} latencyMs - How long the call took, in milliseconds.
+   * @returns {LlmCallUsage} - The usage of the call.
+   */
+  private describeUsage(
+    type: LlmCallUsage['type'],
+    provider: LlmProvider,
+    completion: LlmCompletion,
+    latencyMs: number,
+  ): LlmCallUsage {
+    const usage = completion.usage ?? { promptTokens: 0, completionTokens: 0 };
+    return {
+      type,
+      provider: provider.name,
+      model: completion.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      latencyMs: Math.round(latencyMs),
+      costUsd: estimateCost(this.prices, completion.model, usage),
+    };
+  }
+
+  /**
+   * Returns the provider with the given name, creating it on first use.
+   * @param {LlmProviderName} [name] - The provider name; defaults to the configured provider.
+   * @returns {LlmProvider} - The provider.
+   */
+  getProvider(name?: LlmProviderName): LlmProvider {
+    const providerName = name
+      ? this.resolveProviderName(name)
+      : this.defaultProvider;
+    if (!this.providers.has(providerName)) {
+      this.providers.set(providerName, this.createProvider(providerName));
+    }
+    return this.providers.get(providerName);
+  }
+
+  /**
+   * Creates a provider from its environment configuration.
+   * @param {LlmProviderName} name - The provider name.
+   * @returns {LlmProvider} - The new provider.
+   */
+  private createProvider(name: LlmProviderName): LlmProvider {
+    switch (name) {
+      case 'openai-compatible':
+        return OpenAiCompatibleProvider.fromEnv();
+      case 'heuristic':
+        return new HeuristicProvider();
+      default:
+        return OpenAiProvider.fromEnv();
+    }
+  }
+
+  /**
+   * Validates a provider name.
+   * @param {string} name - The provider name to validate.
+   * @returns {LlmProviderName} - The validated provider name.
+   */
+  private resolveProviderName(name: string): LlmProviderName {
+    if (!LLM_PROVIDER_NAMES.includes(name as LlmProviderName)) {
+      throw new BadRequestException(
+        `Unknown LLM provider "${name}". Expected one of: ${LLM_PROVIDER_NAMES.join(', ')}`,
+      );
+    }
+    return name as LlmProviderName;
   }
 }
@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { OutputValidatorService } from './output-validator.service';
+import { LlmService } from './llm.service';
+import { LlmFailureException } from '../common/errors/api-exceptions';
+
+describe('OutputValidatorService', () => {
+  let service: OutputValidatorService;
+  const llmService = { processText: jest.fn() };
+  const validDocument = {
+    title: 'Doc',
+    sections: [
+      {
+        header: 'Intro',
+        content: [{ type: 'text', description: '', value: 'Hello' }],
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    llmService.processText.mockReset();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutputValidatorService,
+        { provide: LlmService, useValue: llmService },
+      ],
+    }).compile();
+
+    service = module.get<OutputValidatorService>(OutputValidatorService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should accept valid output unchanged', async () => {
+    const result = await service.validateResponse(
+      JSON.stringify(validDocument),
+      'text',
+    );
+
+    expect(result).toEqual({
+      valid: true,
+      value: validDocument,
+      repaired: false,
+    });
+    expect(llmService.processText).not.toHaveBeenCalled();
+  });
+
+  it('should repair fenced output without calling the model again', async () => {
+    const result = await service.validateResponse(
+      '```json\n' + JSON.stringify(validDocument) + '\n```',
+      'text',
+    );
+
+    expect(result).toEqual({
+      valid: true,
+      value: validDocument,
+      repaired: true,
+    });
+    expect(llmService.processText).not.toHaveBeenCalled();
+  });
+
+  it('should validate against schemas that reuse an $id', async () => {
+    const schema = {
+      $id: 'https://example.com/product',
+      type: 'object',
+      required: ['name'],
+    };
+
+    const first = await service.validateResponse(
+      '{"name":"A"}',
+      'text',
+      {},
+      schema,
+    );
+    const copy = await service.validateResponse(
+      '{"name":"B"}',
+      'text',
+      {},
+      {
+        ...schema,
+      },
+    );
+    const changed = await service.validateResponse(
+      '{"name":"C"}',
+      'text',
+      {},
+      {
+        ...schema,
+        required: ['price'],
+      },
+    );
+
+    expect(first.valid).toBe(true);
+    expect(copy.valid).toBe(true);
+    expect(changed.valid).toBe(false);
+  });
+
+  it('should ask the model again with the validation errors', async () => {
+    llmService.processText.mockResolvedValue(JSON.stringify(validDocument));
+
+    const result = await service.validateResponse('{"title": 42}', 'text', {
+      provider: 'heuristic',
+    });
+
+    expect(result).toMatchObject({ valid: true, repaired: true });
+    expect(llmService.processText).toHaveBeenCalledWith(
+      'text',
+      expect.objectContaining({
+        provider: 'heuristic',
+        followUp: [
+          { role: 'assistant', content: '{"title": 42}' },
+          {
+            role: 'user',
+            content: expect.stringContaining('/title must be string'),
+          },
+        ],
+      }),
+    );
+  });
+
+  it('should report errors when the output cannot be repaired', async () => {
+    llmService.processText.mockResolvedValue('still not json');
+
+    const result = await service.validateResponse('not json', 'text');
+
+    expect(result).toMatchObject({ valid: false, raw: 'still not json' });
+  });
+
+  it('should report a failed repair request as a validation error', async () => {
+    llmService.processText.mockRejectedValue(
+      new LlmFailureException('LLM provider "openai" failed: timeout'),
+    );
+
+    const result = await service.validateResponse('{"title": 42}', 'text');
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        "/ must have required property 'sections'",
+        '/title must be string',
+        'LLM provider "openai" failed: timeout',
+      ],
+      raw: '{"title": 42}',
+    });
+  });
+});
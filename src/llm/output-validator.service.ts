@@ -0,0 +1,181 @@
+import { Injectable, Logger } from '@nestjs/common';
+import Ajv, { ValidateFunction } from 'ajv';
+import { createHash } from 'crypto';
+import { LlmRequestOptions, LlmService } from './llm.service';
+import { repairJson } from './json-repair';
+import { SECTIONS_SCHEMA } from '../common/schemas/sections.schema';
+import { LlmFailureException } from '../common/errors/api-exceptions';
+
+const DEFAULT_REPAIR_ATTEMPTS = 1;
+const MAX_CACHED_VALIDATORS = 100;
+
+/**
+ * Outcome of validating a model response. Valid outputs carry the parsed value,
+ * invalid ones the remaining errors and the last raw response.
+ */
+export interface ValidatedOutput {
+  valid: boolean;
+  value?: any;
+  repaired?: boolean;
+  errors?: string[];
+  raw?: string;
+}
+
+/**
+ * Validates model output against a JSON Schema and repairs it when possible:
+ * first syntactically (code fences, comments, truncation), then by asking the
+ * model again with the validation errors.
+ */
+@Injectable()
+export class OutputValidatorService {
+  private readonly logger = new Logger(OutputValidatorService.name);
+  private readonly ajv = new Ajv({ allErrors: true, strict: false });
+  private readonly validators = new Map<
+    string,
+    { schema: object; validate: ValidateFunction }
+  >();
+  private readonly repairAttempts: number;
+
+  /**
+   * Initializes the validator with the number of model repair attempts from the environment.
+   */
+  constructor(private readonly llmService: LlmService) {
+    this.repairAttempts = Number(
+      process.env['LLM_REPAIR_ATTEMPTS'] ?? DEFAULT_REPAIR_ATTEMPTS,
+    );
+  }
+
+  /**
+   * Validates the model response for a chunk, repairing it if necessary. When
+   * the model fails to answer a repair request, the output stays invalid and
+   * the failure is added to its errors.
+   * @param {string} response - The raw model response.
+   * @param {string} text - The chunk text the response was generated from, used when asking the model again.
+   * @param {LlmRequestOptions} [options] - Options for follow-up model requests.
+   * @param {object} [schema] - The JSON Schema the output must satisfy.
+   * @returns {Promise<ValidatedOutput>} - A promise that resolves to the validated output or the remaining errors.
+   */
+  async validateResponse(
+    response: string,
+    text: string,
+    options: LlmRequestOptions = {},
+    schema: object = SECTIONS_SCHEMA,
+  ): Promise<ValidatedOutput> {
+    let raw = response;
+    let result = this.check(raw, schema);
+
+    for (
+      let attempt = 1;
+      !result.valid && attempt <= this.repairAttempts;
+      attempt++
+    ) {
+      this.logger.warn(
+        `Invalid LLM output, asking the model to repair it (attempt ${attempt}): ${result.errors.join('; ')}`,
+      );
+      try {
+        raw = await this.llmService.processText(text, {
+          ...options,
+          followUp: [
+            { role: 'assistant', content: raw },
+            {
+              role: 'user',
+              content: `Your previous response was not valid: ${result.errors.join('; ')}. Reply again with only the complete, corrected JSON.`,
+            },
+          ],
+        });
+      } catch (error) {
+        if (!(error instanceof LlmFailureException)) {
+          throw error;
+        }
+        this.logger.error(`LLM repair request failed: ${error.message}`);
+        return { valid: false, errors: [...result.errors, error.message], raw };
+      }
+      result = this.check(raw, schema);
+    }
+
+    if (!result.valid) {
+      return { valid: false, errors: result.errors, raw };
+    }
+    return {
+      valid: true,
+      value: result.value,
+      repaired: raw !== response || result.repaired,
+    };
+  }
+
+  /**
+   * Parses and validates a response, applying syntactic repairs if the raw text is not valid.
+   * @param {string} raw - The raw model response.
+   * @param {object} schema - The JSON Schema the output must satisfy.
+   * @returns {ValidatedOutput} - The check result.
+   */
+  private check(raw: string, schema: object): ValidatedOutput {
+    const direct = this.validate(raw, schema);
+    if (direct.valid) {
+      return { ...direct, repaired: false };
+    }
+    const repaired = this.validate(repairJson(raw ?? ''), schema);
+    if (repaired.valid) {
+      this.logger.log('LLM output repaired syntactically');
+      return { ...repaired, repaired: true };
+    }
+    return direct.errors[0]?.startsWith('Invalid JSON') ? repaired : direct;
+  }
+
+  /**
+   * Parses a JSON string and validates it against the schema.
+   * @param {string} text - The JSON text.
+   * @param {object} schema - The JSON Schema.
+   * @returns {ValidatedOutput} - The validation result.
+   */
+  private validate(text: string, schema: object): ValidatedOutput {
+    let value: any;
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      return { valid: false, errors: [`Invalid JSON: ${error.message}`] };
+    }
+
+    const validator = this.getValidator(schema);
+    if (!validator(value)) {
+      return {
+        valid: false,
+        errors: validator.errors.map(
+          (error) => `${error.instancePath || '/'} ${error.message}`,
+        ),
+      };
+    }
+    return { valid: true, value };
+  }
+
+  /**
+   * Returns the compiled validator for a schema, compiling it on first use.
+   * Validators are cached by the hash of the schema, least recently used first
+   * out, and evicted schemas are removed from Ajv as well. A schema whose `$id`
+   * is already registered replaces the registered one.
+   * @param {object} schema - The JSON Schema.
+   * @returns {ValidateFunction} - The compiled validator.
+   */
+  private getValidator(schema: object): ValidateFunction {
+    const key = createHash('sha256')
+      .update(JSON.stringify(schema))
+      .digest('hex');
+    let entry = this.validators.get(key);
+    if (entry) {
+      this.validators.delete(key);
+    } else {
+      const id = (schema as { $id?: unknown }).$id;
+      if (typeof id === 'string') {
+        this.ajv.removeSchema(id);
+      }
+      entry = { schema, validate: this.ajv.compile(schema) };
+    }
+    this.validators.set(key, entry);
+    if (this.validators.size > MAX_CACHED_VALIDATORS) {
+      const [oldestKey, oldest] = this.validators.entries().next().value;
+      this.validators.delete(oldestKey);
+      this.ajv.removeSchema(oldest.schema);
+    }
+    return entry.validate;
+  }
+}
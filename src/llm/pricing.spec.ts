@@ -0,0 +1,29 @@
+import { DEFAULT_PRICES, estimateCost, parsePriceTable } from './pricing';
+
+describe('pricing', () => {
+  const usage = { promptTokens: 2_000_000, completionTokens: 1_000_000 };
+
+  it('should price dated model versions like their base model', () => {
+    const prices = parsePriceTable();
+
+    expect(estimateCost(prices, 'gpt-4o', usage)).toBe(15);
+    expect(estimateCost(prices, 'gpt-4o-2024-08-06', usage)).toBe(15);
+    expect(estimateCost(prices, 'gpt-4o-mini-2024-07-18', usage)).toBeCloseTo(
+      0.9,
+    );
+  });
+
+  it('should treat models without a price as free', () => {
+    expect(estimateCost(DEFAULT_PRICES, 'llama3', usage)).toBe(0);
+  });
+
+  it('should merge overrides into the default prices', () => {
+    const prices = parsePriceTable('{"llama3":{"input":0.1,"output":0.2}}');
+
+    expect(prices['llama3']).toEqual({ input: 0.1, output: 0.2 });
+    expect(prices['gpt-4o']).toEqual(DEFAULT_PRICES['gpt-4o']);
+    expect(() => parsePriceTable('{"llama3":{"input":"free"}}')).toThrow(
+      'LLM_PRICES must map "llama3"',
+    );
+  });
+});
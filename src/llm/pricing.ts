@@ -0,0 +1,84 @@
+import { LlmUsage } from './providers/llm-provider.interface';
+
+/**
+ * Price of a model in USD per million input and output tokens.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Prices by model name. A name also prices the dated versions of a model,
+ * e.g. `gpt-4o` applies to `gpt-4o-2024-08-06`.
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Prices used when LLM_PRICES does not override them. Models without a price,
+ * such as local models, are treated as free.
+ */
+export const DEFAULT_PRICES: PriceTable = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+};
+
+/**
+ * Builds the price table from the defaults and a JSON object of overrides.
+ * @param {string} [json] - JSON object mapping model names to `{ input, output }` prices.
+ * @returns {PriceTable} - The price table.
+ */
+export function parsePriceTable(json?: string): PriceTable {
+  if (!json) {
+    return { ...DEFAULT_PRICES };
+  }
+  const overrides = JSON.parse(json);
+  for (const [model, price] of Object.entries<ModelPrice>(overrides)) {
+    if (typeof price?.input !== 'number' || typeof price?.output !== 'number') {
+      throw new Error(
+        `LLM_PRICES must map "${model}" to numeric "input" and "output" prices`,
+      );
+    }
+  }
+  return { ...DEFAULT_PRICES, ...overrides };
+}
+
+/**
+ * Estimates the cost of a completion from its token usage.
+ * @param {PriceTable} prices - The price table.
+ * @param {string} model - The model that produced the completion.
+ * @param {LlmUsage} usage - The token usage.
+ * @returns {number} - The cost in USD, 0 for models without a price.
+ */
+export function estimateCost(
+  prices: PriceTable,
+  model: string,
+  usage: LlmUsage,
+): number {
+  const price = findPrice(prices, model);
+  if (!price) {
+    return 0;
+  }
+  return (
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Looks up the price of a model, falling back to the longest model name it starts with.
+ * @param {PriceTable} prices - The price table.
+ * @param {string} model - The model name.
+ * @returns {ModelPrice | undefined} - The price, or undefined if the model has none.
+ */
+function findPrice(prices: PriceTable, model: string): ModelPrice | undefined {
+  if (prices[model]) {
+    return prices[model];
+  }
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix && prices[prefix];
+}
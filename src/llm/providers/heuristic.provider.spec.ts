@@ -0,0 +1,88 @@
+import { HeuristicProvider } from './heuristic.provider';
+
+describe('HeuristicProvider', () => {
+  const provider = new HeuristicProvider();
+
+  it('should use image captions as descriptions', async () => {
+    const completion = await provider.complete([
+      { role: 'user', content: '[IMAGE:image_1.png | A bar chart of sales]' },
+    ]);
+
+    expect(JSON.parse(completion.content).sections[0].content).toEqual([
+      {
+        type: 'image',
+        description: 'A bar chart of sales',
+        value: 'image_1.png',
+      },
+    ]);
+  });
+
+  it('should split text into sections with images and tables', async () => {
+    const completion = await provider.complete([
+      { role: 'system', content: 'ignored' },
+      {
+        role: 'user',
+        content: [
+          'Getting started',
+          'Install the package first.',
+          '[IMAGE:image_1.jpg]',
+          'Configuration',
+          '[TABLE:table_1.txt]',
+        ].join('\n'),
+      },
+    ]);
+
+    expect(JSON.parse(completion.content)).toEqual({
+      title: 'Getting started',
+      sections: [
+        {
+          header: 'Getting started',
+          content: [
+            {
+              type: 'text',
+              description: '',
+              value: 'Install the package first.',
+            },
+            {
+              type: 'image',
+              description: 'Image image_1.jpg',
+              value: 'image_1.jpg',
+            },
+          ],
+        },
+        {
+          header: 'Configuration',
+          content: [
+            {
+              type: 'table',
+              description: 'Table table_1.txt',
+              value: 'table_1.txt',
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should be deterministic', async () => {
+    const messages = [{ role: 'user' as const, content: 'A\nB.\nC\nD.' }];
+
+    const first = await provider.complete(messages);
+    const second = await provider.complete(messages);
+
+    expect(first.content).toBe(second.content);
+  });
+
+  it('should use the heading context for leading content', async () => {
+    const completion = await provider.complete([
+      { role: 'user', content: '[CONTEXT: Guide > Install]\nRun it.' },
+    ]);
+
+    expect(JSON.parse(completion.content).sections).toEqual([
+      {
+        header: 'Install',
+        content: [{ type: 'text', description: '', value: 'Run it.' }],
+      },
+    ]);
+  });
+});
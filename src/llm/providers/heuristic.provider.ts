@@ -0,0 +1,101 @@
+import {
+  LlmCompletion,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderName,
+} from './llm-provider.interface';
+
+const MAX_HEADER_LENGTH = 80;
+const PLACEHOLDER_PATTERN = /^\[(IMAGE|TABLE):\s*(.+)\]$/;
+const CONTEXT_PATTERN = /^\[CONTEXT:\s*(.+)\]$/;
+const CAPTION_SEPARATOR = ' | ';
+
+/**
+ * Deterministic provider that builds the sections JSON from the extracted text
+ * with simple rules, without calling any model. Short lines without closing
+ * punctuation are treated as section headers.
+ */
+export class HeuristicProvider implements LlmProvider {
+  readonly name: LlmProviderName = 'heuristic';
+  readonly maxChunkTokens =
+    Number(process.env['HEURISTIC_CHUNK_TOKENS']) || 2000;
+  readonly supportsVision = false;
+
+  /**
+   * Structures the text of the first user message.
+   * @param {LlmMessage[]} messages - The messages; only the first user message is used.
+   * @returns {Promise<LlmCompletion>} - A promise that resolves to the completion.
+   */
+  async complete(messages: LlmMessage[]): Promise<LlmCompletion> {
+    const text =
+      messages.find((message) => message.role === 'user')?.content ?? '';
+    return {
+      content: JSON.stringify(this.structure(text)),
+      model: this.name,
+      usage: { promptTokens: 0, completionTokens: 0 },
+    };
+  }
+
+  /**
+   * Splits the text into a title and sections.
+   * @param {string} text - The extracted text.
+   * @returns {any} - The structured document.
+   */
+  private structure(text: string): any {
+    const lines = text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0);
+
+    const sections: any[] = [];
+    let title = '';
+    let current = { header: '', content: [] };
+
+    lines.forEach((line, index) => {
+      const placeholder = line.match(PLACEHOLDER_PATTERN);
+      const context = line.match(CONTEXT_PATTERN);
+      if (context && index === 0) {
+        current.header = context[1].split(' > ').pop();
+      } else if (placeholder) {
+        const type = placeholder[1].toLowerCase();
+        const [value, caption] = placeholder[2].split(CAPTION_SEPARATOR);
+        current.content.push({
+          type,
+          description:
+            caption ?? `${type === 'image' ? 'Image' : 'Table'} ${value}`,
+          value,
+        });
+      } else if (this.isHeader(line, lines[index + 1])) {
+        if (!title) {
+          title = line;
+        }
+        if (current.header || current.content.length > 0) {
+          sections.push(current);
+        }
+        current = { header: line, content: [] };
+      } else {
+        current.content.push({ type: 'text', description: '', value: line });
+      }
+    });
+
+    if (current.header || current.content.length > 0) {
+      sections.push(current);
+    }
+    return { title, sections };
+  }
+
+  /**
+   * Decides whether a line looks like a header.
+   * @param {string} line - The line to check.
+   * @param {string} [nextLine] - The line that follows it.
+   * @returns {boolean} - True if the line looks like a header.
+   */
+  private isHeader(line: string, nextLine?: string): boolean {
+    return (
+      line.length <= MAX_HEADER_LENGTH &&
+      !/[.!?,;:]$/.test(line) &&
+      nextLine !== undefined &&
+      !PLACEHOLDER_PATTERN.test(line)
+    );
+  }
+}
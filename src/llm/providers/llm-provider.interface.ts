@@ -0,0 +1,86 @@
+/**
+ * Names of the available LLM providers.
+ */
+export const LLM_PROVIDER_NAMES = [
+  'openai',
+  'openai-compatible',
+  'heuristic',
+] as const;
+
+export type LlmProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+/**
+ * A chat message sent to a provider.
+ */
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Token counts reported by a provider for one completion.
+ */
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Usage of a single LLM call: its token counts, the model that answered, how
+ * long the call took and its estimated cost.
+ */
+export interface LlmCallUsage extends LlmUsage {
+  type: 'text' | 'vision';
+  provider: LlmProviderName;
+  model: string;
+  latencyMs: number;
+  costUsd: number;
+}
+
+/**
+ * Callback invoked with the usage of every LLM call.
+ */
+export type LlmUsageListener = (usage: LlmCallUsage) => void;
+
+/**
+ * Callback invoked with each piece of text a provider streams.
+ */
+export type LlmTokenListener = (content: string) => void;
+
+/**
+ * The result of a single completion call.
+ */
+export interface LlmCompletion {
+  content: string;
+  model: string;
+  usage?: LlmUsage;
+}
+
+/**
+ * An image sent to a vision-capable provider.
+ */
+export interface LlmImage {
+  content: Buffer;
+  contentType: string;
+}
+
+/**
+ * A backend capable of turning chat messages into a completion.
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  /** Token budget for the text of a single chunk sent to this provider. */
+  readonly maxChunkTokens: number;
+  /** Whether `describeImage` can be used with this provider. */
+  readonly supportsVision: boolean;
+  /** The model `describeImage` uses. */
+  readonly visionModel?: string;
+  /** Providers that can stream pass the generated text to `onToken` as it arrives. */
+  complete(
+    messages: LlmMessage[],
+    onToken?: LlmTokenListener,
+  ): Promise<LlmCompletion>;
+  describeImage?(image: LlmImage, prompt: string): Promise<LlmCompletion>;
+  /** Checks that the backend is reachable; providers without a backend omit it. */
+  ping?(): Promise<void>;
+}
@@ -0,0 +1,28 @@
+import { OpenAiProvider } from './openai.provider';
+import { LlmProviderName } from './llm-provider.interface';
+
+/**
+ * Provider for any server exposing an OpenAI-compatible API, such as Ollama, vLLM or llama.cpp.
+ */
+export class OpenAiCompatibleProvider extends OpenAiProvider {
+  readonly name: LlmProviderName = 'openai-compatible';
+
+  /**
+   * Creates the provider from the LLM_COMPAT_* environment variables.
+   * @returns {OpenAiCompatibleProvider} - The configured provider.
+   */
+  static fromEnv(): OpenAiCompatibleProvider {
+    return new OpenAiCompatibleProvider({
+      // Local servers usually ignore the key, but the client refuses to start without one.
+      apiKey: process.env['LLM_COMPAT_API_KEY'] || 'not-needed',
+      baseURL:
+        process.env['LLM_COMPAT_BASE_URL'] || 'http://localhost:11434/v1',
+      model: process.env['LLM_COMPAT_MODEL'] || 'llama3',
+      // Vision stays disabled unless a multimodal model (e.g. llava) is configured.
+      visionModel: process.env['LLM_COMPAT_VISION_MODEL'],
+      temperature: Number(process.env['LLM_COMPAT_TEMPERATURE'] ?? 0),
+      timeoutMs: Number(process.env['LLM_COMPAT_TIMEOUT_MS']) || 120000,
+      maxChunkTokens: Number(process.env['LLM_COMPAT_CHUNK_TOKENS']) || 1000,
+    });
+  }
+}
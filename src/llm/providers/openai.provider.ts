@@ -0,0 +1,191 @@
+import { OpenAI } from 'openai';
+import {
+  LlmCompletion,
+  LlmImage,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderName,
+  LlmTokenListener,
+} from './llm-provider.interface';
+
+/**
+ * Settings for an OpenAI API client.
+ */
+export interface OpenAiProviderSettings {
+  apiKey?: string;
+  baseURL?: string;
+  model: string;
+  visionModel?: string;
+  temperature: number;
+  timeoutMs: number;
+  maxChunkTokens: number;
+}
+
+/**
+ * Provider backed by the OpenAI chat completions API.
+ */
+export class OpenAiProvider implements LlmProvider {
+  readonly name: LlmProviderName = 'openai';
+  private client: OpenAI;
+
+  constructor(protected readonly settings: OpenAiProviderSettings) {}
+
+  get maxChunkTokens(): number {
+    return this.settings.maxChunkTokens;
+  }
+
+  get supportsVision(): boolean {
+    return Boolean(this.settings.visionModel);
+  }
+
+  get visionModel(): string | undefined {
+    return this.settings.visionModel;
+  }
+
+  /**
+   * Creates the provider from the OPENAI_* environment variables.
+   * @returns {OpenAiProvider} - The configured provider.
+   */
+  static fromEnv(): OpenAiProvider {
+    return new OpenAiProvider({
+      apiKey: process.env['OPENAI_API_KEY'],
+      model: process.env['OPENAI_MODEL'] || 'gpt-4o',
+      visionModel:
+        process.env['OPENAI_VISION_MODEL'] ||
+        process.env['OPENAI_MODEL'] ||
+        'gpt-4o',
+      temperature: Number(process.env['OPENAI_TEMPERATURE'] ?? 1),
+      timeoutMs: Number(process.env['OPENAI_TIMEOUT_MS']) || 60000,
+      maxChunkTokens: Number(process.env['OPENAI_CHUNK_TOKENS']) || 2000,
+    });
+  }
+
+  /**
+   * Sends the messages to the chat completions endpoint.
+   * @param {LlmMessage[]} messages - The messages to send.
+   * @param {LlmTokenListener} [onToken] - Receives the generated text as it is streamed.
+   * @returns {Promise<LlmCompletion>} - A promise that resolves to the completion.
+   */
+  async complete(
+    messages: LlmMessage[],
+    onToken?: LlmTokenListener,
+  ): Promise<LlmCompletion> {
+    if (onToken) {
+      return this.completeStreaming(messages, onToken);
+    }
+    const response = await this.getClient().chat.completions.create({
+      model: this.settings.model,
+      messages,
+      temperature: this.settings.temperature,
+      top_p: 1,
+    });
+    return this.toCompletion(response, this.settings.model);
+  }
+
+  /**
+   * Streams a completion, passing every piece of content to the listener and
+   * collecting the full text and the usage reported with the last chunk.
+   * @param {LlmMessage[]} messages - The messages to send.
+   * @param {LlmTokenListener} onToken - Receives the generated text as it is streamed.
+   * @returns {Promise<LlmCompletion>} - A promise that resolves to the completion.
+   */
+  private async completeStreaming(
+    messages: LlmMessage[],
+    onToken: LlmTokenListener,
+  ): Promise<LlmCompletion> {
+    const stream = await this.getClient().chat.completions.create({
+      model: this.settings.model,
+      messages,
+      temperature: this.settings.temperature,
+      top_p: 1,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    const completion: LlmCompletion = {
+      content: '',
+      model: this.settings.model,
+    };
+    for await (const chunk of stream) {
+      completion.model = chunk.model ?? completion.model;
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) {
+        completion.content += content;
+        onToken(content);
+      }
+      if (chunk.usage) {
+        completion.usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+        };
+      }
+    }
+    return completion;
+  }
+
+  /**
+   * Asks the vision model about an image, sent inline as a data URI.
+   * @param {LlmImage} image - The image.
+   * @param {string} prompt - The instruction sent along with the image.
+   * @returns {Promise<LlmCompletion>} - A promise that resolves to the completion.
+   */
+  async describeImage(image: LlmImage, prompt: string): Promise<LlmCompletion> {
+    const url = `data:${image.contentType};base64,${image.content.toString('base64')}`;
+    const response = await this.getClient().chat.completions.create({
+      model: this.settings.visionModel,
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: prompt },
+            { type: 'image_url', image_url: { url, detail: 'low' } },
+          ],
+        },
+      ],
+      temperature: this.settings.temperature,
+    });
+    return this.toCompletion(response, this.settings.visionModel);
+  }
+
+  /**
+   * Checks that the API is reachable and accepts the credentials by listing the models.
+   * @returns {Promise<void>} - A promise that resolves once the API answered.
+   */
+  async ping(): Promise<void> {
+    await this.getClient().models.list();
+  }
+
+  /**
+   * Converts an API response into a completion.
+   * @param {OpenAI.Chat.ChatCompletion} response - The API response.
+   * @param {string} model - The requested model, used when the response does not name one.
+   * @returns {LlmCompletion} - The completion.
+   */
+  private toCompletion(
+    response: OpenAI.Chat.ChatCompletion,
+    model: string,
+  ): LlmCompletion {
+    return {
+      content: response.choices[0].message.content,
+      model: response.model ?? model,
+      usage: response.usage && {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens,
+      },
+    };
+  }
+
+  /**
+   * Lazily creates the API client so that missing credentials only fail when the provider is used.
+   * @returns {OpenAI} - The API client.
+   */
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: this.settings.apiKey,
+        baseURL: this.settings.baseURL,
+        timeout: this.settings.timeoutMs,
+      });
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,17 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+
+let encoding: Tiktoken;
+
+/**
+ * Counts the model tokens in a text. The o200k encoding used by current OpenAI
+ * models also serves as an estimate for other providers.
+ * @param {string} text - The text to measure.
+ * @returns {number} - The number of tokens.
+ */
+export function countTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+  encoding ??= getEncoding('o200k_base');
+  return encoding.encode(text).length;
+}
@@ -1,4 +1,5 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { DateTime } from 'luxon';
@@ -8,6 +9,8 @@ import {
   WinstonModule,
 } from 'nest-winston';
 import * as dotenv from 'dotenv';
+import { correlationIdFormat } from './common/tracing/correlation-id.format';
+import { configureBodyParser } from './common/http/body-parser';
 
 dotenv.config();
 
@@ -20,6 +23,7 @@ async function bootstrap() {
     transports: [
       new winston.transports.Console({
         format: winston.format.combine(
+          correlationIdFormat(),
           winston.format.timestamp({
             format: () => DateTime.utc().toFormat("yyyy-MM-dd'T'HH:mm:ss.SSSZ"),
           }),
@@ -33,16 +37,20 @@ async function bootstrap() {
     ],
   });
 
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     logger: WinstonModule.createLogger({
       instance,
     }),
   });
 
+  app.enableShutdownHooks();
+  configureBodyParser(app);
+
   const config = new DocumentBuilder()
     .setTitle('API Documentation')
     .setDescription('The API description')
     .setVersion('1.0')
+    .addApiKey({ type: 'apiKey', name: 'X-API-Key', in: 'header' }, 'api-key')
     .build();
   const document = SwaggerModule.createDocument(app, config);
   SwaggerModule.setup('api', app, document);
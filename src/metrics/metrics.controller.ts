@@ -0,0 +1,25 @@
+import { Controller, Get, Header, Res } from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import { Response } from 'express';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Controller exposing the Prometheus metrics.
+ */
+@ApiExcludeController()
+@Controller('/metrics')
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  /**
+   * Endpoint scraped by Prometheus.
+   * @param {Response} res - The response, used to set the exposition content type.
+   * @returns {Promise<string>} - A promise that resolves to the metrics in the Prometheus text format.
+   */
+  @Get()
+  @Header('Cache-Control', 'no-store')
+  async getMetrics(@Res({ passthrough: true }) res: Response): Promise<string> {
+    res.type(this.metricsService.contentType);
+    return this.metricsService.getMetrics();
+  }
+}
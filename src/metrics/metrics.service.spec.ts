@@ -0,0 +1,44 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MetricsService } from './metrics.service';
+
+describe('MetricsService', () => {
+  let service: MetricsService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [MetricsService],
+    }).compile();
+
+    service = module.get<MetricsService>(MetricsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should expose scan, phase and chunk metrics in the Prometheus format', async () => {
+    service.recordScan('success');
+    service.recordScan('success');
+    service.startPhase('navigate')();
+    service.recordChunks(3, 1);
+
+    const metrics = await service.getMetrics();
+
+    expect(service.contentType).toContain('text/plain');
+    expect(metrics).toContain('scanner_scans_total{outcome="success"} 2');
+    expect(metrics).toContain(
+      'scanner_phase_duration_seconds_count{phase="navigate"} 1',
+    );
+    expect(metrics).toContain('scanner_chunks_total{source="llm"} 3');
+    expect(metrics).toContain('scanner_chunks_total{source="cache"} 1');
+    expect(metrics).toContain('scanner_process_cpu_seconds_total');
+  });
+
+  it('should read gauges when the metrics are collected', async () => {
+    let depth = 1;
+    service.registerGauge('queue_depth', 'Queued items', () => depth);
+    depth = 4;
+
+    expect(await service.getMetrics()).toContain('scanner_queue_depth 4');
+  });
+});
@@ -0,0 +1,127 @@
+import { Injectable } from '@nestjs/common';
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from 'prom-client';
+
+const METRIC_PREFIX = 'scanner_';
+
+/**
+ * Outcomes a scan is counted under.
+ */
+export type ScanOutcome = 'success' | 'cached' | 'failed';
+
+/**
+ * Phases whose latency is measured: acquiring a browser page, loading the page,
+ * parsing and scoping the HTML, splitting it into chunks, and each LLM call.
+ */
+export type ScanMetricPhase =
+  | 'launch'
+  | 'navigate'
+  | 'extract'
+  | 'chunk'
+  | 'llm';
+
+/**
+ * Holds the Prometheus metrics of the service in its own registry, together
+ * with the default Node.js process metrics.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly registry = new Registry();
+  private readonly scans: Counter<'outcome'>;
+  private readonly phaseDuration: Histogram<'phase'>;
+  private readonly chunks: Counter<'source'>;
+
+  /**
+   * Registers the metrics.
+   */
+  constructor() {
+    collectDefaultMetrics({ register: this.registry, prefix: METRIC_PREFIX });
+    this.scans = new Counter({
+      name: `${METRIC_PREFIX}scans_total`,
+      help: 'Scans by outcome',
+      labelNames: ['outcome'],
+      registers: [this.registry],
+    });
+    this.phaseDuration = new Histogram({
+      name: `${METRIC_PREFIX}phase_duration_seconds`,
+      help: 'Duration of the scan phases in seconds',
+      labelNames: ['phase'],
+      buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+      registers: [this.registry],
+    });
+    this.chunks = new Counter({
+      name: `${METRIC_PREFIX}chunks_total`,
+      help: 'Chunks extracted by the LLM or served from the chunk cache',
+      labelNames: ['source'],
+      registers: [this.registry],
+    });
+  }
+
+  /**
+   * The content type of the metrics exposition.
+   * @returns {string} - The content type.
+   */
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  /**
+   * Counts a finished scan.
+   * @param {ScanOutcome} outcome - How the scan ended.
+   */
+  recordScan(outcome: ScanOutcome) {
+    this.scans.inc({ outcome });
+  }
+
+  /**
+   * Starts measuring a phase.
+   * @param {ScanMetricPhase} phase - The phase.
+   * @returns {() => void} - Ends the measurement and records its duration.
+   */
+  startPhase(phase: ScanMetricPhase): () => void {
+    const end = this.phaseDuration.startTimer({ phase });
+    return () => {
+      end();
+    };
+  }
+
+  /**
+   * Counts the chunks of a scan.
+   * @param {number} processed - Chunks sent to the LLM.
+   * @param {number} cached - Chunks served from the chunk cache.
+   */
+  recordChunks(processed: number, cached: number) {
+    this.chunks.inc({ source: 'llm' }, processed);
+    this.chunks.inc({ source: 'cache' }, cached);
+  }
+
+  /**
+   * Registers a gauge whose value is read whenever the metrics are collected.
+   * @param {string} name - The metric name, without the service prefix.
+   * @param {string} help - The metric description.
+   * @param {() => number} read - Returns the current value.
+   */
+  registerGauge(name: string, help: string, read: () => number) {
+    new Gauge({
+      name: `${METRIC_PREFIX}${name}`,
+      help,
+      registers: [this.registry],
+      collect() {
+        this.set(read());
+      },
+    });
+  }
+
+  /**
+   * Renders all metrics in the Prometheus text format.
+   * @returns {Promise<string>} - A promise that resolves to the exposition.
+   */
+  getMetrics(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
@@ -0,0 +1,81 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { parse } from 'node-html-parser';
+import { ChunkerService } from './chunker.service';
+
+const paragraph = (words: number) =>
+  `<p>${Array.from({ length: words }, (_, i) => `word${i}`).join(' ')}.</p>`;
+
+describe('ChunkerService', () => {
+  let service: ChunkerService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ChunkerService],
+    }).compile();
+
+    service = module.get<ChunkerService>(ChunkerService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should measure text instead of markup', () => {
+    const noisy = `<div class="${'x'.repeat(5000)}"><p>Short text.</p></div>`;
+
+    const chunks = service.chunk(parse(noisy), 50);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].tokens).toBeLessThan(10);
+  });
+
+  it('should recurse into oversized nodes and keep chunks within budget', () => {
+    const html = `<div>${Array.from({ length: 6 }, () => paragraph(40)).join('')}</div>`;
+
+    const chunks = service.chunk(parse(html), 150);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.tokens).toBeLessThanOrEqual(150);
+    }
+  });
+
+  it('should never split tables or lists', () => {
+    const list = `<ul>${Array.from({ length: 30 }, (_, i) => `<li>Item number ${i}</li>`).join('')}</ul>`;
+
+    const chunks = service.chunk(
+      parse(`<div>${paragraph(5)}${list}</div>`),
+      40,
+    );
+
+    const listChunks = chunks.filter((chunk) =>
+      chunk.element.querySelector('ul'),
+    );
+    expect(listChunks).toHaveLength(1);
+    expect(listChunks[0].element.querySelectorAll('li')).toHaveLength(30);
+  });
+
+  it('should carry the nearest heading context into each chunk', () => {
+    const html = `
+      <h1>Guide</h1>
+      <h2>Install</h2>${paragraph(25)}${paragraph(25)}
+      <h2>Usage</h2>${paragraph(25)}`;
+
+    const chunks = service.chunk(parse(html), 100);
+
+    expect(chunks.map((chunk) => chunk.headings)).toEqual([
+      [],
+      ['Guide', 'Install'],
+      ['Guide', 'Usage'],
+    ]);
+  });
+
+  it('should skip scripts and styles', () => {
+    const chunks = service.chunk(
+      parse('<script>var a = 1;</script><style>p {}</style>'),
+      100,
+    );
+
+    expect(chunks).toHaveLength(0);
+  });
+});
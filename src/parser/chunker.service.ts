@@ -0,0 +1,152 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { parse, HTMLElement } from 'node-html-parser';
+import { countTokens } from '../llm/tokenizer';
+
+const TEXT_TYPE_NODE = 3;
+const PLACEHOLDER_TOKENS = 12;
+const SKIPPED_TAGS = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD'];
+const ATOMIC_TAGS = ['TABLE', 'UL', 'OL', 'DL', 'PRE'];
+const HEADING_PATTERN = /^H([1-6])$/;
+
+/**
+ * A part of the document small enough to be sent to the model in one request.
+ */
+export interface HtmlChunk {
+  element: HTMLElement;
+  tokens: number;
+  /** Headings the chunk is nested under, outermost first. */
+  headings: string[];
+}
+
+/**
+ * Splits parsed HTML into chunks that fit a token budget. Sizes are measured on the
+ * text that is actually sent to the model, oversized nodes are split along their
+ * children, and tables and lists are never split.
+ */
+@Injectable()
+export class ChunkerService {
+  private readonly logger = new Logger(ChunkerService.name);
+
+  /**
+   * Chunks the HTML content.
+   * @param {HTMLElement} root - The parsed HTML root.
+   * @param {number} maxTokens - The token budget per chunk.
+   * @returns {HtmlChunk[]} - The chunks in document order.
+   */
+  chunk(root: HTMLElement, maxTokens: number): HtmlChunk[] {
+    const chunks: HtmlChunk[] = [];
+    const headings: string[] = [];
+    let current = this.createChunk(headings);
+
+    const add = (node: any, tokens: number) => {
+      if (current.tokens + tokens > maxTokens && current.tokens > 0) {
+        chunks.push(current);
+        const level = this.getHeadingLevel(node);
+        current = this.createChunk(
+          level ? headings.slice(0, level - 1) : headings,
+        );
+      }
+      current.element.appendChild(parse(node.toString()));
+      current.tokens += tokens;
+      this.trackHeadings(node, headings);
+    };
+
+    const visit = (node: any) => {
+      if (SKIPPED_TAGS.includes(node.tagName)) {
+        return;
+      }
+      const tokens = this.measure(node);
+      if (tokens === 0) {
+        return;
+      }
+      const isSplittable =
+        node.nodeType !== TEXT_TYPE_NODE &&
+        !ATOMIC_TAGS.includes(node.tagName) &&
+        node.childNodes.length > 0;
+      if (tokens <= maxTokens || !isSplittable) {
+        add(node, tokens);
+      } else {
+        node.childNodes.forEach(visit);
+      }
+    };
+
+    const body = root.querySelector('body') ?? root;
+    body.childNodes.forEach(visit);
+    if (current.tokens > 0) {
+      chunks.push(current);
+    }
+
+    this.logger.log(
+      `Split content into ${chunks.length} chunks of at most ${maxTokens} tokens`,
+    );
+    return chunks;
+  }
+
+  /**
+   * Measures the tokens a node contributes to the model input: its text, plus a
+   * fixed cost for each image and table placeholder.
+   * @param {any} node - The node to measure.
+   * @returns {number} - The number of tokens.
+   */
+  private measure(node: any): number {
+    let placeholders = 0;
+    const collectText = (current: any): string => {
+      if (current.nodeType === TEXT_TYPE_NODE) {
+        return current.rawText;
+      }
+      if (SKIPPED_TAGS.includes(current.tagName)) {
+        return '';
+      }
+      if (current.tagName === 'TABLE' || current.tagName === 'IMG') {
+        placeholders++;
+        return ' ';
+      }
+      return current.childNodes.map(collectText).join(' ');
+    };
+
+    const text = collectText(node).replace(/\s+/g, ' ').trim();
+    return countTokens(text) + placeholders * PLACEHOLDER_TOKENS;
+  }
+
+  /**
+   * Updates the heading stack with the headings found in a node.
+   * @param {any} node - The node that was added to a chunk.
+   * @param {string[]} headings - The heading stack, indexed by heading level.
+   */
+  private trackHeadings(node: any, headings: string[]) {
+    if (node.nodeType === TEXT_TYPE_NODE) {
+      return;
+    }
+    const found = this.getHeadingLevel(node)
+      ? [node]
+      : node.querySelectorAll('h1, h2, h3, h4, h5, h6');
+    for (const heading of found) {
+      const level = this.getHeadingLevel(heading);
+      headings.length = level - 1;
+      headings[level - 1] = heading.text.replace(/\s+/g, ' ').trim();
+    }
+  }
+
+  /**
+   * Returns the level of a heading element.
+   * @param {any} node - The node to check.
+   * @returns {number} - The heading level, or 0 if the node is not a heading.
+   */
+  private getHeadingLevel(node: any): number {
+    const match = HEADING_PATTERN.exec(node.tagName ?? '');
+    return match ? Number(match[1]) : 0;
+  }
+
+  /**
+   * Creates an empty chunk.
+   * @param {string[]} headings - The heading context of the chunk.
+   * @returns {HtmlChunk} - The new chunk.
+   */
+  private createChunk(headings: string[]): HtmlChunk {
+    return {
+      element: parse('<div></div>'),
+      tokens: 0,
+      headings: headings.filter(Boolean),
+    };
+  }
+}
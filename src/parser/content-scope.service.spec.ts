@@ -0,0 +1,95 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { parse } from 'node-html-parser';
+import { ContentScopeService } from './content-scope.service';
+
+describe('ContentScopeService', () => {
+  let service: ContentScopeService;
+  const detect = { detectMainContent: true };
+  const paragraph = (text: string) =>
+    `<p>${text}, with enough words, commas, and detail to count as real content.</p>`;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ContentScopeService],
+    }).compile();
+
+    service = module.get<ContentScopeService>(ContentScopeService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should keep only the included elements and the title', () => {
+    const root = parse(
+      '<head><title>Docs</title></head><body><div id="a">A</div><p>Skip</p><div class="b">B</div></body>',
+    );
+
+    const scoped = service.scope(root, { includeSelectors: ['.b', '#a'] });
+
+    expect(scoped.toString()).toBe(
+      '<head><title>Docs</title></head><div id="a">A</div><div class="b">B</div>',
+    );
+  });
+
+  it('should remove excluded elements', () => {
+    const root = parse('<main><p>Keep</p><div class="ad">Ad</div></main>');
+
+    const scoped = service.scope(root, { excludeSelectors: ['.ad'] });
+
+    expect(scoped.toString()).toBe('<main><p>Keep</p></main>');
+  });
+
+  it('should keep the whole document unless main content detection is requested', () => {
+    const root = parse(
+      '<nav><a href="/">Home</a></nav><main><p>Text</p></main>',
+    );
+
+    expect(service.scope(root).toString()).toBe(
+      '<nav><a href="/">Home</a></nav><main><p>Text</p></main>',
+    );
+  });
+
+  it('should use the main landmark when present', () => {
+    const root = parse(
+      '<nav><a href="/">Home</a></nav><main><h1>Guide</h1><p>Text</p></main><footer>(c)</footer>',
+    );
+
+    expect(service.scope(root, detect).toString()).toBe(
+      '<main><h1>Guide</h1><p>Text</p></main>',
+    );
+  });
+
+  it('should score blocks when there is no landmark', () => {
+    const root = parse(
+      [
+        '<div class="header-links"><a href="/a">A</a> <a href="/b">B</a></div>',
+        '<div id="cookie-banner"><p>We use cookies, to improve, your experience on this site.</p></div>',
+        `<div class="content"><h2>Install</h2>${paragraph('First')}${paragraph('Second')}</div>`,
+        `<div class="related-links"><a href="/x">${'Other page, '.repeat(5)}</a></div>`,
+      ].join(''),
+    );
+
+    const scoped = service.scope(root, detect).toString();
+
+    expect(scoped).toContain('<h2>Install</h2>');
+    expect(scoped).not.toContain('cookies');
+    expect(scoped).not.toContain('Other page');
+    expect(scoped).not.toContain('header-links');
+  });
+
+  it('should keep the whole document when nothing stands out', () => {
+    const root = parse('<h1>Title</h1><p>Short</p>');
+
+    expect(service.scope(root, detect).toString()).toBe(
+      '<h1>Title</h1><p>Short</p>',
+    );
+  });
+
+  it('should reject invalid selectors', () => {
+    expect(() =>
+      service.scope(parse('<p></p>'), { includeSelectors: ['p[['] }),
+    ).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,277 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { HTMLElement, parse } from 'node-html-parser';
+import { ContentScopeOptions } from './interfaces/parse-options.interface';
+
+const BOILERPLATE_TAGS = ['NAV', 'FOOTER', 'ASIDE', 'DIALOG'];
+const BOILERPLATE_ROLES = [
+  'navigation',
+  'banner',
+  'contentinfo',
+  'complementary',
+  'dialog',
+  'alertdialog',
+];
+const BOILERPLATE_PATTERN =
+  /(^|[\s_-])(cookie|consent|gdpr|banner|sidebar|footer|navbar|nav|menu|breadcrumbs?|share|social|advert|ads?|promo|newsletter|popup|modal|related|comments?)($|[\s_-])/i;
+const POSITIVE_PATTERN =
+  /article|body|content|entry|main|page|post|text|blog|story|docs?/i;
+const NEGATIVE_PATTERN =
+  /comment|meta|footer|footnote|sidebar|widget|sponsor|related|shopping|tags/i;
+const SCORED_SELECTOR = 'p, pre, td, blockquote, li, dd';
+const MIN_SCORED_TEXT_LENGTH = 25;
+const MIN_SIBLING_SCORE = 10;
+const SIBLING_SCORE_RATIO = 0.2;
+
+/**
+ * Narrows a parsed document down to the content worth extracting, either with
+ * caller-supplied CSS selectors or with a readability-style main-content detection
+ * that drops navigation, footers, cookie notices and sidebars.
+ */
+@Injectable()
+export class ContentScopeService {
+  private readonly logger = new Logger(ContentScopeService.name);
+
+  /**
+   * Returns the scoped document. The `<title>` of the original document is kept.
+   * @param {HTMLElement} root - The parsed HTML root; it is modified in place.
+   * @param {ContentScopeOptions} [options] - The scoping options.
+   * @returns {HTMLElement} - The root of the scoped document.
+   */
+  scope(root: HTMLElement, options: ContentScopeOptions = {}): HTMLElement {
+    const includeSelectors = this.toList(options.includeSelectors);
+    for (const selector of this.toList(options.excludeSelectors)) {
+      this.select(root, selector).forEach((element) => element.remove());
+    }
+
+    if (includeSelectors.length > 0) {
+      const order = new Map(
+        root.querySelectorAll('*').map((element, index) => [element, index]),
+      );
+      const matches = this.outermost(
+        includeSelectors.flatMap((selector) => this.select(root, selector)),
+      ).sort((a, b) => order.get(a) - order.get(b));
+      if (matches.length === 0) {
+        this.logger.warn(
+          'No element matched the include selectors; keeping the whole document',
+        );
+        return root;
+      }
+      return this.buildRoot(root, matches);
+    }
+
+    if (!options.detectMainContent) {
+      return root;
+    }
+    this.removeBoilerplate(root);
+    const mainContent = this.detectMainContent(root);
+    if (!mainContent) {
+      return root;
+    }
+    this.logger.log(
+      `Detected main content in ${mainContent.length} element(s)`,
+    );
+    return this.buildRoot(root, mainContent);
+  }
+
+  /**
+   * Removes elements that are navigation, footers, sidebars or notices by tag, role, class or ID.
+   * Elements containing the main landmark or an article are kept.
+   * @param {HTMLElement} root - The parsed HTML root.
+   */
+  private removeBoilerplate(root: HTMLElement) {
+    const candidates = root.querySelectorAll('*').filter((element) => {
+      if (['HTML', 'BODY', 'MAIN', 'ARTICLE'].includes(element.tagName)) {
+        return false;
+      }
+      const role = element.getAttribute('role');
+      const names = `${element.getAttribute('class') ?? ''} ${element.id ?? ''}`;
+      return (
+        BOILERPLATE_TAGS.includes(element.tagName) ||
+        (element.tagName === 'HEADER' && !element.closest('article, main')) ||
+        BOILERPLATE_ROLES.includes(role) ||
+        BOILERPLATE_PATTERN.test(names)
+      );
+    });
+    for (const element of this.outermost(candidates)) {
+      if (!element.querySelector('main, article, [role="main"]')) {
+        element.remove();
+      }
+    }
+  }
+
+  /**
+   * Finds the main content: the single `<main>` landmark or `<article>` when
+   * present, otherwise the best scoring block and its strong siblings.
+   * @param {HTMLElement} root - The parsed HTML root without boilerplate.
+   * @returns {HTMLElement[] | null} - The main content elements, or null if none stands out.
+   */
+  private detectMainContent(root: HTMLElement): HTMLElement[] | null {
+    const landmarks = root.querySelectorAll('main, [role="main"]');
+    if (landmarks.length === 1) {
+      return landmarks;
+    }
+    const articles = root.querySelectorAll('article');
+    if (articles.length === 1) {
+      return articles;
+    }
+
+    const scores = new Map<HTMLElement, number>();
+    for (const block of root.querySelectorAll(SCORED_SELECTOR)) {
+      const text = block.text.trim();
+      if (text.length < MIN_SCORED_TEXT_LENGTH) {
+        continue;
+      }
+      const score =
+        1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+      const parent = block.parentNode;
+      const grandparent = parent?.parentNode;
+      this.addScore(scores, parent, score);
+      this.addScore(scores, grandparent, score / 2);
+    }
+
+    let top: HTMLElement;
+    let topScore = 0;
+    for (const [element, score] of scores) {
+      const weighted = score * (1 - this.getLinkDensity(element));
+      scores.set(element, weighted);
+      if (weighted > topScore) {
+        top = element;
+        topScore = weighted;
+      }
+    }
+    if (!top || ['HTML', 'BODY'].includes(top.tagName) || !top.parentNode) {
+      return null;
+    }
+
+    const threshold = Math.max(
+      MIN_SIBLING_SCORE,
+      topScore * SIBLING_SCORE_RATIO,
+    );
+    return top.parentNode.childNodes.filter(
+      (sibling): sibling is HTMLElement =>
+        sibling === top ||
+        (sibling instanceof HTMLElement &&
+          (scores.get(sibling) ?? 0) >= threshold),
+    );
+  }
+
+  /**
+   * Adds to the content score of an element, starting from a score based on its tag, class and ID.
+   * @param {Map<HTMLElement, number>} scores - The scores collected so far.
+   * @param {HTMLElement} element - The element to score.
+   * @param {number} score - The score to add.
+   */
+  private addScore(
+    scores: Map<HTMLElement, number>,
+    element: HTMLElement,
+    score: number,
+  ) {
+    if (!element?.tagName) {
+      return;
+    }
+    if (!scores.has(element)) {
+      scores.set(element, this.getInitialScore(element));
+    }
+    scores.set(element, scores.get(element) + score);
+  }
+
+  /**
+   * Calculates the starting score of a candidate from its tag, class and ID.
+   * @param {HTMLElement} element - The candidate element.
+   * @returns {number} - The starting score.
+   */
+  private getInitialScore(element: HTMLElement): number {
+    const names = `${element.getAttribute('class') ?? ''} ${element.id ?? ''}`;
+    let score =
+      { ARTICLE: 10, MAIN: 10, SECTION: 5, DIV: 5, PRE: 3, TD: 3 }[
+        element.tagName
+      ] ?? 0;
+    if (POSITIVE_PATTERN.test(names)) {
+      score += 25;
+    }
+    if (NEGATIVE_PATTERN.test(names)) {
+      score -= 25;
+    }
+    return score;
+  }
+
+  /**
+   * Calculates the share of an element's text that is link text.
+   * @param {HTMLElement} element - The element.
+   * @returns {number} - The link density between 0 and 1.
+   */
+  private getLinkDensity(element: HTMLElement): number {
+    const textLength = element.text.length;
+    if (textLength === 0) {
+      return 0;
+    }
+    const linkLength = element
+      .querySelectorAll('a')
+      .reduce((total, link) => total + link.text.length, 0);
+    return Math.min(linkLength / textLength, 1);
+  }
+
+  /**
+   * Builds a new document root from the selected elements, keeping the original `<title>` in a `<head>`.
+   * @param {HTMLElement} root - The original root.
+   * @param {HTMLElement[]} elements - The selected elements in document order.
+   * @returns {HTMLElement} - The new root.
+   */
+  private buildRoot(root: HTMLElement, elements: HTMLElement[]): HTMLElement {
+    const scoped = parse('');
+    const title = root.querySelector('title');
+    if (title) {
+      const head = parse('<head></head>').firstChild as HTMLElement;
+      head.appendChild(title);
+      scoped.appendChild(head);
+    }
+    elements.forEach((element) => scoped.appendChild(element));
+    return scoped;
+  }
+
+  /**
+   * Drops elements nested inside other elements of the list, and duplicates.
+   * @param {HTMLElement[]} elements - The elements.
+   * @returns {HTMLElement[]} - The outermost elements.
+   */
+  private outermost(elements: HTMLElement[]): HTMLElement[] {
+    const selected = new Set(elements);
+    return [...selected].filter((element) => {
+      for (
+        let parent = element.parentNode;
+        parent;
+        parent = parent.parentNode
+      ) {
+        if (selected.has(parent)) {
+          return false;
+        }
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Runs a CSS selector, reporting invalid selectors as a bad request.
+   * @param {HTMLElement} root - The root to search.
+   * @param {string} selector - The CSS selector.
+   * @returns {HTMLElement[]} - The matching elements.
+   */
+  private select(root: HTMLElement, selector: string): HTMLElement[] {
+    try {
+      return root.querySelectorAll(selector);
+    } catch (error) {
+      throw new BadRequestException(`Invalid CSS selector: ${selector}`);
+    }
+  }
+
+  /**
+   * Accepts a single selector or a list, as sent by JSON and form requests.
+   * @param {string | string[]} [value] - The selector or selectors.
+   * @returns {string[]} - The selectors.
+   */
+  private toList(value?: string | string[]): string[] {
+    return (Array.isArray(value) ? value : value ? [value] : []).filter(
+      Boolean,
+    );
+  }
+}
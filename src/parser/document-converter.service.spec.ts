@@ -0,0 +1,125 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { DocumentConverterService } from './document-converter.service';
+import { UrlPolicyService } from '../url-policy/url-policy.service';
+
+const pdfParser = {
+  getInfo: jest.fn(),
+  getText: jest.fn(),
+  destroy: jest.fn(),
+};
+
+jest.mock('pdf-parse', () => ({
+  PDFParse: jest.fn(() => pdfParser),
+}));
+
+describe('DocumentConverterService', () => {
+  let service: DocumentConverterService;
+  const urlPolicyService = { assertAllowed: jest.fn(), requestOptions: {} };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DocumentConverterService,
+        { provide: UrlPolicyService, useValue: urlPolicyService },
+      ],
+    }).compile();
+
+    service = module.get<DocumentConverterService>(DocumentConverterService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should detect document types from the content type and content', () => {
+    const detect = (content: string, contentType?: string) =>
+      service.detectType({ content: Buffer.from(content), contentType });
+
+    expect(detect('<p>Hi</p>', 'text/html; charset=utf-8')).toBe('html');
+    expect(detect('%PDF-1.7', 'application/octet-stream')).toBe('pdf');
+    expect(detect('Hello', 'text/plain')).toBe('text');
+    expect(detect('{"a":1}', 'application/json')).toBe('json');
+    expect(detect('<?xml version="1.0"?><rss version="2.0">', 'text/xml')).toBe(
+      'feed',
+    );
+    expect(detect('<feed xmlns="http://www.w3.org/2005/Atom">')).toBe('feed');
+    expect(detect('<!DOCTYPE html><html>')).toBe('html');
+  });
+
+  it('should turn PDF text into headings and paragraphs', async () => {
+    pdfParser.getInfo.mockResolvedValue({
+      info: { Title: 'Annual Report' },
+      outline: [{ title: 'Outlook', items: [] }],
+    });
+    pdfParser.getText.mockResolvedValue({
+      pages: [
+        {
+          num: 1,
+          text: 'Introduction\nRevenue grew in every re-\ngion this year,\nled by Europe.\nOutlook\nStable.',
+        },
+      ],
+    });
+
+    const html = await service.toHtml({
+      content: Buffer.from('%PDF-1.4'),
+      contentType: 'application/pdf',
+    });
+
+    expect(html).toContain('<title>Annual Report</title>');
+    expect(html).toContain(
+      '<section data-page="1"><h2>Introduction</h2><p>Revenue grew in every region this year, led by Europe.</p><h2>Outlook</h2><p>Stable.</p></section>',
+    );
+    expect(pdfParser.destroy).toHaveBeenCalled();
+  });
+
+  it('should reject malformed PDFs', async () => {
+    pdfParser.getInfo.mockRejectedValue(new Error('Invalid PDF structure.'));
+
+    await expect(
+      service.toHtml({ content: Buffer.from('%PDF-1.4 broken') }),
+    ).rejects.toThrow('Invalid PDF document: Invalid PDF structure.');
+  });
+
+  it('should pass plain text through as escaped paragraphs', async () => {
+    const html = await service.toHtml({
+      content: Buffer.from('First <line>\nstill first\n\nSecond'),
+      contentType: 'text/plain',
+    });
+
+    expect(html).toContain(
+      '<main><p>First &lt;line&gt;<br>still first</p><p>Second</p></main>',
+    );
+  });
+
+  it('should turn each RSS item into an article', async () => {
+    const html = await service.toHtml({
+      content: Buffer.from(`<?xml version="1.0"?>
+        <rss version="2.0"><channel>
+          <title>News</title><description>Latest news</description>
+          <item><title>One</title><link>https://a/1</link><pubDate>Mon, 01 Jan 2024</pubDate>
+            <description>&lt;p&gt;First item&lt;/p&gt;</description></item>
+          <item><title>Two</title><link>https://a/2</link><description>Second</description></item>
+        </channel></rss>`),
+      contentType: 'application/rss+xml',
+    });
+
+    expect(html).toContain('<title>News</title>');
+    expect(html).toContain(
+      '<article><h2>One</h2><p><a href="https://a/1">https://a/1</a> · <time>Mon, 01 Jan 2024</time></p><div><p>First item</p></div></article>',
+    );
+    expect(html.match(/<article>/g)).toHaveLength(2);
+  });
+
+  it('should turn each Atom entry into an article', async () => {
+    const html = await service.toHtml({
+      content:
+        Buffer.from(`<feed xmlns="http://www.w3.org/2005/Atom"><title>Blog</title>
+        <entry><title>Post</title><link rel="alternate" href="https://b/post"/>
+          <updated>2024-01-01</updated><summary>Summary</summary></entry></feed>`),
+    });
+
+    expect(html).toContain(
+      '<article><h2>Post</h2><p><a href="https://b/post">https://b/post</a> · <time>2024-01-01</time></p><div>Summary</div></article>',
+    );
+  });
+});
@@ -0,0 +1,407 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import { UrlPolicyService } from '../url-policy/url-policy.service';
+import { ParseFailureException } from '../common/errors/api-exceptions';
+import { load } from 'cheerio';
+import { PDFParse } from 'pdf-parse';
+import {
+  DocumentType,
+  FetchedDocument,
+} from './interfaces/fetched-document.interface';
+
+export const DEFAULT_DOCUMENT_MAX_BYTES = 20 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 30000;
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+const FEED_TYPES = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/rdf+xml',
+  'application/feed+json',
+];
+const XML_TYPES = ['application/xml', 'text/xml'];
+const FEED_ROOT_PATTERN =
+  /^(?:<\?xml[^>]*>\s*|<!--[\s\S]*?-->\s*)*<(rss|feed|rdf:RDF)[\s>]/;
+const JSON_FEED_VERSION = 'https://jsonfeed.org/version/';
+const MAX_HEADING_LENGTH = 80;
+
+interface FeedItem {
+  title: string;
+  link: string;
+  date: string;
+  content: string;
+}
+
+interface Feed {
+  title: string;
+  description: string;
+  items: FeedItem[];
+}
+
+/**
+ * Converts documents that are not HTML (PDF, plain text, JSON, RSS and Atom
+ * feeds) into HTML, so they go through the same extraction pipeline as pages.
+ */
+@Injectable()
+export class DocumentConverterService {
+  private readonly logger = new Logger(DocumentConverterService.name);
+  readonly maxBytes: number;
+  private readonly timeoutMs: number;
+
+  /**
+   * Initializes the converter with the limits from the environment.
+   */
+  constructor(private readonly urlPolicyService: UrlPolicyService) {
+    this.maxBytes =
+      Number(process.env['DOCUMENT_MAX_BYTES']) || DEFAULT_DOCUMENT_MAX_BYTES;
+    this.timeoutMs =
+      Number(process.env['DOCUMENT_FETCH_TIMEOUT_MS']) || DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Detects the type of a document from its content type, sniffing the content
+   * when the type is missing, generic or XML.
+   * @param {FetchedDocument} document - The document.
+   * @returns {DocumentType} - The detected document type.
+   */
+  detectType(document: FetchedDocument): DocumentType {
+    const mimeType = this.getMimeType(document.contentType);
+    const head = document.content.subarray(0, 1024).toString('utf8').trim();
+    if (head.startsWith('%PDF-') || mimeType === 'application/pdf') {
+      return 'pdf';
+    }
+    if (HTML_TYPES.includes(mimeType)) {
+      return 'html';
+    }
+    if (FEED_TYPES.includes(mimeType) || FEED_ROOT_PATTERN.test(head)) {
+      return 'feed';
+    }
+    if (mimeType === 'application/json' || mimeType.endsWith('+json')) {
+      return head.includes(JSON_FEED_VERSION) ? 'feed' : 'json';
+    }
+    if (mimeType.startsWith('text/') || XML_TYPES.includes(mimeType)) {
+      return 'text';
+    }
+    if (head.startsWith('{') || head.startsWith('[')) {
+      return head.includes(JSON_FEED_VERSION) ? 'feed' : 'json';
+    }
+    return head.startsWith('<') || !mimeType ? 'html' : 'text';
+  }
+
+  /**
+   * Converts a document to HTML.
+   * @param {FetchedDocument} document - The document.
+   * @returns {Promise<string>} - A promise that resolves to the HTML.
+   */
+  async toHtml(document: FetchedDocument): Promise<string> {
+    if (document.content.length > this.maxBytes) {
+      throw new BadRequestException(
+        `Document exceeds the size limit of ${this.maxBytes} bytes`,
+      );
+    }
+    const type = this.detectType(document);
+    this.logger.log(`Converting a ${type} document to HTML`);
+    switch (type) {
+      case 'pdf':
+        return this.pdfToHtml(document.content);
+      case 'feed':
+        return this.feedToHtml(this.decode(document));
+      case 'json':
+        return this.jsonToHtml(this.decode(document));
+      case 'text':
+        return this.textToHtml(this.decode(document));
+      default:
+        return this.decode(document);
+    }
+  }
+
+  /**
+   * Downloads a document within the size and time limits, for responses whose
+   * body the browser did not keep (such as PDFs it treats as downloads).
+   * @param {string} url - The URL of the document.
+   * @returns {Promise<FetchedDocument>} - A promise that resolves to the document.
+   */
+  async download(url: string): Promise<FetchedDocument> {
+    this.logger.log(`Fetching document from ${url}`);
+    await this.urlPolicyService.assertAllowed(url);
+    const response = await axios.get(url, {
+      ...this.urlPolicyService.requestOptions,
+      responseType: 'arraybuffer',
+      timeout: this.timeoutMs,
+      maxContentLength: this.maxBytes,
+    });
+    return {
+      content: Buffer.from(response.data),
+      contentType: response.headers['content-type'],
+    };
+  }
+
+  /**
+   * Extracts the text of a PDF page by page. Lines that look like headings
+   * (outline entries, or short lines without closing punctuation followed by
+   * text) become headings, and wrapped lines are joined into paragraphs.
+   * @param {Buffer} content - The PDF bytes.
+   * @returns {Promise<string>} - A promise that resolves to the HTML.
+   */
+  private async pdfToHtml(content: Buffer): Promise<string> {
+    const parser = new PDFParse({ data: new Uint8Array(content) });
+    try {
+      const info = await parser.getInfo();
+      const text = await parser.getText();
+      const outline = new Set<string>();
+      const collectOutline = (nodes: any[]) => {
+        for (const node of nodes ?? []) {
+          outline.add(this.normalizeLine(node.title ?? ''));
+          collectOutline(node.items);
+        }
+      };
+      collectOutline(info.outline);
+
+      const title = this.normalizeLine(info.info?.Title ?? '');
+      const pages = text.pages.map((page) => {
+        const lines = page.text
+          .split('\n')
+          .map((line) => this.normalizeLine(line));
+        const blocks: string[] = [];
+        let paragraph = '';
+        const flush = () => {
+          if (paragraph) {
+            blocks.push(`<p>${escapeHtml(paragraph)}</p>`);
+            paragraph = '';
+          }
+        };
+        lines.forEach((line, index) => {
+          if (!line) {
+            flush();
+          } else if (
+            outline.has(line) ||
+            (!paragraph && this.isPdfHeading(line, lines[index + 1]))
+          ) {
+            flush();
+            blocks.push(`<h2>${escapeHtml(line)}</h2>`);
+          } else if (paragraph.endsWith('-')) {
+            paragraph = paragraph.slice(0, -1) + line;
+          } else {
+            paragraph = paragraph ? `${paragraph} ${line}` : line;
+            if (/[.!?:]$/.test(line)) {
+              flush();
+            }
+          }
+        });
+        flush();
+        return `<section data-page="${page.num}">${blocks.join('')}</section>`;
+      });
+      return this.wrap(title, pages.join(''));
+    } catch (error) {
+      throw new ParseFailureException(`Invalid PDF document: ${error.message}`);
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  /**
+   * Converts an RSS, Atom or JSON feed to one article per item.
+   * @param {string} content - The feed text.
+   * @returns {string} - The HTML.
+   */
+  private feedToHtml(content: string): string {
+    const feed = content.trimStart().startsWith('{')
+      ? this.parseJsonFeed(content)
+      : this.parseXmlFeed(content);
+    const items = feed.items.map((item) => {
+      const meta = [
+        item.link &&
+          `<a href="${escapeHtml(item.link)}">${escapeHtml(item.link)}</a>`,
+        item.date && `<time>${escapeHtml(item.date)}</time>`,
+      ].filter(Boolean);
+      return [
+        '<article>',
+        `<h2>${escapeHtml(item.title || item.link || 'Untitled')}</h2>`,
+        meta.length ? `<p>${meta.join(' · ')}</p>` : '',
+        `<div>${item.content}</div>`,
+        '</article>',
+      ].join('');
+    });
+    const description = feed.description
+      ? `<p>${escapeHtml(feed.description)}</p>`
+      : '';
+    return this.wrap(feed.title, description + items.join(''));
+  }
+
+  /**
+   * Reads the items of an RSS 2.0, RSS 1.0 (RDF) or Atom feed.
+   * @param {string} content - The feed XML.
+   * @returns {Feed} - The feed.
+   */
+  private parseXmlFeed(content: string): Feed {
+    const $ = load(content, { xmlMode: true });
+    const text = (element: any, selector: string) =>
+      $(element).children(selector).first().text().trim();
+    const isAtom = $('feed').length > 0;
+    const channel = isAtom ? $('feed').first() : $('channel').first();
+    const items = $(isAtom ? 'entry' : 'item')
+      .toArray()
+      .map((item) => {
+        const link = isAtom
+          ? $(item)
+              .children('link[rel="alternate"], link:not([rel])')
+              .first()
+              .attr('href')
+          : text(item, 'link');
+        return {
+          title: text(item, 'title'),
+          link: link?.trim() ?? '',
+          date:
+            text(item, isAtom ? 'updated' : 'pubDate') ||
+            text(item, isAtom ? 'published' : 'dc\\:date'),
+          content:
+            text(item, 'content\\:encoded') ||
+            text(item, isAtom ? 'content' : 'description') ||
+            text(item, 'summary'),
+        };
+      });
+    return {
+      title: text(channel, 'title'),
+      description: text(channel, isAtom ? 'subtitle' : 'description'),
+      items,
+    };
+  }
+
+  /**
+   * Reads the items of a JSON Feed.
+   * @param {string} content - The feed JSON.
+   * @returns {Feed} - The feed.
+   */
+  private parseJsonFeed(content: string): Feed {
+    const feed = this.parseJson(content);
+    return {
+      title: String(feed.title ?? ''),
+      description: String(feed.description ?? ''),
+      items: (Array.isArray(feed.items) ? feed.items : []).map((item: any) => ({
+        title: String(item.title ?? ''),
+        link: String(item.url ?? item.external_url ?? ''),
+        date: String(item.date_published ?? item.date_modified ?? ''),
+        content:
+          item.content_html ??
+          escapeHtml(String(item.content_text ?? item.summary ?? '')),
+      })),
+    };
+  }
+
+  /**
+   * Renders JSON as an indented code block.
+   * @param {string} content - The JSON text.
+   * @returns {string} - The HTML.
+   */
+  private jsonToHtml(content: string): string {
+    const json = JSON.stringify(this.parseJson(content), null, 2);
+    return this.wrap('', `<pre>${escapeHtml(json)}</pre>`);
+  }
+
+  /**
+   * Passes plain text through as paragraphs separated by blank lines.
+   * @param {string} content - The text.
+   * @returns {string} - The HTML.
+   */
+  private textToHtml(content: string): string {
+    const paragraphs = content
+      .split(/\r?\n\s*\r?\n/)
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean)
+      .map(
+        (paragraph) =>
+          `<p>${escapeHtml(paragraph).replace(/\r?\n/g, '<br>')}</p>`,
+      );
+    return this.wrap('', paragraphs.join(''));
+  }
+
+  /**
+   * Wraps converted content in a document whose `<main>` holds all of it, so
+   * main-content detection keeps everything.
+   * @param {string} title - The document title.
+   * @param {string} body - The body HTML.
+   * @returns {string} - The HTML document.
+   */
+  private wrap(title: string, body: string): string {
+    const heading = title ? `<h1>${escapeHtml(title)}</h1>` : '';
+    return `<html><head><title>${escapeHtml(title)}</title></head><body><main>${heading}${body}</main></body></html>`;
+  }
+
+  /**
+   * Parses JSON, reporting malformed content as a bad request.
+   * @param {string} content - The JSON text.
+   * @returns {any} - The parsed value.
+   */
+  private parseJson(content: string): any {
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      throw new ParseFailureException(
+        `Invalid JSON document: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Decodes a text document with the charset of its content type, UTF-8 by default.
+   * @param {FetchedDocument} document - The document.
+   * @returns {string} - The text.
+   */
+  private decode(document: FetchedDocument): string {
+    const charset = document.contentType?.match(/charset="?([\w-]+)/i)?.[1];
+    try {
+      return new TextDecoder(charset ?? 'utf-8').decode(document.content);
+    } catch {
+      return document.content.toString('utf8');
+    }
+  }
+
+  /**
+   * Extracts the lowercase MIME type of a content type header.
+   * @param {string} [contentType] - The content type header.
+   * @returns {string} - The MIME type, or an empty string.
+   */
+  private getMimeType(contentType?: string): string {
+    const mimeType = (contentType ?? '').split(';')[0].trim().toLowerCase();
+    return mimeType === 'application/octet-stream' ? '' : mimeType;
+  }
+
+  /**
+   * Collapses the whitespace of a line of PDF text.
+   * @param {string} line - The line.
+   * @returns {string} - The normalized line.
+   */
+  private normalizeLine(line: string): string {
+    return line.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Decides whether a PDF line is a heading: short, starting with a capital
+   * letter or a section number, without closing punctuation and followed by a
+   * longer line.
+   * @param {string} line - The line.
+   * @param {string} [nextLine] - The following line.
+   * @returns {boolean} - True if the line looks like a heading.
+   */
+  private isPdfHeading(line: string, nextLine?: string): boolean {
+    return (
+      line.length <= MAX_HEADING_LENGTH &&
+      /^(\d+(\.\d+)*\.?\s+)?\p{Lu}/u.test(line) &&
+      !/[.,;:!?]$/.test(line) &&
+      !!nextLine &&
+      nextLine.length > line.length
+    );
+  }
+}
+
+/**
+ * Escapes text for use in HTML content and attribute values.
+ * @param {string} text - The text.
+ * @returns {string} - The escaped text.
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,110 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ChunkFailure, DocumentMergerService } from './document-merger.service';
+
+const text = (value: string) => ({ type: 'text', description: '', value });
+
+describe('DocumentMergerService', () => {
+  let service: DocumentMergerService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [DocumentMergerService],
+    }).compile();
+
+    service = module.get<DocumentMergerService>(DocumentMergerService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should join sections split across chunk boundaries', () => {
+    const merged = service.merge([
+      {
+        title: 'Guide',
+        sections: [
+          { header: 'Intro', content: [text('a')] },
+          { header: 'Install', content: [text('b')] },
+        ],
+      },
+      {
+        title: 'Install',
+        sections: [
+          { header: 'Install', content: [text('b'), text('c')] },
+          { header: 'Usage', content: [text('d')] },
+        ],
+      },
+      { title: 'Guide', sections: [{ header: '', content: [text('e')] }] },
+    ]);
+
+    expect(merged).toEqual({
+      title: 'Guide',
+      sections: [
+        { header: 'Intro', content: [text('a')] },
+        { header: 'Install', content: [text('b'), text('c')] },
+        { header: 'Usage', content: [text('d'), text('e')] },
+      ],
+      errors: [],
+    });
+  });
+
+  it('should drop repeated sections and keep chunk errors', () => {
+    const footer = { header: 'Footer', content: [text('©')] };
+    const error = new ChunkFailure(1, 'Invalid LLM output');
+
+    const merged = service.merge([
+      { title: 'A', sections: [{ header: 'One', content: [] }, footer] },
+      error,
+      { title: 'B', sections: [{ header: 'Two', content: [] }, footer] },
+    ]);
+
+    expect(merged.title).toBe('A');
+    expect(merged.sections.map((section: any) => section.header)).toEqual([
+      'One',
+      'Footer',
+      'Two',
+    ]);
+    expect(merged.errors).toEqual([error]);
+  });
+
+  it('should merge records extracted with a custom schema', () => {
+    const merged = service.mergeRecords(
+      [
+        { name: 'Phone', price: null, tags: ['a'] },
+        { name: 'Phone X', price: 99, tags: ['a', 'b'] },
+      ],
+      'product',
+    );
+
+    expect(merged).toEqual({
+      template: 'product',
+      data: { name: 'Phone', price: 99, tags: ['a', 'b'] },
+      errors: [],
+    });
+  });
+
+  it('should merge records that have an error field of their own', () => {
+    const failure = new ChunkFailure(2, 'LLM provider "openai" failed');
+
+    const merged = service.mergeRecords(
+      [
+        { codes: [{ code: 'E1', error: 'Not found' }] },
+        { error: 'Timeout', codes: [{ code: 'E2', error: 'Timeout' }] },
+        failure,
+      ],
+      'error-codes',
+    );
+
+    expect(merged).toEqual({
+      template: 'error-codes',
+      data: {
+        codes: [
+          { code: 'E1', error: 'Not found' },
+          { code: 'E2', error: 'Timeout' },
+        ],
+        error: 'Timeout',
+      },
+      errors: [failure],
+    });
+  });
+});
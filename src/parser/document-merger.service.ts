@@ -0,0 +1,227 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+/**
+ * The result of a chunk the LLM failed to answer or answered with invalid output.
+ * Failures are reported in the `errors` of the merged document; a class marks them,
+ * so extracted records that have an `error` field of their own are still merged.
+ */
+export class ChunkFailure {
+  /**
+   * Creates the failure of a chunk.
+   * @param {number} chunk - The index of the failed chunk.
+   * @param {string} error - Why the chunk failed.
+   * @param {string[]} [validationErrors] - The schema violations of invalid output.
+   * @param {string} [raw] - The invalid output.
+   */
+  constructor(
+    readonly chunk: number,
+    readonly error: string,
+    readonly validationErrors?: string[],
+    readonly raw?: string,
+  ) {}
+}
+
+/**
+ * Merges the per-chunk `{title, sections}` results into a single document.
+ * Sections split at a chunk boundary are joined again, repeated sections and
+ * content are dropped, and the original order is kept.
+ */
+@Injectable()
+export class DocumentMergerService {
+  private readonly logger = new Logger(DocumentMergerService.name);
+
+  /**
+   * Merges chunk results into one document.
+   * @param {any[]} chunkResults - The per-chunk results in document order; failed chunks are `ChunkFailure`s.
+   * @returns {any} - The merged document with its title, sections and chunk errors.
+   */
+  merge(chunkResults: any[]): any {
+    this.logger.log(`Merging ${chunkResults.length} chunk results`);
+    const documents = chunkResults.filter(
+      (result) => !(result instanceof ChunkFailure),
+    );
+    const errors = chunkResults.filter(
+      (result) => result instanceof ChunkFailure,
+    );
+
+    const sections: any[] = [];
+    const seenSections = new Set<string>();
+    documents.forEach((document, documentIndex) => {
+      (document.sections ?? []).forEach(
+        (section: any, sectionIndex: number) => {
+          const previous = sections[sections.length - 1];
+          if (
+            documentIndex > 0 &&
+            sectionIndex === 0 &&
+            previous &&
+            this.isContinuation(previous, section)
+          ) {
+            this.appendContent(previous, section.content ?? []);
+            return;
+          }
+
+          const key = JSON.stringify([
+            this.normalize(section.header),
+            section.content,
+          ]);
+          if (seenSections.has(key)) {
+            return;
+          }
+          seenSections.add(key);
+          const merged = { header: section.header ?? '', content: [] };
+          this.appendContent(merged, section.content ?? []);
+          sections.push(merged);
+        },
+      );
+    });
+
+    return {
+      title: this.pickTitle(documents),
+      sections,
+      errors,
+    };
+  }
+
+  /**
+   * Merges chunk results produced with a custom extraction schema into one record.
+   * Scalars keep the first non-empty value, arrays are concatenated without duplicates
+   * and nested objects are merged recursively.
+   * @param {any[]} chunkResults - The per-chunk results in document order; failed chunks are `ChunkFailure`s.
+   * @param {string} templateName - The name of the template the results were extracted with.
+   * @returns {any} - The merged record under `data`, with the template name and chunk errors.
+   */
+  mergeRecords(chunkResults: any[], templateName: string): any {
+    this.logger.log(`Merging ${chunkResults.length} chunk records`);
+    const records = chunkResults.filter(
+      (result) => !(result instanceof ChunkFailure),
+    );
+    const errors = chunkResults.filter(
+      (result) => result instanceof ChunkFailure,
+    );
+
+    const data = records.reduce(
+      (merged, record) => this.mergeValues(merged, record),
+      undefined,
+    );
+    return { template: templateName, data: data ?? null, errors };
+  }
+
+  /**
+   * Merges two values extracted for the same field.
+   * @param {any} target - The value merged so far.
+   * @param {any} source - The value from the next chunk.
+   * @returns {any} - The merged value.
+   */
+  private mergeValues(target: any, source: any): any {
+    if (this.isEmpty(target)) {
+      return source;
+    }
+    if (this.isEmpty(source)) {
+      return target;
+    }
+    if (Array.isArray(target) && Array.isArray(source)) {
+      const seen = new Set(target.map((item) => JSON.stringify(item)));
+      return [
+        ...target,
+        ...source.filter((item) => !seen.has(JSON.stringify(item))),
+      ];
+    }
+    if (this.isPlainObject(target) && this.isPlainObject(source)) {
+      const merged = { ...target };
+      for (const [key, value] of Object.entries(source)) {
+        merged[key] = this.mergeValues(merged[key], value);
+      }
+      return merged;
+    }
+    return target;
+  }
+
+  /**
+   * Checks whether an extracted value carries no information.
+   * @param {any} value - The value to check.
+   * @returns {boolean} - True for null, undefined, empty strings and empty arrays.
+   */
+  private isEmpty(value: any): boolean {
+    return (
+      value === null ||
+      value === undefined ||
+      value === '' ||
+      (Array.isArray(value) && value.length === 0)
+    );
+  }
+
+  /**
+   * Checks whether a value is a plain JSON object.
+   * @param {any} value - The value to check.
+   * @returns {boolean} - True for non-array objects.
+   */
+  private isPlainObject(value: any): boolean {
+    return typeof value === 'object' && !Array.isArray(value);
+  }
+
+  /**
+   * Picks the most frequent non-empty title, preferring the earliest on ties.
+   * @param {any[]} documents - The chunk documents.
+   * @returns {string} - The document title.
+   */
+  private pickTitle(documents: any[]): string {
+    const counts = new Map<string, { title: string; count: number }>();
+    for (const document of documents) {
+      const title = (document.title ?? '').trim();
+      if (!title) {
+        continue;
+      }
+      const key = this.normalize(title);
+      const entry = counts.get(key) ?? { title, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+
+    let best = { title: '', count: 0 };
+    for (const entry of counts.values()) {
+      if (entry.count > best.count) {
+        best = entry;
+      }
+    }
+    return best.title;
+  }
+
+  /**
+   * Checks whether a chunk's first section continues the last section of the previous chunk,
+   * i.e. it has no header of its own or repeats the previous header.
+   * @param {any} previous - The last merged section.
+   * @param {any} section - The first section of the next chunk.
+   * @returns {boolean} - True if the section is a continuation.
+   */
+  private isContinuation(previous: any, section: any): boolean {
+    const header = this.normalize(section.header);
+    return header === '' || header === this.normalize(previous.header);
+  }
+
+  /**
+   * Appends content items to a section, skipping items it already contains.
+   * @param {any} section - The section to extend.
+   * @param {any[]} content - The content items to append.
+   */
+  private appendContent(section: any, content: any[]) {
+    const existing = new Set(
+      section.content.map((item: any) => `${item.type}:${item.value}`),
+    );
+    for (const item of content) {
+      const key = `${item.type}:${item.value}`;
+      if (!existing.has(key)) {
+        existing.add(key);
+        section.content.push(item);
+      }
+    }
+  }
+
+  /**
+   * Normalizes a header or title for comparison.
+   * @param {string} text - The text to normalize.
+   * @returns {string} - The lower-cased text with collapsed whitespace.
+   */
+  private normalize(text: string): string {
+    return (text ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
+  }
+}
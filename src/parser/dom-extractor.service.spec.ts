@@ -0,0 +1,93 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { parse } from 'node-html-parser';
+import { DomExtractorService } from './dom-extractor.service';
+
+describe('DomExtractorService', () => {
+  let service: DomExtractorService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [DomExtractorService],
+    }).compile();
+
+    service = module.get<DomExtractorService>(DomExtractorService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should build sections from headings, text, tables and images', () => {
+    const html = `
+      <html>
+        <head><title>Guide</title><style>p { color: red; }</style></head>
+        <body>
+          <h1>Install</h1>
+          <p>Run the <b>installer</b> &amp; wait.</p>
+          <figure>
+            <img src="/img/setup.png">
+            <figcaption>Setup screen</figcaption>
+          </figure>
+          <h2>Options</h2>
+          <table><caption>Flags</caption><tr><th>Name</th><th>Default</th></tr><tr><td>debug</td><td>false</td></tr></table>
+          <script>console.log('ignored');</script>
+        </body>
+      </html>`;
+
+    const document = service.extract(parse(html), 'https://example.com/docs/');
+
+    expect(document).toEqual({
+      title: 'Guide',
+      sections: [
+        {
+          header: 'Install',
+          content: [
+            {
+              type: 'text',
+              description: '',
+              value: 'Run the installer & wait.',
+            },
+            {
+              type: 'image',
+              description: 'Setup screen',
+              value: 'https://example.com/img/setup.png',
+            },
+          ],
+        },
+        {
+          header: 'Options',
+          content: [
+            {
+              type: 'table',
+              description: 'Flags',
+              value: 'Name,Default\r\ndebug,false\r\n',
+              caption: 'Flags',
+              columns: ['Name', 'Default'],
+              rows: [{ Name: 'debug', Default: 'false' }],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should keep content before the first heading in an untitled section', () => {
+    const document = service.extract(
+      parse('<p>Intro</p><h1>Main</h1><p>Body</p><img alt="no source">'),
+    );
+
+    expect(document).toEqual({
+      title: 'Main',
+      sections: [
+        {
+          header: '',
+          content: [{ type: 'text', description: '', value: 'Intro' }],
+        },
+        {
+          header: 'Main',
+          content: [{ type: 'text', description: '', value: 'Body' }],
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HTMLElement } from 'node-html-parser';
+import { extractTable, toCsv, toRowObjects } from './table.utils';
+
+const TEXT_TYPE_NODE = 3;
+const HEADING_TAGS = ['H1', 'H2', 'H3', 'H4', 'H5', 'H6'];
+const SKIPPED_TAGS = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD'];
+const BLOCK_TAGS = [
+  'ADDRESS',
+  'ARTICLE',
+  'ASIDE',
+  'BLOCKQUOTE',
+  'BR',
+  'DD',
+  'DIV',
+  'DL',
+  'DT',
+  'FIGCAPTION',
+  'FIGURE',
+  'FOOTER',
+  'FORM',
+  'HEADER',
+  'HR',
+  'LI',
+  'MAIN',
+  'NAV',
+  'OL',
+  'P',
+  'PRE',
+  'SECTION',
+  'UL',
+];
+
+/**
+ * Builds the `{title, sections}` document directly from the parsed DOM, without a language model.
+ * Each heading starts a new section; text blocks, tables and images become its content.
+ */
+@Injectable()
+export class DomExtractorService {
+  private readonly logger = new Logger(DomExtractorService.name);
+
+  /**
+   * Extracts the structured document from the parsed HTML.
+   * @param {HTMLElement} root - The parsed HTML root.
+   * @param {string} [originalUrl] - The original URL of the HTML content, used to resolve image URLs.
+   * @returns {any} - The structured document.
+   */
+  extract(root: HTMLElement, originalUrl?: string): any {
+    this.logger.log('Extracting structured content from the DOM');
+    const sections: any[] = [];
+    let current = { header: '', content: [] };
+    let textBuffer: string[] = [];
+
+    const flushText = () => {
+      const text = textBuffer.join(' ').replace(/\s+/g, ' ').trim();
+      if (text) {
+        current.content.push({ type: 'text', description: '', value: text });
+      }
+      textBuffer = [];
+    };
+
+    const startSection = (header: string) => {
+      flushText();
+      if (current.header || current.content.length > 0) {
+        sections.push(current);
+      }
+      current = { header, content: [] };
+    };
+
+    const visit = (node: any) => {
+      if (node.nodeType === TEXT_TYPE_NODE) {
+        textBuffer.push(node.text);
+        return;
+      }
+      const tagName = node.tagName;
+      if (SKIPPED_TAGS.includes(tagName) || this.isImageCaption(node)) {
+        return;
+      }
+      if (HEADING_TAGS.includes(tagName)) {
+        startSection(this.cleanText(node.text));
+        return;
+      }
+      if (tagName === 'TABLE') {
+        flushText();
+        for (const tableNode of [node, ...node.querySelectorAll('table')]) {
+          const table = extractTable(tableNode);
+          current.content.push({
+            type: 'table',
+            description: table.caption,
+            value: toCsv([table.columns, ...table.rows]),
+            caption: table.caption,
+            columns: table.columns,
+            rows: toRowObjects(table),
+          });
+        }
+        return;
+      }
+      if (tagName === 'IMG') {
+        flushText();
+        const image = this.extractImage(node, originalUrl);
+        if (image) {
+          current.content.push(image);
+        }
+        return;
+      }
+
+      const isBlock = BLOCK_TAGS.includes(tagName);
+      if (isBlock) {
+        flushText();
+      }
+      for (const child of node.childNodes ?? []) {
+        visit(child);
+      }
+      if (isBlock) {
+        flushText();
+      }
+    };
+
+    const body = root.querySelector('body') ?? root;
+    for (const child of body.childNodes) {
+      visit(child);
+    }
+    startSection('');
+
+    return { title: this.extractTitle(root), sections };
+  }
+
+  /**
+   * Determines the document title from `<title>`, falling back to the first `<h1>`.
+   * @param {HTMLElement} root - The parsed HTML root.
+   * @returns {string} - The document title.
+   */
+  extractTitle(root: HTMLElement): string {
+    const title = root.querySelector('title') ?? root.querySelector('h1');
+    return title ? this.cleanText(title.text) : '';
+  }
+
+  /**
+   * Builds an image content entry described by its alt text, title or figure caption.
+   * @param {any} imgElement - The image element.
+   * @param {string} [originalUrl] - The original URL of the HTML content.
+   * @returns {any | null} - The image entry, or null if the source cannot be resolved.
+   */
+  private extractImage(imgElement: any, originalUrl?: string): any | null {
+    const src = imgElement.getAttribute('src');
+    if (!src || !URL.canParse(src, originalUrl)) {
+      return null;
+    }
+    const figure = imgElement.closest('figure');
+    const figcaption = figure?.querySelector('figcaption');
+    const description =
+      imgElement.getAttribute('alt') ||
+      imgElement.getAttribute('title') ||
+      (figcaption ? figcaption.text : '');
+    return {
+      type: 'image',
+      description: this.cleanText(description),
+      value: new URL(src, originalUrl).href,
+    };
+  }
+
+  /**
+   * Checks whether a node is a figure caption already used to describe an image.
+   * @param {any} node - The node to check.
+   * @returns {boolean} - True if the caption belongs to a figure containing an image.
+   */
+  private isImageCaption(node: any): boolean {
+    return (
+      node.tagName === 'FIGCAPTION' &&
+      node.parentNode?.tagName === 'FIGURE' &&
+      !!node.parentNode.querySelector('img')
+    );
+  }
+
+  /**
+   * Collapses whitespace in extracted text.
+   * @param {string} text - The text to clean.
+   * @returns {string} - The cleaned text.
+   */
+  private cleanText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,173 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import {
+  FormBoolean,
+  FormJson,
+  FormStringArray,
+} from '../../common/validation/form-transforms';
+import {
+  LLM_PROVIDER_NAMES,
+  LlmProviderName,
+} from '../../llm/providers/llm-provider.interface';
+import {
+  CACHE_MODES,
+  CacheMode,
+  EXTRACTION_MODES,
+  ExtractionMode,
+  OUTPUT_FORMATS,
+  OutputFormat,
+} from '../interfaces/parse-options.interface';
+
+export class ParseRequestDto {
+  @ApiProperty({
+    description: 'Raw HTML content to parse (ignored when a file is uploaded)',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  html?: string;
+
+  @ApiProperty({
+    description:
+      'Base URL used to resolve relative links and image sources in the HTML',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  baseUrl?: string;
+
+  @ApiProperty({
+    description: 'LLM provider used to structure the content',
+    enum: LLM_PROVIDER_NAMES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(LLM_PROVIDER_NAMES)
+  llmProvider?: LlmProviderName;
+
+  @ApiProperty({
+    description:
+      'How the structured content is produced: "llm" asks the language model, "dom" builds it directly from the HTML',
+    enum: EXTRACTION_MODES,
+    required: false,
+    default: 'llm',
+  })
+  @IsOptional()
+  @IsIn(EXTRACTION_MODES)
+  extractionMode?: ExtractionMode;
+
+  @ApiProperty({
+    description: 'Include the raw per-chunk LLM output in the response',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @FormBoolean()
+  @IsBoolean()
+  debug?: boolean;
+
+  @ApiProperty({
+    description:
+      'Name of a saved extraction template; defaults to the "sections" template',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  template?: string;
+
+  @ApiProperty({
+    description:
+      'Inline JSON Schema the extracted JSON must follow; takes precedence over "template"',
+    type: 'object',
+    additionalProperties: true,
+    required: false,
+  })
+  @IsOptional()
+  @FormJson()
+  @IsObject()
+  schema?: object;
+
+  @ApiProperty({
+    description:
+      'CSS selectors of the elements to extract; everything else is ignored',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @FormStringArray()
+  @IsArray()
+  @IsString({ each: true })
+  includeSelectors?: string[];
+
+  @ApiProperty({
+    description: 'CSS selectors of elements removed before extraction',
+    type: [String],
+    required: false,
+  })
+  @IsOptional()
+  @FormStringArray()
+  @IsArray()
+  @IsString({ each: true })
+  excludeSelectors?: string[];
+
+  @ApiProperty({
+    description:
+      'Without include selectors, remove navigation, footers, cookie notices and sidebars and keep only the detected main content',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @FormBoolean()
+  @IsBoolean()
+  detectMainContent?: boolean;
+
+  @ApiProperty({
+    description:
+      'Describe images with the vision model of the LLM provider instead of using their alt text or figure caption',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @FormBoolean()
+  @IsBoolean()
+  describeImages?: boolean;
+
+  @ApiProperty({
+    description:
+      'Format of the result: the structured JSON document, Markdown, plain text or cleaned HTML',
+    enum: OUTPUT_FORMATS,
+    required: false,
+    default: 'json',
+  })
+  @IsOptional()
+  @IsIn(OUTPUT_FORMATS)
+  outputFormat?: OutputFormat;
+
+  @ApiProperty({
+    description:
+      'Chunk cache usage: reuse cached chunk outputs, refresh them, or bypass the cache entirely',
+    enum: CACHE_MODES,
+    required: false,
+    default: 'use',
+  })
+  @IsOptional()
+  @IsIn(CACHE_MODES)
+  cache?: CacheMode;
+
+  @ApiProperty({
+    description:
+      'Document to parse: HTML, PDF, plain text, JSON or an RSS/Atom feed',
+    type: 'string',
+    format: 'binary',
+    required: false,
+  })
+  @IsOptional()
+  file?: any;
+}
@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ImageCaptionService, VisionUsage } from './image-caption.service';
+import { LlmService } from '../llm/llm.service';
+import { CacheService } from '../cache/cache.service';
+import { QuotaExceededException } from '../common/errors/api-exceptions';
+
+describe('ImageCaptionService', () => {
+  let service: ImageCaptionService;
+  let usage: VisionUsage;
+  const llmService = {
+    getProvider: jest
+      .fn()
+      .mockReturnValue({ name: 'openai', visionModel: 'gpt-4o' }),
+    describeImage: jest.fn(),
+  };
+  const image = (byte: number) => ({
+    content: Buffer.from([byte]),
+    contentType: 'image/png',
+    extension: 'png',
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    process.env['VISION_MAX_IMAGES'] = '2';
+    llmService.describeImage.mockImplementation(
+      async (_image, _prompt, _provider, onUsage) => {
+        onUsage({
+          type: 'vision',
+          provider: 'openai',
+          model: 'gpt-4o',
+          promptTokens: 1000,
+          completionTokens: 100,
+          latencyMs: 800,
+          costUsd: 0.0035,
+        });
+        return {
+          content: ' A line chart of monthly sales. ',
+          model: 'gpt-4o',
+          usage: { promptTokens: 1000, completionTokens: 100 },
+        };
+      },
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImageCaptionService,
+        CacheService,
+        { provide: LlmService, useValue: llmService },
+      ],
+    }).compile();
+
+    service = module.get<ImageCaptionService>(ImageCaptionService);
+    usage = { imagesDescribed: 0, costUsd: 0 };
+  });
+
+  afterEach(() => {
+    delete process.env['VISION_MAX_IMAGES'];
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should use the page caption when vision is disabled', async () => {
+    await expect(service.caption(image(1), 'Sales', { usage })).resolves.toBe(
+      'Sales',
+    );
+    expect(llmService.describeImage).not.toHaveBeenCalled();
+  });
+
+  it('should describe images and track their cost', async () => {
+    const caption = await service.caption(image(1), 'Sales', {
+      describeImages: true,
+      usage,
+    });
+
+    expect(caption).toBe('A line chart of monthly sales.');
+    expect(usage.imagesDescribed).toBe(1);
+    expect(usage.costUsd).toBeCloseTo(0.0035);
+  });
+
+  it('should reuse cached captions without spending the budget', async () => {
+    await service.caption(image(1), '', { describeImages: true, usage });
+    await service.caption(image(1), '', { describeImages: true, usage });
+
+    expect(llmService.describeImage).toHaveBeenCalledTimes(1);
+    expect(usage.imagesDescribed).toBe(1);
+  });
+
+  it('should not reuse captions across page captions or vision models', async () => {
+    const caption = (fallback: string) =>
+      service.caption(image(1), fallback, {
+        describeImages: true,
+        usage: { imagesDescribed: 0, costUsd: 0 },
+      });
+    await caption('Sales');
+    await caption('Revenue');
+    llmService.getProvider.mockReturnValueOnce({
+      name: 'openai',
+      visionModel: 'gpt-4o-mini',
+    });
+    await caption('Sales');
+    await caption('Sales');
+
+    expect(llmService.describeImage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should follow the cache mode of the scan', async () => {
+    const caption = (cache?: 'use' | 'refresh' | 'bypass') =>
+      service.caption(image(1), '', {
+        describeImages: true,
+        usage: { imagesDescribed: 0, costUsd: 0 },
+        cache,
+      });
+    await caption('bypass');
+    await caption('use');
+    await caption('refresh');
+    await caption('use');
+
+    expect(llmService.describeImage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should fall back to the page caption once a limit is reached', async () => {
+    const options = { describeImages: true, usage };
+    await service.caption(image(1), '', options);
+    await service.caption(image(2), '', options);
+
+    await expect(service.caption(image(3), 'Alt', options)).resolves.toBe(
+      'Alt',
+    );
+    usage.imagesDescribed = 0;
+    usage.costUsd = 1;
+    await expect(service.caption(image(4), 'Alt', options)).resolves.toBe(
+      'Alt',
+    );
+    expect(llmService.describeImage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to the page caption when the vision call fails', async () => {
+    llmService.describeImage.mockRejectedValue(new Error('Rate limited'));
+
+    await expect(
+      service.caption(image(1), 'Alt', { describeImages: true, usage }),
+    ).resolves.toBe('Alt');
+  });
+
+  it('should stop the scan once the token budget is used', async () => {
+    llmService.describeImage.mockRejectedValue(
+      new QuotaExceededException('TOKEN_BUDGET_EXCEEDED', 'Budget used', 60),
+    );
+
+    await expect(
+      service.caption(image(1), 'Alt', { describeImages: true, usage }),
+    ).rejects.toBeInstanceOf(QuotaExceededException);
+  });
+});
@@ -0,0 +1,131 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { LlmService } from '../llm/llm.service';
+import {
+  LlmProviderName,
+  LlmUsageListener,
+} from '../llm/providers/llm-provider.interface';
+import { CacheService } from '../cache/cache.service';
+import { generateImageCaptionPrompt } from '../common/prompts';
+import { ImageFile } from './interfaces/fetched-image.interface';
+import { CacheMode } from './interfaces/parse-options.interface';
+import { QuotaExceededException } from '../common/errors/api-exceptions';
+
+const DEFAULT_MAX_IMAGES = 10;
+const DEFAULT_MAX_COST_USD = 0.05;
+
+/**
+ * Vision model usage of a single scan.
+ */
+export interface VisionUsage {
+  imagesDescribed: number;
+  costUsd: number;
+}
+
+/**
+ * Options for captioning an image.
+ */
+export interface ImageCaptionOptions {
+  describeImages?: boolean;
+  llmProvider?: LlmProviderName;
+  usage: VisionUsage;
+  onUsage?: LlmUsageListener;
+  cache?: CacheMode;
+}
+
+/**
+ * Produces captions for extracted images: a description from a vision model when
+ * requested and within the per-scan image and cost limits, otherwise the caption
+ * the page itself provides (alt text, title or figure caption).
+ */
+@Injectable()
+export class ImageCaptionService {
+  private readonly logger = new Logger(ImageCaptionService.name);
+  private readonly maxImages: number;
+  private readonly maxCostUsd: number;
+
+  /**
+   * Initializes the captioner with the vision limits from the environment.
+   */
+  constructor(
+    private readonly llmService: LlmService,
+    private readonly cacheService: CacheService,
+  ) {
+    this.maxImages =
+      Number(process.env['VISION_MAX_IMAGES']) || DEFAULT_MAX_IMAGES;
+    this.maxCostUsd =
+      Number(process.env['VISION_MAX_COST_USD']) || DEFAULT_MAX_COST_USD;
+  }
+
+  /**
+   * Returns the caption of an image. Vision failures and exhausted limits fall back to the page's caption,
+   * except an exhausted token budget of the client, which stops the scan.
+   * Vision calls count towards the cost limit with the cost the LLM service
+   * estimates from its price table.
+   * @param {ImageFile} image - The image.
+   * @param {string} fallback - The caption provided by the page, possibly empty.
+   * @param {ImageCaptionOptions} options - Whether to use the vision model, the scan's usage so far and how to use the caption cache.
+   * @returns {Promise<string>} - A promise that resolves to the caption, possibly empty.
+   */
+  async caption(
+    image: ImageFile,
+    fallback: string,
+    options: ImageCaptionOptions,
+  ): Promise<string> {
+    if (!options.describeImages) {
+      return fallback;
+    }
+    const provider = this.llmService.getProvider(options.llmProvider);
+    const prompt = generateImageCaptionPrompt(fallback);
+    // The prompt embeds the page's caption, so the same image is described again on other pages
+    const cacheKey = createHash('sha256')
+      .update(
+        `caption\n${provider.name}\n${provider.visionModel ?? ''}\n${prompt}\n`,
+      )
+      .update(image.content)
+      .digest('hex');
+    const cacheMode = options.cache ?? 'use';
+    const cached =
+      cacheMode === 'use' ? this.cacheService.getChunk(cacheKey) : undefined;
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const { usage } = options;
+    if (usage.imagesDescribed >= this.maxImages) {
+      this.logger.log(`Vision image limit of ${this.maxImages} reached`);
+      return fallback;
+    }
+    if (usage.costUsd >= this.maxCostUsd) {
+      this.logger.log(`Vision cost limit of $${this.maxCostUsd} reached`);
+      return fallback;
+    }
+
+    try {
+      const completion = await this.llmService.describeImage(
+        image,
+        prompt,
+        provider.name,
+        (call) => {
+          usage.costUsd += call.costUsd;
+          options.onUsage?.(call);
+        },
+      );
+      usage.imagesDescribed++;
+      const caption = completion.content?.trim();
+      if (!caption) {
+        return fallback;
+      }
+      if (cacheMode !== 'bypass') {
+        this.cacheService.setChunk(cacheKey, caption);
+      }
+      return caption;
+    } catch (error) {
+      if (error instanceof QuotaExceededException) {
+        throw error;
+      }
+      this.logger.warn(`Describing image failed: ${error.message}`);
+      return fallback;
+    }
+  }
+}
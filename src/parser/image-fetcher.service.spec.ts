@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { parse } from 'node-html-parser';
+import axios from 'axios';
+import { ImageFetcherService } from './image-fetcher.service';
+import { UrlPolicyService } from '../url-policy/url-policy.service';
+
+describe('ImageFetcherService', () => {
+  let service: ImageFetcherService;
+  const urlPolicyService = { assertAllowed: jest.fn(), requestOptions: {} };
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const image = (html: string) => parse(html).querySelector('img');
+
+  beforeEach(async () => {
+    process.env['IMAGE_MAX_BYTES'] = '16';
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImageFetcherService,
+        { provide: UrlPolicyService, useValue: urlPolicyService },
+      ],
+    }).compile();
+
+    service = module.get<ImageFetcherService>(ImageFetcherService);
+  });
+
+  afterEach(() => {
+    delete process.env['IMAGE_MAX_BYTES'];
+    jest.restoreAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should prefer lazy-loading and responsive sources', () => {
+    const base = 'https://example.com/docs/';
+
+    expect(
+      service.resolveSource(
+        image('<img src="data:image/gif;base64,R0lGOD" data-src="real.png">'),
+        base,
+      ),
+    ).toBe('https://example.com/docs/real.png');
+    expect(
+      service.resolveSource(
+        image('<img src="small.jpg" srcset="small.jpg 480w, large.jpg 1200w">'),
+        base,
+      ),
+    ).toBe('https://example.com/docs/large.jpg');
+    expect(
+      service.resolveSource(
+        image(
+          '<picture><source srcset="/hero.webp 1x, /hero@2x.webp 2x"><img src="/hero.jpg"></picture>',
+        ),
+        base,
+      ),
+    ).toBe('https://example.com/hero@2x.webp');
+    expect(service.resolveSource(image('<img alt="none">'), base)).toBeNull();
+  });
+
+  it('should decode data URIs and detect their format', async () => {
+    const svg = `data:image/svg+xml,${encodeURIComponent('<svg></svg>')}`;
+
+    await expect(service.fetch(svg)).resolves.toMatchObject({
+      contentType: 'image/svg+xml',
+      extension: 'svg',
+    });
+    await expect(
+      service.fetch(`data:image/jpeg;base64,${png.toString('base64')}`),
+    ).resolves.toMatchObject({ contentType: 'image/png', extension: 'png' });
+  });
+
+  it('should reuse images loaded by the browser', async () => {
+    const get = jest.spyOn(axios, 'get');
+    const preloaded = new Map([['https://example.com/a', { content: png }]]);
+
+    const result = await service.fetch('https://example.com/a', preloaded);
+
+    expect(result.extension).toBe('png');
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('should download images with size limits', async () => {
+    const get = jest.spyOn(axios, 'get').mockResolvedValue({
+      data: png,
+      headers: { 'content-type': 'image/png' },
+    });
+
+    await expect(service.fetch('https://example.com/a')).resolves.toEqual({
+      content: png,
+      contentType: 'image/png',
+      extension: 'png',
+    });
+    expect(get).toHaveBeenCalledWith(
+      'https://example.com/a',
+      expect.objectContaining({ maxContentLength: 16 }),
+    );
+  });
+
+  it('should not download images the URL policy blocks', async () => {
+    const get = jest.spyOn(axios, 'get');
+    urlPolicyService.assertAllowed.mockRejectedValueOnce(
+      new Error('Host "internal" is denied'),
+    );
+
+    await expect(service.fetch('http://internal/a.png')).rejects.toThrow(
+      'Host "internal" is denied',
+    );
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('should reject oversized and non-image content', async () => {
+    await expect(
+      service.fetch(
+        `data:image/png;base64,${Buffer.alloc(32).toString('base64')}`,
+      ),
+    ).rejects.toThrow('Image exceeds the size limit of 16 bytes');
+    await expect(service.fetch('data:text/plain,hello')).rejects.toThrow(
+      'Unsupported image content (text/plain)',
+    );
+  });
+});
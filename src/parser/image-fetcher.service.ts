@@ -0,0 +1,244 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HTMLElement } from 'node-html-parser';
+import axios from 'axios';
+import { UrlPolicyService } from '../url-policy/url-policy.service';
+import { FetchedImage, ImageFile } from './interfaces/fetched-image.interface';
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_MAX_COUNT = 50;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DATA_URI_PATTERN = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s;
+const LAZY_SOURCE_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original'];
+
+interface ImageSignature {
+  contentType: string;
+  extension: string;
+  matches: (content: Buffer) => boolean;
+}
+
+const startsWith = (content: Buffer, bytes: number[], offset = 0) =>
+  bytes.every((byte, index) => content[offset + index] === byte);
+const ascii = (content: Buffer, start: number, end: number) =>
+  content.subarray(start, end).toString('latin1');
+
+const IMAGE_SIGNATURES: ImageSignature[] = [
+  {
+    contentType: 'image/png',
+    extension: 'png',
+    matches: (content) => startsWith(content, [0x89, 0x50, 0x4e, 0x47]),
+  },
+  {
+    contentType: 'image/jpeg',
+    extension: 'jpg',
+    matches: (content) => startsWith(content, [0xff, 0xd8, 0xff]),
+  },
+  {
+    contentType: 'image/gif',
+    extension: 'gif',
+    matches: (content) => ascii(content, 0, 4) === 'GIF8',
+  },
+  {
+    contentType: 'image/webp',
+    extension: 'webp',
+    matches: (content) =>
+      ascii(content, 0, 4) === 'RIFF' && ascii(content, 8, 12) === 'WEBP',
+  },
+  {
+    contentType: 'image/avif',
+    extension: 'avif',
+    matches: (content) =>
+      ascii(content, 4, 8) === 'ftyp' &&
+      ['avif', 'avis'].includes(ascii(content, 8, 12)),
+  },
+  {
+    contentType: 'image/bmp',
+    extension: 'bmp',
+    matches: (content) => ascii(content, 0, 2) === 'BM',
+  },
+  {
+    contentType: 'image/x-icon',
+    extension: 'ico',
+    matches: (content) => startsWith(content, [0x00, 0x00, 0x01, 0x00]),
+  },
+  {
+    contentType: 'image/tiff',
+    extension: 'tiff',
+    matches: (content) =>
+      startsWith(content, [0x49, 0x49, 0x2a, 0x00]) ||
+      startsWith(content, [0x4d, 0x4d, 0x00, 0x2a]),
+  },
+  {
+    contentType: 'image/svg+xml',
+    extension: 'svg',
+    matches: (content) => /<svg[\s>]/i.test(ascii(content, 0, 1024)),
+  },
+];
+
+/**
+ * Resolves the real source of `<img>` elements (responsive and lazy-loaded
+ * sources included) and loads the image from a data URI, the browser's
+ * already-captured responses or the network, within size limits.
+ */
+@Injectable()
+export class ImageFetcherService {
+  private readonly logger = new Logger(ImageFetcherService.name);
+  readonly maxBytes: number;
+  readonly maxCount: number;
+  private readonly timeoutMs: number;
+
+  /**
+   * Initializes the fetcher with the limits from the environment.
+   */
+  constructor(private readonly urlPolicyService: UrlPolicyService) {
+    this.maxBytes = Number(process.env['IMAGE_MAX_BYTES']) || DEFAULT_MAX_BYTES;
+    this.maxCount = Number(process.env['IMAGE_MAX_COUNT']) || DEFAULT_MAX_COUNT;
+    this.timeoutMs =
+      Number(process.env['IMAGE_FETCH_TIMEOUT_MS']) || DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Determines the source of an image, preferring `<picture>` sources, lazy-loading
+   * attributes and the largest `srcset` candidate over a plain `src`.
+   * @param {HTMLElement} imgElement - The image element.
+   * @param {string} [originalUrl] - The original URL of the HTML content.
+   * @returns {string | null} - The absolute URL or data URI, or null if there is none.
+   */
+  resolveSource(imgElement: HTMLElement, originalUrl?: string): string | null {
+    const candidates: string[] = [];
+    const picture = imgElement.parentNode;
+    if (picture?.tagName === 'PICTURE') {
+      for (const source of picture.querySelectorAll('source')) {
+        candidates.push(
+          this.pickFromSrcset(source.getAttribute('data-srcset')),
+          this.pickFromSrcset(source.getAttribute('srcset')),
+        );
+      }
+    }
+    candidates.push(
+      this.pickFromSrcset(imgElement.getAttribute('data-srcset')),
+      ...LAZY_SOURCE_ATTRIBUTES.map((name) => imgElement.getAttribute(name)),
+      this.pickFromSrcset(imgElement.getAttribute('srcset')),
+      imgElement.getAttribute('src'),
+    );
+
+    for (const candidate of candidates) {
+      const source = candidate?.trim();
+      if (!source) {
+        continue;
+      }
+      if (source.startsWith('data:')) {
+        return source;
+      }
+      if (URL.canParse(source, originalUrl)) {
+        return new URL(source, originalUrl).href;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Loads an image and detects its format.
+   * @param {string} source - The absolute URL or data URI of the image.
+   * @param {Map<string, FetchedImage>} [preloadedImages] - Images already loaded by the browser, by URL.
+   * @returns {Promise<ImageFile>} - A promise that resolves to the image.
+   */
+  async fetch(
+    source: string,
+    preloadedImages?: Map<string, FetchedImage>,
+  ): Promise<ImageFile> {
+    const image = source.startsWith('data:')
+      ? this.decodeDataUri(source)
+      : preloadedImages?.get(source) ?? (await this.download(source));
+    if (image.content.length > this.maxBytes) {
+      throw new Error(`Image exceeds the size limit of ${this.maxBytes} bytes`);
+    }
+    return { content: image.content, ...this.detectFormat(image) };
+  }
+
+  /**
+   * Downloads an image within the size and time limits.
+   * @param {string} url - The URL of the image.
+   * @returns {Promise<FetchedImage>} - A promise that resolves to the downloaded image.
+   */
+  private async download(url: string): Promise<FetchedImage> {
+    this.logger.log(`Fetching image from ${url}`);
+    await this.urlPolicyService.assertAllowed(url);
+    const response = await axios.get(url, {
+      ...this.urlPolicyService.requestOptions,
+      responseType: 'arraybuffer',
+      timeout: this.timeoutMs,
+      maxContentLength: this.maxBytes,
+    });
+    return {
+      content: Buffer.from(response.data),
+      contentType: response.headers['content-type'],
+    };
+  }
+
+  /**
+   * Decodes a base64 or percent-encoded data URI.
+   * @param {string} uri - The data URI.
+   * @returns {FetchedImage} - The decoded image.
+   */
+  private decodeDataUri(uri: string): FetchedImage {
+    const match = uri.match(DATA_URI_PATTERN);
+    if (!match) {
+      throw new Error('Malformed data URI');
+    }
+    const [, contentType, parameters, data] = match;
+    const content = /;base64/i.test(parameters)
+      ? Buffer.from(data, 'base64')
+      : Buffer.from(decodeURIComponent(data), 'utf8');
+    return { content, contentType };
+  }
+
+  /**
+   * Detects the image format from its leading bytes, falling back to the declared content type.
+   * @param {FetchedImage} image - The image.
+   * @returns {{ contentType: string, extension: string }} - The detected format.
+   */
+  private detectFormat(image: FetchedImage): {
+    contentType: string;
+    extension: string;
+  } {
+    const signature = IMAGE_SIGNATURES.find((candidate) =>
+      candidate.matches(image.content),
+    );
+    if (signature) {
+      return {
+        contentType: signature.contentType,
+        extension: signature.extension,
+      };
+    }
+    const declared = image.contentType?.split(';')[0].trim().toLowerCase();
+    const known = IMAGE_SIGNATURES.find(
+      (candidate) => candidate.contentType === declared,
+    );
+    if (known) {
+      return { contentType: known.contentType, extension: known.extension };
+    }
+    throw new Error(
+      `Unsupported image content${declared ? ` (${declared})` : ''}`,
+    );
+  }
+
+  /**
+   * Picks the largest candidate of a `srcset` attribute.
+   * @param {string} [srcset] - The srcset attribute value.
+   * @returns {string | undefined} - The URL of the largest candidate.
+   */
+  private pickFromSrcset(srcset?: string): string | undefined {
+    if (!srcset) {
+      return undefined;
+    }
+    let best: { url: string; size: number };
+    for (const candidate of srcset.split(/,\s+/)) {
+      const [url, descriptor = '1x'] = candidate.trim().split(/\s+/);
+      const size = parseFloat(descriptor) || 1;
+      if (url && (!best || size > best.size)) {
+        best = { url, size };
+      }
+    }
+    return best?.url;
+  }
+}
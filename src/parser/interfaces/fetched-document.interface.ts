@@ -0,0 +1,10 @@
+export const DOCUMENT_TYPES = ['html', 'pdf', 'text', 'json', 'feed'] as const;
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
+
+/**
+ * Raw document bytes with the content type they were served or uploaded with.
+ */
+export interface FetchedDocument {
+  content: Buffer;
+  contentType?: string;
+}
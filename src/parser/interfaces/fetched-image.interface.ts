@@ -0,0 +1,16 @@
+/**
+ * Raw image bytes, as downloaded or captured from the browser.
+ */
+export interface FetchedImage {
+  content: Buffer;
+  contentType?: string;
+}
+
+/**
+ * An image whose format has been detected from its content.
+ */
+export interface ImageFile {
+  content: Buffer;
+  contentType: string;
+  extension: string;
+}
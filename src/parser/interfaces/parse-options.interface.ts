@@ -0,0 +1,71 @@
+import { ScanProgressListener } from '../../common/scan-progress';
+import { ScanEventListener } from '../../common/scan-events';
+import {
+  LlmProviderName,
+  LlmUsageListener,
+} from '../../llm/providers/llm-provider.interface';
+import { FetchedImage } from './fetched-image.interface';
+
+/**
+ * Ways of turning the parsed HTML into the structured document:
+ * `llm` asks the language model per chunk, `dom` builds it directly from the DOM.
+ */
+export const EXTRACTION_MODES = ['llm', 'dom'] as const;
+
+export type ExtractionMode = (typeof EXTRACTION_MODES)[number];
+
+/**
+ * Formats the normalized content can be returned in.
+ */
+export const OUTPUT_FORMATS = [
+  'json',
+  'markdown',
+  'text',
+  'html-clean',
+] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * How a request uses the result and chunk caches: `use` reads and fills them,
+ * `refresh` skips reading but stores the new results, `bypass` ignores them entirely.
+ */
+export const CACHE_MODES = ['use', 'refresh', 'bypass'] as const;
+
+export type CacheMode = (typeof CACHE_MODES)[number];
+
+/**
+ * Options selecting which part of a document is extracted.
+ */
+export interface ContentScopeOptions {
+  includeSelectors?: string[];
+  excludeSelectors?: string[];
+  detectMainContent?: boolean;
+}
+
+/**
+ * Options controlling how HTML content is normalized.
+ */
+export interface ParseOptions extends ContentScopeOptions {
+  scanId?: string;
+  /** The API client the scan runs for: it owns the artifacts and may use its own templates. */
+  clientId?: string;
+  onProgress?: ScanProgressListener;
+  onUsage?: LlmUsageListener;
+  /** Throws once the client's LLM token budget is used; called before each LLM call. */
+  checkBudget?: () => void;
+  onEvent?: ScanEventListener;
+  /** Emits the text the LLM generates for each chunk as `token` events. */
+  streamTokens?: boolean;
+  llmProvider?: LlmProviderName;
+  extractionMode?: ExtractionMode;
+  debug?: boolean;
+  template?: string;
+  schema?: object;
+  outputFormat?: OutputFormat;
+  cache?: CacheMode;
+  preloadedImages?: Map<string, FetchedImage>;
+  describeImages?: boolean;
+  /** Stops the parsing between chunks once aborted. */
+  signal?: AbortSignal;
+}
@@ -0,0 +1,166 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { parse } from 'node-html-parser';
+import { OutputRendererService } from './output-renderer.service';
+
+describe('OutputRendererService', () => {
+  let service: OutputRendererService;
+  const html = `
+    <html>
+      <head><title>Guide</title><script>track();</script></head>
+      <body>
+        <h1>Install</h1>
+        <p class="lead">Read the <a href="/docs">docs</a> <strong>first</strong>.</p>
+        <ul><li>One<ul><li>Nested</li></ul></li><li>Two</li></ul>
+        <pre><code class="language-bash">npm install
+npm start</code></pre>
+        <table><tr><th>Flag</th><th>Default</th></tr><tr><td>a|b</td><td>1</td></tr></table>
+      </body>
+    </html>`;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [OutputRendererService],
+    }).compile();
+
+    service = module.get<OutputRendererService>(OutputRendererService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should render HTML as Markdown', () => {
+    expect(
+      service.renderHtml(parse(html), 'markdown', 'https://example.com/'),
+    ).toBe(
+      [
+        '# Install',
+        '',
+        'Read the [docs](https://example.com/docs) **first**.',
+        '',
+        '- One',
+        '  - Nested',
+        '- Two',
+        '',
+        '```bash',
+        'npm install',
+        'npm start',
+        '```',
+        '',
+        '| Flag | Default |',
+        '| --- | --- |',
+        '| a\\|b | 1 |',
+      ].join('\n'),
+    );
+  });
+
+  it('should render HTML as plain text', () => {
+    const text = service.renderHtml(parse(html), 'text');
+
+    expect(text).toContain('Install\n\nRead the docs first.');
+    expect(text).not.toContain('track()');
+  });
+
+  it('should clean HTML', () => {
+    expect(
+      service.renderHtml(
+        parse(
+          '<body><p class="x" style="y">Hi <a href="/a" onclick="z">a</a></p><script>1</script></body>',
+        ),
+        'html-clean',
+        'https://example.com/',
+      ),
+    ).toBe('<p>Hi <a href="https://example.com/a">a</a></p>');
+  });
+
+  it('should drop links and sources with unsafe protocols', () => {
+    const html =
+      '<body><p><a href="javascript:alert(1)">x</a> <a href="mailto:a@example.com">mail</a> <a href="docs">docs</a><img src="data:text/html,y" alt="pic"></p></body>';
+
+    expect(service.renderHtml(parse(html), 'html-clean')).toBe(
+      '<p><a>x</a> <a href="mailto:a@example.com">mail</a> <a href="docs">docs</a><img alt="pic"></p>',
+    );
+    expect(service.renderHtml(parse(html), 'markdown')).toBe(
+      'x [mail](mailto:a@example.com) [docs](docs)pic',
+    );
+  });
+
+  it('should render a structured document as Markdown', () => {
+    const document = {
+      title: 'Guide',
+      sections: [
+        {
+          header: 'Install',
+          content: [
+            { type: 'text', description: '', value: 'Run it.' },
+            { type: 'image', description: 'Screen', value: 'https://a/b.png' },
+            {
+              type: 'table',
+              description: 'Flags',
+              value: 'Flag,Default\na,1\n',
+            },
+          ],
+        },
+      ],
+    };
+
+    expect(service.renderDocument(document, 'markdown')).toBe(
+      [
+        '# Guide',
+        '',
+        '## Install',
+        '',
+        'Run it.',
+        '',
+        '![Screen](https://a/b.png)',
+        '',
+        'Flags',
+        '',
+        '| Flag | Default |',
+        '| --- | --- |',
+        '| a | 1 |',
+      ].join('\n'),
+    );
+  });
+
+  it('should render tables from their columns and rows', () => {
+    const document = {
+      title: 'Prices',
+      sections: [
+        {
+          header: 'Plans',
+          content: [
+            {
+              type: 'table',
+              description: 'Plans',
+              value: 'table_1.csv',
+              columns: ['Plan', 'Price'],
+              rows: [{ Plan: 'Pro, yearly', Price: '10' }],
+            },
+            {
+              type: 'table',
+              description: '',
+              value: 'Name,Note\r\nx,"a, ""b"""\r\n',
+            },
+          ],
+        },
+      ],
+    };
+
+    expect(service.renderDocument(document, 'text')).toBe(
+      [
+        'Prices',
+        '',
+        'Plans',
+        '',
+        'Plans',
+        '',
+        'Plan\tPrice',
+        'Pro, yearly\t10',
+        '',
+        'Name\tNote',
+        'x\ta, "b"',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,355 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { parse, HTMLElement } from 'node-html-parser';
+import { getTableRows, parseCsv, renderMarkdownTable } from './table.utils';
+import { OutputFormat } from './interfaces/parse-options.interface';
+
+const TEXT_TYPE_NODE = 3;
+const REMOVED_TAGS = [
+  'SCRIPT',
+  'STYLE',
+  'NOSCRIPT',
+  'TEMPLATE',
+  'IFRAME',
+  'SVG',
+  'CANVAS',
+  'OBJECT',
+  'EMBED',
+  'LINK',
+  'META',
+];
+const KEPT_ATTRIBUTES = ['href', 'src', 'alt', 'title', 'colspan', 'rowspan'];
+const URL_PROTOCOLS = {
+  href: ['http:', 'https:', 'mailto:'],
+  src: ['http:', 'https:'],
+};
+const BLOCK_TAGS = [
+  'ADDRESS',
+  'ARTICLE',
+  'ASIDE',
+  'DD',
+  'DIV',
+  'DL',
+  'DT',
+  'FIGCAPTION',
+  'FIGURE',
+  'FOOTER',
+  'FORM',
+  'HEADER',
+  'MAIN',
+  'NAV',
+  'P',
+  'SECTION',
+];
+
+/**
+ * Renders parsed HTML, or a structured `{title, sections}` document, as Markdown,
+ * plain text or cleaned HTML.
+ */
+@Injectable()
+export class OutputRendererService {
+  private readonly logger = new Logger(OutputRendererService.name);
+
+  /**
+   * Renders the parsed HTML directly, without the LLM step.
+   * @param {HTMLElement} root - The parsed HTML root.
+   * @param {OutputFormat} format - The output format: `markdown`, `text` or `html-clean`.
+   * @param {string} [originalUrl] - The original URL of the HTML content, used to resolve links.
+   * @returns {string} - The rendered content.
+   */
+  renderHtml(
+    root: HTMLElement,
+    format: OutputFormat,
+    originalUrl?: string,
+  ): string {
+    this.logger.log(`Rendering HTML as ${format}`);
+    if (format === 'html-clean') {
+      return this.cleanHtml(root, originalUrl);
+    }
+    const body = root.querySelector('body') ?? root;
+    const rendered = body.childNodes
+      .map((node) => this.renderNode(node, format === 'text', originalUrl))
+      .join('');
+    return this.collapseBlankLines(rendered);
+  }
+
+  /**
+   * Renders a structured `{title, sections}` document.
+   * @param {any} document - The structured document.
+   * @param {OutputFormat} format - The output format: `markdown` or `text`.
+   * @returns {string} - The rendered content.
+   */
+  renderDocument(document: any, format: OutputFormat): string {
+    this.logger.log(`Rendering document as ${format}`);
+    const plain = format === 'text';
+    const blocks: string[] = [];
+    if (document.title) {
+      blocks.push(plain ? document.title : `# ${document.title}`);
+    }
+    for (const section of document.sections ?? []) {
+      if (section.header) {
+        blocks.push(plain ? section.header : `## ${section.header}`);
+      }
+      for (const item of section.content ?? []) {
+        blocks.push(this.renderContentItem(item, plain));
+      }
+    }
+    return this.collapseBlankLines(blocks.filter(Boolean).join('\n\n'));
+  }
+
+  /**
+   * Renders one content item of a section.
+   * @param {any} item - The content item.
+   * @param {boolean} plain - Whether to render plain text instead of Markdown.
+   * @returns {string} - The rendered item.
+   */
+  private renderContentItem(item: any, plain: boolean): string {
+    const value = item.value ?? '';
+    if (item.type === 'image') {
+      return plain
+        ? item.description || ''
+        : `![${item.description ?? ''}](${value})`;
+    }
+    if (item.type === 'table') {
+      const rows = Array.isArray(item.columns)
+        ? [
+            item.columns,
+            ...(item.rows ?? []).map((row: any) =>
+              item.columns.map((column: string) => String(row[column] ?? '')),
+            ),
+          ]
+        : value.includes('\n')
+          ? parseCsv(value).filter((cells) => cells.some(Boolean))
+          : [];
+      const table = plain
+        ? rows.map((cells: string[]) => cells.join('\t')).join('\n')
+        : renderMarkdownTable(rows);
+      return [item.description, table || value].filter(Boolean).join('\n\n');
+    }
+    return value;
+  }
+
+  /**
+   * Renders a node and its children as Markdown or plain text.
+   * @param {any} node - The node to render.
+   * @param {boolean} plain - Whether to render plain text instead of Markdown.
+   * @param {string} [originalUrl] - The original URL, used to resolve links.
+   * @returns {string} - The rendered content.
+   */
+  private renderNode(node: any, plain: boolean, originalUrl?: string): string {
+    if (node.nodeType === TEXT_TYPE_NODE) {
+      return node.text.replace(/\s+/g, ' ');
+    }
+    const tagName = node.tagName;
+    if (!tagName || REMOVED_TAGS.includes(tagName) || tagName === 'HEAD') {
+      return '';
+    }
+    const children = () =>
+      node.childNodes
+        .map((child: any) => this.renderNode(child, plain, originalUrl))
+        .join('');
+
+    const heading = /^H([1-6])$/.exec(tagName);
+    if (heading) {
+      const text = children().trim();
+      return plain
+        ? `\n\n${text}\n\n`
+        : `\n\n${'#'.repeat(Number(heading[1]))} ${text}\n\n`;
+    }
+
+    switch (tagName) {
+      case 'BR':
+        return '\n';
+      case 'HR':
+        return plain ? '\n\n' : '\n\n---\n\n';
+      case 'A': {
+        const text = children().trim();
+        const href = this.resolveUrl(
+          node.getAttribute('href'),
+          originalUrl,
+          URL_PROTOCOLS.href,
+        );
+        return plain || !href || !text ? text : `[${text}](${href})`;
+      }
+      case 'IMG': {
+        const alt = node.getAttribute('alt') ?? '';
+        const src = this.resolveUrl(
+          node.getAttribute('src'),
+          originalUrl,
+          URL_PROTOCOLS.src,
+        );
+        return plain || !src ? alt : `![${alt}](${src})`;
+      }
+      case 'STRONG':
+      case 'B':
+        return this.wrapInline(children(), plain ? '' : '**');
+      case 'EM':
+      case 'I':
+        return this.wrapInline(children(), plain ? '' : '*');
+      case 'CODE':
+        return this.wrapInline(node.text, plain ? '' : '`');
+      case 'PRE': {
+        // The parser keeps the content of <pre> as raw text, so parse it separately
+        const pre = parse(node.innerHTML);
+        const language = /language-(\S+)/.exec(
+          pre.querySelector('code')?.getAttribute('class') ?? '',
+        );
+        const code = pre.text.replace(/\n+$/, '');
+        return plain
+          ? `\n\n${code}\n\n`
+          : `\n\n\`\`\`${language ? language[1] : ''}\n${code}\n\`\`\`\n\n`;
+      }
+      case 'BLOCKQUOTE': {
+        const quote = this.collapseBlankLines(children());
+        return plain
+          ? `\n\n${quote}\n\n`
+          : `\n\n${quote
+              .split('\n')
+              .map((line) => `> ${line}`)
+              .join('\n')}\n\n`;
+      }
+      case 'UL':
+      case 'OL':
+        return `\n\n${this.renderList(node, plain, originalUrl, 0)}\n\n`;
+      case 'TABLE': {
+        const rows = getTableRows(node);
+        const table = plain
+          ? rows.map((cells) => cells.join('\t')).join('\n')
+          : renderMarkdownTable(rows);
+        return `\n\n${table}\n\n`;
+      }
+      default:
+        return BLOCK_TAGS.includes(tagName)
+          ? `\n\n${children().trim()}\n\n`
+          : children();
+    }
+  }
+
+  /**
+   * Renders a list with nested lists indented below their items.
+   * @param {any} listNode - The `<ul>` or `<ol>` node.
+   * @param {boolean} plain - Whether to render plain text instead of Markdown.
+   * @param {string} originalUrl - The original URL, used to resolve links.
+   * @param {number} depth - The nesting depth.
+   * @returns {string} - The rendered list.
+   */
+  private renderList(
+    listNode: any,
+    plain: boolean,
+    originalUrl: string,
+    depth: number,
+  ): string {
+    const indent = '  '.repeat(depth);
+    const items = listNode.childNodes.filter(
+      (child: any) => child.tagName === 'LI',
+    );
+    return items
+      .map((item: any, index: number) => {
+        const marker = listNode.tagName === 'OL' ? `${index + 1}.` : '-';
+        const text = item.childNodes
+          .filter((child: any) => !['UL', 'OL'].includes(child.tagName))
+          .map((child: any) => this.renderNode(child, plain, originalUrl))
+          .join('')
+          .replace(/\s+/g, ' ')
+          .trim();
+        const nested = item.childNodes
+          .filter((child: any) => ['UL', 'OL'].includes(child.tagName))
+          .map((child: any) =>
+            this.renderList(child, plain, originalUrl, depth + 1),
+          );
+        return [`${indent}${marker} ${text}`, ...nested].join('\n');
+      })
+      .join('\n');
+  }
+
+  /**
+   * Strips scripts, styles, embedded content and presentational attributes,
+   * and resolves links and image sources against the original URL. Links and
+   * sources with other protocols than http(s), or mailto for links, are dropped.
+   * @param {HTMLElement} root - The parsed HTML root.
+   * @param {string} [originalUrl] - The original URL, used to resolve links.
+   * @returns {string} - The cleaned HTML.
+   */
+  private cleanHtml(root: HTMLElement, originalUrl?: string): string {
+    const body = (root.querySelector('body') ?? root).clone() as HTMLElement;
+    for (const element of body.querySelectorAll('*')) {
+      if (REMOVED_TAGS.includes(element.tagName)) {
+        element.remove();
+        continue;
+      }
+      for (const attribute of Object.keys(element.attributes)) {
+        if (!KEPT_ATTRIBUTES.includes(attribute.toLowerCase())) {
+          element.removeAttribute(attribute);
+        }
+      }
+      for (const attribute of ['href', 'src']) {
+        if (!element.hasAttribute(attribute)) {
+          continue;
+        }
+        const resolved = this.resolveUrl(
+          element.getAttribute(attribute),
+          originalUrl,
+          URL_PROTOCOLS[attribute],
+        );
+        if (resolved) {
+          element.setAttribute(attribute, resolved);
+        } else {
+          element.removeAttribute(attribute);
+        }
+      }
+    }
+    return body.innerHTML.trim();
+  }
+
+  /**
+   * Resolves a link against the original URL and checks its protocol.
+   * @param {string} [url] - The link as written in the HTML.
+   * @param {string} [originalUrl] - The original URL.
+   * @param {string[]} protocols - The allowed protocols, e.g. `https:`.
+   * @returns {string | null} - The absolute URL, the link unchanged if it is relative and there is no original URL, or null if there is none or its protocol is not allowed.
+   */
+  private resolveUrl(
+    url: string | undefined,
+    originalUrl: string | undefined,
+    protocols: string[],
+  ): string | null {
+    if (!url) {
+      return null;
+    }
+    if (URL.canParse(url, originalUrl)) {
+      const resolved = new URL(url, originalUrl);
+      return protocols.includes(resolved.protocol) ? resolved.href : null;
+    }
+    // Only relative links cannot be resolved without an original URL
+    return URL.canParse(url, 'https://relative.invalid') ? url : null;
+  }
+
+  /**
+   * Wraps inline text in a Markdown marker, keeping surrounding whitespace outside the marker.
+   * @param {string} text - The inline text.
+   * @param {string} marker - The marker, e.g. `**`.
+   * @returns {string} - The wrapped text.
+   */
+  private wrapInline(text: string, marker: string): string {
+    const trimmed = text.trim();
+    if (!trimmed || !marker) {
+      return text;
+    }
+    const leading = text.startsWith(' ') ? ' ' : '';
+    const trailing = text.endsWith(' ') ? ' ' : '';
+    return `${leading}${marker}${trimmed}${marker}${trailing}`;
+  }
+
+  /**
+   * Trims lines and collapses runs of blank lines into one.
+   * @param {string} text - The rendered text.
+   * @returns {string} - The tidied text.
+   */
+  private collapseBlankLines(text: string): string {
+    return text
+      .split('\n')
+      .map((line) => line.replace(/\s+$/, ''))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+}
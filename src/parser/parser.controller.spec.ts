@@ -0,0 +1,174 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
+import request from 'supertest';
+import { ParserController } from './parser.controller';
+import { ParserService } from './parser.service';
+import { DocumentConverterService } from './document-converter.service';
+import { UrlPolicyService } from '../url-policy/url-policy.service';
+import { ApiKeyGuard } from '../auth/api-key.guard';
+import { QuotaService } from '../auth/quota.service';
+import { UsageService } from '../usage/usage.service';
+import { configureBodyParser } from '../common/http/body-parser';
+
+describe('ParserController', () => {
+  let module: TestingModule;
+  let controller: ParserController;
+  const urlPolicyService = { assertAllowed: jest.fn(), requestOptions: {} };
+  const parserService = { getNormalizedContent: jest.fn() };
+  const release = jest.fn();
+  const quotaService = {
+    acquireScan: jest.fn(() => release),
+    recordTokens: jest.fn(),
+    assertTokenBudget: jest.fn(),
+  };
+  const usageService = { record: jest.fn() };
+
+  beforeEach(async () => {
+    parserService.getNormalizedContent.mockReset();
+    parserService.getNormalizedContent.mockResolvedValue([]);
+    release.mockReset();
+
+    module = await Test.createTestingModule({
+      controllers: [ParserController],
+      providers: [
+        { provide: ParserService, useValue: parserService },
+        DocumentConverterService,
+        { provide: UrlPolicyService, useValue: urlPolicyService },
+        { provide: QuotaService, useValue: quotaService },
+        { provide: UsageService, useValue: usageService },
+      ],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<ParserController>(ParserController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should parse raw HTML with the given base URL', async () => {
+    await controller.parse({
+      html: '<p>Hello</p>',
+      baseUrl: 'https://example.com/docs/',
+    });
+
+    expect(parserService.getNormalizedContent).toHaveBeenCalledWith(
+      '<p>Hello</p>',
+      'https://example.com/docs/',
+      {
+        clientId: undefined,
+        onUsage: expect.any(Function),
+        checkBudget: expect.any(Function),
+        llmProvider: undefined,
+        extractionMode: undefined,
+        debug: undefined,
+        template: undefined,
+        schema: undefined,
+        outputFormat: undefined,
+        cache: undefined,
+        includeSelectors: undefined,
+        excludeSelectors: undefined,
+        detectMainContent: undefined,
+        describeImages: undefined,
+      },
+    );
+  });
+
+  it('should prefer an uploaded file over the html field', async () => {
+    const file = {
+      buffer: Buffer.from('<p>From file</p>'),
+      mimetype: 'text/html',
+    } as any;
+
+    await controller.parse({ html: '<p>Ignored</p>' }, file);
+
+    expect(parserService.getNormalizedContent).toHaveBeenCalledWith(
+      '<p>From file</p>',
+      undefined,
+      {
+        clientId: undefined,
+        onUsage: expect.any(Function),
+        checkBudget: expect.any(Function),
+        llmProvider: undefined,
+        extractionMode: undefined,
+        debug: undefined,
+        template: undefined,
+        schema: undefined,
+        outputFormat: undefined,
+        cache: undefined,
+        includeSelectors: undefined,
+        excludeSelectors: undefined,
+        detectMainContent: undefined,
+        describeImages: undefined,
+      },
+    );
+  });
+
+  it('should convert uploaded plain text to HTML', async () => {
+    const file = {
+      buffer: Buffer.from('Plain notes'),
+      mimetype: 'text/plain',
+    } as any;
+
+    await controller.parse({}, file);
+
+    expect(parserService.getNormalizedContent.mock.calls[0][0]).toContain(
+      '<main><p>Plain notes</p></main>',
+    );
+  });
+
+  it('should accept JSON bodies larger than 100 kB', async () => {
+    const app = module.createNestApplication<NestExpressApplication>();
+    configureBodyParser(app);
+    await app.init();
+    const html = `<p>${'x'.repeat(200 * 1024)}</p>`;
+
+    const response = await request(app.getHttpServer())
+      .post('/api/v1/parser/parse')
+      .send({ html });
+    await app.close();
+
+    expect(response.status).toBe(201);
+    expect(parserService.getNormalizedContent.mock.calls[0][0]).toBe(html);
+  });
+
+  it('should reject a request without HTML', async () => {
+    await expect(controller.parse({})).rejects.toBeInstanceOf(
+      BadRequestException,
+    );
+  });
+
+  it('should reject a relative base URL', async () => {
+    await expect(
+      controller.parse({ html: '<p>Hello</p>', baseUrl: '/docs' }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+
+  it('should record the usage of the client and release its scan slot', async () => {
+    const client = { id: 'acme' } as any;
+    parserService.getNormalizedContent.mockImplementation(
+      async (_html, _url, options) => {
+        options.onUsage({ promptTokens: 10, completionTokens: 5 });
+        throw new Error('boom');
+      },
+    );
+
+    await expect(
+      controller.parse({ html: '<p>Hello</p>' }, undefined, client),
+    ).rejects.toThrow('boom');
+    expect(quotaService.acquireScan).toHaveBeenCalledWith(client);
+    expect(quotaService.recordTokens).toHaveBeenCalledWith(client, {
+      promptTokens: 10,
+      completionTokens: 5,
+    });
+    expect(usageService.record).toHaveBeenCalledWith('acme', {
+      promptTokens: 10,
+      completionTokens: 5,
+    });
+    expect(release).toHaveBeenCalled();
+  });
+});
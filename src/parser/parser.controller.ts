@@ -0,0 +1,111 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Post,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiSecurity,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ParserService } from './parser.service';
+import { ParseRequestDto } from './dto/parse-request.dto';
+import { DocumentConverterService } from './document-converter.service';
+import { ApiKeyGuard } from '../auth/api-key.guard';
+import { CurrentClient } from '../auth/api-client.decorator';
+import { QuotaService } from '../auth/quota.service';
+import { ApiClient } from '../auth/interfaces/api-client.interface';
+import { LlmCallUsage } from '../llm/providers/llm-provider.interface';
+import { UsageService } from '../usage/usage.service';
+
+/**
+ * Controller for parsing HTML that is already available to the caller,
+ * bypassing the headless browser.
+ */
+@ApiTags('parser')
+@ApiSecurity('api-key')
+@UseGuards(ApiKeyGuard)
+@Controller('/api/v1/parser')
+export class ParserController {
+  constructor(
+    private readonly parserService: ParserService,
+    private readonly documentConverterService: DocumentConverterService,
+    private readonly quotaService: QuotaService,
+    private readonly usageService: UsageService,
+  ) {}
+
+  /**
+   * Endpoint to parse raw HTML or an uploaded document (HTML, PDF, plain text, JSON or an RSS/Atom feed).
+   * @param {ParseRequestDto} parseRequestDto - The request data transfer object containing the HTML and optional base URL.
+   * @param {Express.Multer.File} file - The uploaded document, if any.
+   * @param {ApiClient} [client] - The authenticated client, whose scan slot and token budget the request uses.
+   * @returns {Promise<any>} - A promise that resolves to the normalized content of the HTML.
+   */
+  @Post('parse')
+  @ApiOperation({
+    summary:
+      'Parse raw HTML or an uploaded document without launching a browser',
+  })
+  @ApiConsumes('application/json', 'multipart/form-data')
+  @ApiBody({ type: ParseRequestDto })
+  @UseInterceptors(FileInterceptor('file'))
+  async parse(
+    @Body() parseRequestDto: ParseRequestDto,
+    @UploadedFile() file?: Express.Multer.File,
+    @CurrentClient() client?: ApiClient,
+  ): Promise<any> {
+    const htmlContent = file
+      ? await this.documentConverterService.toHtml({
+          content: file.buffer,
+          contentType: file.mimetype,
+        })
+      : parseRequestDto.html;
+    if (!htmlContent) {
+      throw new BadRequestException(
+        'Either an "html" field or a "file" upload is required',
+      );
+    }
+    if (parseRequestDto.baseUrl && !URL.canParse(parseRequestDto.baseUrl)) {
+      throw new BadRequestException('"baseUrl" must be an absolute URL');
+    }
+
+    const release = this.quotaService.acquireScan(client);
+    const onUsage = (usage: LlmCallUsage) => {
+      this.usageService.record(client?.id, usage);
+      this.quotaService.recordTokens(client, usage);
+      this.quotaService.assertTokenBudget(client);
+    };
+    const checkBudget = () => this.quotaService.assertTokenBudget(client);
+    try {
+      return await this.parserService.getNormalizedContent(
+        htmlContent,
+        parseRequestDto.baseUrl,
+        {
+          clientId: client?.id,
+          onUsage,
+          checkBudget,
+          llmProvider: parseRequestDto.llmProvider,
+          extractionMode: parseRequestDto.extractionMode,
+          debug: parseRequestDto.debug,
+          template: parseRequestDto.template,
+          schema: parseRequestDto.schema,
+          outputFormat: parseRequestDto.outputFormat,
+          cache: parseRequestDto.cache,
+          includeSelectors: parseRequestDto.includeSelectors,
+          excludeSelectors: parseRequestDto.excludeSelectors,
+          detectMainContent: parseRequestDto.detectMainContent,
+          describeImages: parseRequestDto.describeImages,
+        },
+      );
+    } finally {
+      release();
+    }
+  }
+}
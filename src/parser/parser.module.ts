@@ -1,10 +1,60 @@
 import { Module } from '@nestjs/common';
+import { MulterModule } from '@nestjs/platform-express';
 import { ParserService } from './parser.service';
+import { DomExtractorService } from './dom-extractor.service';
+import { DocumentMergerService } from './document-merger.service';
+import { ChunkerService } from './chunker.service';
+import { OutputRendererService } from './output-renderer.service';
+import { ContentScopeService } from './content-scope.service';
+import { ImageFetcherService } from './image-fetcher.service';
+import { ImageCaptionService } from './image-caption.service';
+import {
+  DEFAULT_DOCUMENT_MAX_BYTES,
+  DocumentConverterService,
+} from './document-converter.service';
+import { ParserController } from './parser.controller';
 import { LlmModule } from '../llm/llm.module';
+import { TemplatesModule } from '../templates/templates.module';
+import { StorageModule } from '../storage/storage.module';
+import { CacheModule } from '../cache/cache.module';
+import { UrlPolicyModule } from '../url-policy/url-policy.module';
+import { AuthModule } from '../auth/auth.module';
+import { UsageModule } from '../usage/usage.module';
+import { MetricsModule } from '../metrics/metrics.module';
 
 @Module({
-  imports: [LlmModule],
-  providers: [ParserService],
-  exports: [ParserService],
+  imports: [
+    LlmModule,
+    TemplatesModule,
+    StorageModule,
+    CacheModule,
+    UrlPolicyModule,
+    AuthModule,
+    UsageModule,
+    MetricsModule,
+    // Uploads larger than DOCUMENT_MAX_BYTES are rejected with 413 while they are received
+    MulterModule.registerAsync({
+      useFactory: () => ({
+        limits: {
+          fileSize:
+            Number(process.env['DOCUMENT_MAX_BYTES']) ||
+            DEFAULT_DOCUMENT_MAX_BYTES,
+        },
+      }),
+    }),
+  ],
+  providers: [
+    ParserService,
+    DomExtractorService,
+    DocumentMergerService,
+    ChunkerService,
+    OutputRendererService,
+    ContentScopeService,
+    ImageFetcherService,
+    ImageCaptionService,
+    DocumentConverterService,
+  ],
+  controllers: [ParserController],
+  exports: [ParserService, ImageFetcherService, DocumentConverterService],
 })
 export class ParserModule {}
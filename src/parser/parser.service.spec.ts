@@ -1,18 +1,315 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ParserService } from './parser.service';
+import { LlmService } from '../llm/llm.service';
+import { OutputValidatorService } from '../llm/output-validator.service';
+import { DomExtractorService } from './dom-extractor.service';
+import { DocumentMergerService } from './document-merger.service';
+import { TemplatesService } from '../templates/templates.service';
+import { ChunkerService } from './chunker.service';
+import { OutputRendererService } from './output-renderer.service';
+import { ContentScopeService } from './content-scope.service';
+import { ImageFetcherService } from './image-fetcher.service';
+import { ImageCaptionService } from './image-caption.service';
+import { StorageService } from '../storage/storage.service';
+import { CacheService } from '../cache/cache.service';
+import { UrlPolicyService } from '../url-policy/url-policy.service';
+import { MetricsService } from '../metrics/metrics.service';
+import {
+  LlmFailureException,
+  QuotaExceededException,
+} from '../common/errors/api-exceptions';
 
 describe('ParserService', () => {
   let service: ParserService;
+  let metricsService: MetricsService;
+  const urlPolicyService = { assertAllowed: jest.fn(), requestOptions: {} };
+  const llmService = {
+    getProvider: jest.fn(),
+    processText: jest.fn().mockResolvedValue('{}'),
+    describeImage: jest.fn(),
+  };
+  const outputValidatorService = {
+    validateResponse: jest.fn().mockResolvedValue({
+      valid: true,
+      value: { title: 'Title', sections: [{ header: 'Title', content: [] }] },
+    }),
+  };
+  const storageService = {
+    createScanId: jest.fn().mockReturnValue('scan'),
+    saveArtifact: jest.fn(),
+  };
 
   beforeEach(async () => {
+    jest.clearAllMocks();
+    llmService.getProvider.mockReturnValue({
+      name: 'heuristic',
+      maxChunkTokens: 2000,
+    });
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ParserService],
+      providers: [
+        ParserService,
+        DomExtractorService,
+        DocumentMergerService,
+        TemplatesService,
+        ChunkerService,
+        OutputRendererService,
+        ContentScopeService,
+        ImageFetcherService,
+        ImageCaptionService,
+        { provide: LlmService, useValue: llmService },
+        { provide: OutputValidatorService, useValue: outputValidatorService },
+        { provide: StorageService, useValue: storageService },
+        { provide: UrlPolicyService, useValue: urlPolicyService },
+        CacheService,
+        MetricsService,
+      ],
     }).compile();
 
     service = module.get<ParserService>(ParserService);
+    metricsService = module.get<MetricsService>(MetricsService);
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should reuse the LLM output of unchanged chunks', async () => {
+    const html = '<h1>Title</h1><p>Some text</p>';
+
+    const first = await service.getNormalizedContent(html);
+    const second = await service.getNormalizedContent(html);
+
+    expect(llmService.processText).toHaveBeenCalledTimes(1);
+    expect(first.cache).toEqual({ hit: false, chunkHits: 0, chunksTotal: 1 });
+    expect(second.cache).toEqual({ hit: false, chunkHits: 1, chunksTotal: 1 });
+    expect(second.sections).toEqual(first.sections);
+    const metrics = await metricsService.getMetrics();
+    expect(metrics).toContain('scanner_chunks_total{source="llm"} 1');
+    expect(metrics).toContain('scanner_chunks_total{source="cache"} 1');
+  });
+
+  it('should stop before the next chunk once the scan is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      service.getNormalizedContent('<p>Some text</p>', undefined, {
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow('aborted');
+    expect(llmService.processText).not.toHaveBeenCalled();
+  });
+
+  it('should check the token budget before each LLM call', async () => {
+    const checkBudget = jest.fn(() => {
+      throw new QuotaExceededException(
+        'TOKEN_BUDGET_EXCEEDED',
+        'Budget used',
+        60,
+      );
+    });
+
+    await expect(
+      service.getNormalizedContent('<p>Budget text</p>', undefined, {
+        checkBudget,
+      }),
+    ).rejects.toBeInstanceOf(QuotaExceededException);
+    expect(checkBudget).toHaveBeenCalledTimes(1);
+    expect(llmService.processText).not.toHaveBeenCalled();
+  });
+
+  it('should record a failed LLM call in the errors of its chunk', async () => {
+    llmService.processText.mockRejectedValueOnce(
+      new LlmFailureException('LLM provider "heuristic" failed: timeout'),
+    );
+
+    const result = await service.getNormalizedContent(
+      '<h1>Failing</h1><p>Some text</p>',
+    );
+
+    expect(outputValidatorService.validateResponse).not.toHaveBeenCalled();
+    expect(result.errors).toEqual([
+      { chunk: 0, error: 'LLM provider "heuristic" failed: timeout' },
+    ]);
+  });
+
+  it('should summarize the LLM usage of the scan per chunk', async () => {
+    const call = {
+      type: 'text',
+      provider: 'openai',
+      model: 'gpt-4o',
+      promptTokens: 100,
+      completionTokens: 20,
+      latencyMs: 250,
+      costUsd: 0.00045,
+    };
+    llmService.processText.mockImplementationOnce(async (_text, options) => {
+      options.onUsage(call);
+      return '{}';
+    });
+    const onUsage = jest.fn();
+
+    const result = await service.getNormalizedContent(
+      '<p>Usage text</p>',
+      undefined,
+      { onUsage },
+    );
+
+    expect(onUsage).toHaveBeenCalledWith(call);
+    expect(result.usage).toEqual({
+      llmCalls: 1,
+      promptTokens: 100,
+      completionTokens: 20,
+      totalTokens: 120,
+      costUsd: 0.00045,
+      latencyMs: 250,
+      calls: [{ ...call, chunk: 0 }],
+    });
+  });
+
+  it('should emit the chunk count, streamed tokens and each chunk result', async () => {
+    llmService.processText.mockImplementationOnce(async (_text, options) => {
+      options.onToken('{}');
+      return '{}';
+    });
+    const onEvent = jest.fn();
+
+    await service.getNormalizedContent('<p>Streamed text</p>', undefined, {
+      onEvent,
+      streamTokens: true,
+    });
+
+    expect(onEvent.mock.calls.map(([event]) => event)).toEqual([
+      { type: 'chunks', chunksTotal: 1 },
+      { type: 'token', chunk: 0, content: '{}' },
+      {
+        type: 'chunk',
+        index: 0,
+        cached: false,
+        result: {
+          title: 'Title',
+          sections: [{ header: 'Title', content: [] }],
+        },
+      },
+    ]);
+  });
+
+  it('should skip cached chunks when refreshing', async () => {
+    const html = '<p>Some text</p>';
+
+    await service.getNormalizedContent(html);
+    await service.getNormalizedContent(html, undefined, { cache: 'refresh' });
+
+    expect(llmService.processText).toHaveBeenCalledTimes(2);
+  });
+
+  it('should store images with their real format and keep failures as placeholders', async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString('base64');
+    const html = `<p>Logo</p><img src="data:image/png;base64,${png}"><img src="data:text/plain,oops">`;
+
+    await service.getNormalizedContent(html);
+
+    const [name, , contentType] =
+      storageService.saveArtifact.mock.calls[0].slice(1);
+    expect(name).toMatch(/^image_[0-9a-f]{64}\.png$/);
+    expect(contentType).toBe('image/png');
+    expect(llmService.processText.mock.calls[0][0]).toContain(
+      '[IMAGE:data URI (error: Unsupported image content (text/plain))]',
+    );
+  });
+
+  it('should put image captions into the placeholders and image entries', async () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString('base64');
+    const html = `<figure><img src="data:image/png;base64,${png}"><figcaption>Sales | 2024</figcaption></figure>`;
+    outputValidatorService.validateResponse.mockImplementationOnce(
+      async (response, text) => {
+        const filename = text.match(/image_\w+\.png/)[0];
+        return {
+          valid: true,
+          value: {
+            title: 'Report',
+            sections: [
+              {
+                header: 'Report',
+                content: [{ type: 'image', description: '', value: filename }],
+              },
+            ],
+          },
+        };
+      },
+    );
+
+    const result = await service.getNormalizedContent(html);
+
+    expect(llmService.processText.mock.calls[0][0]).toMatch(
+      /\[IMAGE:image_\w+\.png \| Sales 2024\]/,
+    );
+    expect(result.sections[0].content[0].description).toBe('Sales 2024');
+  });
+
+  it('should describe images only for chunks that miss the chunk cache', async () => {
+    llmService.getProvider.mockReturnValue({
+      name: 'openai',
+      maxChunkTokens: 2000,
+      supportsVision: true,
+    });
+    llmService.describeImage.mockResolvedValue({ content: 'A bar chart' });
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]).toString('base64');
+    const html = `<h1>Charts</h1><img src="data:image/png;base64,${png}" alt="Chart">`;
+    const options = { describeImages: true };
+
+    await service.getNormalizedContent(html, undefined, options);
+    await service.getNormalizedContent(html, undefined, options);
+    await service.getNormalizedContent(html, undefined, {
+      ...options,
+      cache: 'refresh',
+    });
+
+    expect(llmService.describeImage).toHaveBeenCalledTimes(2);
+    expect(llmService.processText.mock.calls[0][0]).toMatch(
+      /\[IMAGE:image_\w+\.png \| A bar chart\]/,
+    );
+  });
+
+  it('should store tables as CSV and attach their data to table entries', async () => {
+    const html =
+      '<table><caption>Plans</caption><tr><th>Plan</th><th>Price</th></tr><tr><td>Pro, yearly</td><td>10</td></tr></table>';
+    outputValidatorService.validateResponse.mockImplementationOnce(
+      async (response, text) => ({
+        valid: true,
+        value: {
+          title: 'Pricing',
+          sections: [
+            {
+              header: 'Pricing',
+              content: [
+                {
+                  type: 'table',
+                  description: '',
+                  value: text.match(/table_\w+\.csv/)[0],
+                },
+              ],
+            },
+          ],
+        },
+      }),
+    );
+
+    const result = await service.getNormalizedContent(html);
+
+    const [name, content] = storageService.saveArtifact.mock.calls[0].slice(1);
+    expect(name).toMatch(/^table_[0-9a-f]{64}\.csv$/);
+    expect(content).toBe('Plan,Price\r\n"Pro, yearly",10\r\n');
+    expect(llmService.processText.mock.calls[0][0]).toContain(
+      `[TABLE:${name} | Plans]`,
+    );
+    expect(result.sections[0].content[0]).toEqual({
+      type: 'table',
+      description: 'Plans',
+      value: name,
+      caption: 'Plans',
+      columns: ['Plan', 'Price'],
+      rows: [{ Plan: 'Pro, yearly', Price: '10' }],
+    });
+  });
 });
@@ -1,55 +1,338 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { parse, HTMLElement } from 'node-html-parser';
 import { createHash } from 'crypto';
-import * as fs from 'fs';
-import * as path from 'path';
-import axios from 'axios';
 import { LlmService } from '../llm/llm.service';
-import crypto from 'crypto';
+import { OutputValidatorService } from '../llm/output-validator.service';
+import { CacheMode, ParseOptions } from './interfaces/parse-options.interface';
+import {
+  LlmProviderName,
+  LlmUsageListener,
+} from '../llm/providers/llm-provider.interface';
+import {
+  ExtractedTable,
+  extractTable,
+  toCsv,
+  toRowObjects,
+} from './table.utils';
+import { DomExtractorService } from './dom-extractor.service';
+import { ChunkFailure, DocumentMergerService } from './document-merger.service';
+import { TemplatesService } from '../templates/templates.service';
+import { ChunkerService } from './chunker.service';
+import { OutputRendererService } from './output-renderer.service';
+import { StorageService } from '../storage/storage.service';
+import { CacheService } from '../cache/cache.service';
+import { ContentScopeService } from './content-scope.service';
+import { ImageFetcherService } from './image-fetcher.service';
+import { FetchedImage, ImageFile } from './interfaces/fetched-image.interface';
+import { ImageCaptionService, VisionUsage } from './image-caption.service';
+import { ScanUsageCall } from '../usage/interfaces/usage.interface';
+import { summarizeUsage } from '../usage/usage.utils';
+import { MetricsService } from '../metrics/metrics.service';
+import { LlmFailureException } from '../common/errors/api-exceptions';
 
 const TEXT_TYPE_NODE = 3;
-const MAX_CHUNK_SIZE = 3000;
+
+/**
+ * A stored image that gets its vision caption once its chunk misses the chunk cache.
+ */
+interface PendingImage {
+  reference: string;
+  image: ImageFile;
+  pageCaption: string;
+  placeholder?: string;
+}
+
+/**
+ * State shared by all chunks of a scan while their content is extracted.
+ */
+interface ExtractionContext {
+  scanId: string;
+  originalUrl?: string;
+  preloadedImages?: Map<string, FetchedImage>;
+  images: Map<string, string>;
+  captions: Map<string, string>;
+  pendingImages: Map<string, PendingImage>;
+  tables: Map<string, ExtractedTable>;
+  describeImages?: boolean;
+  llmProvider?: LlmProviderName;
+  vision: VisionUsage;
+  onUsage?: LlmUsageListener;
+}
+
 @Injectable()
 export class ParserService {
   private readonly logger = new Logger(ParserService.name);
 
-  constructor(private readonly llmService: LlmService) {}
+  constructor(
+    private readonly llmService: LlmService,
+    private readonly outputValidatorService: OutputValidatorService,
+    private readonly domExtractorService: DomExtractorService,
+    private readonly documentMergerService: DocumentMergerService,
+    private readonly templatesService: TemplatesService,
+    private readonly chunkerService: ChunkerService,
+    private readonly outputRendererService: OutputRendererService,
+    private readonly storageService: StorageService,
+    private readonly cacheService: CacheService,
+    private readonly contentScopeService: ContentScopeService,
+    private readonly imageFetcherService: ImageFetcherService,
+    private readonly imageCaptionService: ImageCaptionService,
+    private readonly metricsService: MetricsService,
+  ) {}
 
   /**
    * Normalizes the HTML content by parsing it, chunking it, extracting relevant content,
    * and processing it through an LLM service.
    * @param {string} htmlContent - The raw HTML content to be normalized.
-   * @param {string} originalUrl - The original URL of the HTML content.
+   * @param {string} [originalUrl] - The original URL of the HTML content, used to resolve relative links.
+   * @param {ParseOptions} [options] - Options controlling the normalization.
    * @returns {Promise<any>} - A promise that resolves to the normalized content.
    */
   async getNormalizedContent(
     htmlContent: string,
-    originalUrl: string,
+    originalUrl?: string,
+    options: ParseOptions = {},
   ): Promise<any> {
     this.logger.log('Normalizing the HTML content');
-    const parsedHtml = this.parseHtml(htmlContent);
-    const folderPath = this.createFolderForResults(originalUrl);
-    const chunks = this.chunkHTML(parsedHtml, MAX_CHUNK_SIZE);
+    const template = this.templatesService.resolve(
+      options.template,
+      options.schema,
+      options.clientId,
+    );
+    const isDefaultTemplate = this.templatesService.isDefault(template);
+    if (options.extractionMode === 'dom' && !isDefaultTemplate) {
+      throw new BadRequestException(
+        'The "dom" extraction mode only supports the default sections template',
+      );
+    }
+    const outputFormat = options.outputFormat ?? 'json';
+    if (outputFormat !== 'json' && !isDefaultTemplate) {
+      throw new BadRequestException(
+        `The "${outputFormat}" output format only supports the default sections template`,
+      );
+    }
+    options.onProgress?.({ phase: 'parsing' });
+    const endExtract = this.metricsService.startPhase('extract');
+    const parsedHtml = this.contentScopeService.scope(
+      this.parseHtml(htmlContent),
+      options,
+    );
+    endExtract();
+    const scanId =
+      options.scanId ?? this.storageService.createScanId(options.clientId);
 
+    if (
+      outputFormat === 'html-clean' ||
+      (options.extractionMode === 'dom' && outputFormat !== 'json')
+    ) {
+      const rendered = {
+        scanId,
+        format: outputFormat,
+        title: this.domExtractorService.extractTitle(parsedHtml),
+        content: this.outputRendererService.renderHtml(
+          parsedHtml,
+          outputFormat,
+          originalUrl,
+        ),
+        errors: [],
+      };
+      await this.saveContent(scanId, rendered);
+      return rendered;
+    }
+
+    if (options.extractionMode === 'dom') {
+      const document = {
+        scanId,
+        ...this.domExtractorService.extract(parsedHtml, originalUrl),
+      };
+      await this.saveContent(scanId, document);
+      return document;
+    }
+
+    const provider = this.llmService.getProvider(options.llmProvider);
+    if (options.describeImages && !provider.supportsVision) {
+      throw new BadRequestException(
+        `LLM provider "${provider.name}" does not support image descriptions`,
+      );
+    }
+    const endChunk = this.metricsService.startPhase('chunk');
+    const chunks = this.chunkerService.chunk(
+      parsedHtml,
+      provider.maxChunkTokens,
+    );
+    endChunk();
+    options.onEvent?.({ type: 'chunks', chunksTotal: chunks.length });
+
+    const cacheMode = options.cache ?? 'use';
+    const systemPrompt = this.templatesService.getSystemPrompt(template);
+    const calls: ScanUsageCall[] = [];
+    let currentChunk = 0;
+    const onUsage: LlmUsageListener = (usage) => {
+      calls.push({ ...usage, chunk: currentChunk });
+      options.onUsage?.(usage);
+    };
+    const context: ExtractionContext = {
+      scanId,
+      originalUrl,
+      preloadedImages: options.preloadedImages,
+      images: new Map(),
+      captions: new Map(),
+      pendingImages: new Map(),
+      tables: new Map(),
+      describeImages: options.describeImages,
+      llmProvider: options.llmProvider,
+      vision: { imagesDescribed: 0, costUsd: 0 },
+      onUsage,
+    };
+    let chunkHits = 0;
     const responses = [];
-    for (const chunk of chunks) {
-      if (chunk.childNodes.length === 0) {
+    for (const [index, chunk] of chunks.entries()) {
+      options.signal?.throwIfAborted();
+      currentChunk = index;
+      options.onProgress?.({
+        phase: 'llm',
+        chunksTotal: chunks.length,
+        chunksCompleted: index,
+      });
+      this.logger.log(`Processing chunk of ${chunk.tokens} tokens`);
+      const tableImageTextContent =
+        await this.extractContentWithTablesAndImages(chunk.element, context);
+      const headingContext = chunk.headings.length
+        ? `[CONTEXT: ${chunk.headings.join(' > ')}]\n`
+        : '';
+      const chunkContent = headingContext + tableImageTextContent;
+      const sanitizedContent = this.sanitizeContent(chunkContent);
+      const cacheKey = this.calculateHash(
+        [
+          provider.name,
+          systemPrompt,
+          options.describeImages ? 'describe-images' : '',
+          sanitizedContent,
+        ].join('\n'),
+      );
+      const cached =
+        cacheMode === 'use' ? this.cacheService.getChunk(cacheKey) : undefined;
+      if (cached !== undefined) {
+        this.logger.log(`Chunk ${index} served from cache`);
+        chunkHits++;
+        for (const [reference, caption] of Object.entries(cached.captions)) {
+          context.captions.set(reference, caption as string);
+        }
+        responses.push(cached.result);
+        options.onEvent?.({
+          type: 'chunk',
+          index,
+          cached: true,
+          result: cached.result,
+        });
         continue;
       }
-      this.logger.log(`Processing chunk of size ${chunk.outerHTML.length}`);
-      const tableImageTextContent =
-        await this.extractContentWithTablesAndImages(
-          chunk,
-          originalUrl,
-          folderPath,
+      const described = await this.describeImages(
+        chunkContent,
+        context,
+        cacheMode,
+      );
+      const content = this.sanitizeContent(described.content);
+      options.signal?.throwIfAborted();
+      options.checkBudget?.();
+
+      const llmOptions = {
+        provider: options.llmProvider,
+        systemPrompt,
+        onUsage,
+      };
+      let response: string;
+      try {
+        response = await this.llmService.processText(content, {
+          ...llmOptions,
+          onToken:
+            options.streamTokens && options.onEvent
+              ? (content) =>
+                  options.onEvent({ type: 'token', chunk: index, content })
+              : undefined,
+        });
+      } catch (error) {
+        if (!(error instanceof LlmFailureException)) {
+          throw error;
+        }
+        this.logger.error(`Chunk ${index} failed: ${error.message}`);
+        const result = new ChunkFailure(index, error.message);
+        responses.push(result);
+        options.onEvent?.({ type: 'chunk', index, cached: false, result });
+        continue;
+      }
+      const output = await this.outputValidatorService.validateResponse(
+        response,
+        content,
+        llmOptions,
+        template.schema,
+      );
+      let result: any;
+      if (output.valid) {
+        result = output.value;
+        if (cacheMode !== 'bypass') {
+          this.cacheService.setChunk(cacheKey, {
+            result: output.value,
+            captions: described.captions,
+          });
+        }
+      } else {
+        this.logger.error(
+          `Chunk ${index} produced invalid output: ${output.errors.join('; ')}`,
+        );
+        result = new ChunkFailure(
+          index,
+          'Invalid LLM output',
+          output.errors,
+          output.raw,
         );
-      const sanitizedContent = this.sanitizeContent(tableImageTextContent);
-      const response = await this.llmService.processText(sanitizedContent);
-      responses.push(JSON.parse(response));
+      }
+      responses.push(result);
+      options.onEvent?.({ type: 'chunk', index, cached: false, result });
     }
+    options.onProgress?.({
+      phase: 'llm',
+      chunksTotal: chunks.length,
+      chunksCompleted: chunks.length,
+    });
+    this.metricsService.recordChunks(chunks.length - chunkHits, chunkHits);
 
-    await this.saveContent(originalUrl, JSON.stringify(responses), folderPath);
-    return responses;
+    const document = {
+      scanId,
+      ...(isDefaultTemplate
+        ? this.documentMergerService.merge(responses)
+        : this.documentMergerService.mergeRecords(responses, template.name)),
+    };
+    if (isDefaultTemplate) {
+      this.applyImageCaptions(document.sections, context.captions);
+      this.applyTables(document.sections, context.tables);
+    }
+    if (options.debug) {
+      document.chunks = responses;
+    }
+    const vision = options.describeImages ? { vision: context.vision } : {};
+    const usage = summarizeUsage(calls);
+    const cache = { hit: false, chunkHits, chunksTotal: chunks.length };
+
+    const result =
+      outputFormat === 'json'
+        ? { ...document, ...vision, usage, cache }
+        : {
+            scanId,
+            format: outputFormat,
+            title: document.title,
+            content: this.outputRendererService.renderDocument(
+              document,
+              outputFormat,
+            ),
+            errors: document.errors,
+            ...(options.debug && { chunks: responses }),
+            ...vision,
+            usage,
+            cache,
+          };
+
+    await this.saveContent(scanId, result);
+    return result;
   }
 
   /**
@@ -62,69 +345,21 @@ export class ParserService {
     return parse(htmlContent);
   }
 
-  /**
-   * Chunks the HTML content into smaller parts to avoid hitting the token limit.
-   * @param {HTMLElement} element - The HTML element to be chunked.
-   * @param {number} chunkSize - The maximum size of each chunk.
-   * @returns {HTMLElement[]} - An array of chunked HTML elements.
-   */
-  private chunkHTML(element: HTMLElement, chunkSize: number): HTMLElement[] {
-    const chunks: HTMLElement[] = [];
-    let currentChunk: HTMLElement = parse('<div></div>');
-    let currentSize = 0;
-
-    const appendNodeToChunk = (node: HTMLElement) => {
-      const nodeHTML = node.outerHTML;
-      // If adding this node exceeds chunk size and current chunk is not empty, start a new chunk
-      if (currentSize + nodeHTML.length > chunkSize && currentSize > 0) {
-        chunks.push(currentChunk);
-        currentChunk = parse('<div></div>');
-        currentSize = 0;
-      }
-      // If the node itself is larger than chunk size, it becomes its own chunk
-      if (nodeHTML.length > chunkSize) {
-        chunks.push(parse(node.outerHTML));
-      } else {
-        currentChunk.appendChild(parse(node.outerHTML));
-        currentSize += nodeHTML.length;
-      }
-    };
-
-    const traverseNodes = (node: HTMLElement) => {
-      node.childNodes.forEach((child) => {
-        if (child instanceof HTMLElement) {
-          appendNodeToChunk(child);
-        }
-      });
-    };
-
-    traverseNodes(element);
-
-    // Add the last chunk if it has content
-    if (currentChunk.childNodes.length > 0) {
-      chunks.push(currentChunk);
-    }
-
-    return chunks;
-  }
-
   /**
    * Extracts content with tables and images from the parsed HTML.
    * @param {HTMLElement} parsedHtml - The parsed HTML element.
-   * @param {string} originalUrl - The original URL of the HTML content.
-   * @param {string} folderPath - The folder path to save extracted content.
+   * @param {ExtractionContext} context - The extraction state of the scan.
    * @returns {Promise<string>} - A promise that resolves to the combined content.
    */
   private async extractContentWithTablesAndImages(
     parsedHtml: HTMLElement,
-    originalUrl: string,
-    folderPath: string,
+    context: ExtractionContext,
   ): Promise<string> {
     this.logger.log('Extracting content with tables and images');
     let combinedContent = '';
 
     for (const node of parsedHtml.childNodes) {
-      combinedContent += await this.traverseNode(node, originalUrl, folderPath);
+      combinedContent += await this.traverseNode(node, context);
     }
 
     return combinedContent;
@@ -133,29 +368,29 @@ export class ParserService {
   /**
    * Traverses a node and extracts its content, handling tables and images specifically.
    * @param {any} node - The node to traverse.
-   * @param {string} originalUrl - The original URL of the HTML content.
-   * @param {string} folderPath - The folder path to save extracted content.
+   * @param {ExtractionContext} context - The extraction state of the scan.
    * @returns {Promise<string>} - A promise that resolves to the extracted content.
    */
   private async traverseNode(
     node: any,
-    originalUrl: string,
-    folderPath: string,
+    context: ExtractionContext,
   ): Promise<string> {
     let content = '';
     if (node.tagName === 'TABLE') {
-      const csvContent = this.convertTableToCSV(node);
-      const hash = this.calculateHash(csvContent);
-      const filename = `table_${hash}.txt`;
-      this.saveToFile(filename, csvContent, folderPath);
-      content += `[TABLE:${filename}]\n`;
+      for (const tableNode of [node, ...node.querySelectorAll('table')]) {
+        content += `${await this.extractTable(tableNode, context)}\n`;
+      }
     } else if (node.tagName === 'IMG') {
-      const imageUrl = this.extractImageUrl(node, originalUrl);
-      const imageContent = await this.fetchImage(imageUrl);
-      const hash = this.calculateHash(imageContent);
-      const filename = `image_${hash}.jpg`;
-      this.saveToFile(filename, imageContent, folderPath, true);
-      content += `[IMAGE:${filename}]\n`;
+      const source = this.imageFetcherService.resolveSource(
+        node,
+        context.originalUrl,
+      );
+      if (!source) {
+        this.logger.warn('Skipping image without a resolvable source');
+        return content;
+      }
+      const caption = this.getPageCaption(node);
+      content += `${await this.extractImage(source, caption, context)}\n`;
     } else if (node.nodeType === TEXT_TYPE_NODE) {
       const text = node.rawText.trim();
       content += `${text}\n`;
@@ -165,84 +400,218 @@ export class ParserService {
       node.childNodes
     ) {
       for (const childNode of node.childNodes) {
-        content += await this.traverseNode(childNode, originalUrl, folderPath);
+        content += await this.traverseNode(childNode, context);
       }
     }
     return content;
   }
 
   /**
-   * Calculates the SHA-256 hash of the given content.
-   * @param {string | Buffer} content - The content to hash.
-   * @returns {string} - The calculated hash.
+   * Stores an image of the scan and returns its placeholder, including the
+   * caption the page provides when there is one. Images beyond the count limit
+   * or that cannot be loaded get a placeholder with the error instead. Vision
+   * captions are added later, see `describeImages`.
+   * @param {string} source - The absolute URL or data URI of the image.
+   * @param {string} pageCaption - The caption the page provides for the image, possibly empty.
+   * @param {ExtractionContext} context - The extraction state of the scan.
+   * @returns {Promise<string>} - A promise that resolves to the image placeholder.
    */
-  private calculateHash(content: string | Buffer): string {
-    return createHash('sha256').update(content).digest('hex');
+  private async extractImage(
+    source: string,
+    pageCaption: string,
+    context: ExtractionContext,
+  ): Promise<string> {
+    if (context.images.has(source)) {
+      return context.images.get(source);
+    }
+    const label = source.startsWith('data:') ? 'data URI' : source;
+    let reference: string;
+    let image: ImageFile;
+    if (context.images.size >= this.imageFetcherService.maxCount) {
+      reference = `${label} (error: image limit of ${this.imageFetcherService.maxCount} reached)`;
+    } else {
+      try {
+        image = await this.imageFetcherService.fetch(
+          source,
+          context.preloadedImages,
+        );
+        reference = `image_${this.calculateHash(image.content)}.${image.extension}`;
+        await this.storageService.saveArtifact(
+          context.scanId,
+          reference,
+          image.content,
+          image.contentType,
+        );
+      } catch (error) {
+        this.logger.warn(`Image ${label} failed: ${error.message}`);
+        reference = `${label} (error: ${error.message})`;
+        image = undefined;
+      }
+    }
+    const placeholder = this.createImagePlaceholder(
+      reference,
+      pageCaption,
+      context,
+    );
+    if (image && context.describeImages) {
+      context.pendingImages.set(placeholder, { reference, image, pageCaption });
+    }
+    context.images.set(source, placeholder);
+    return placeholder;
   }
 
   /**
-   * Saves the given content to a file.
-   * @param {string} filename - The name of the file.
-   * @param {string | Buffer} content - The content to save.
-   * @param {string} folderPath - The folder path to save the file in.
-   * @param {boolean} [isBinary=false] - Whether the content is binary.
+   * Replaces the placeholders of the chunk's images with ones carrying their
+   * vision captions. Runs only when the chunk missed the chunk cache, so cached
+   * chunks do not spend vision calls; each image is described once per scan.
+   * @param {string} content - The unsanitized chunk content with the page captions.
+   * @param {ExtractionContext} context - The extraction state of the scan.
+   * @param {CacheMode} cacheMode - How the caption cache is used.
+   * @returns {Promise<{ content: string; captions: Record<string, string> }>} - A promise that resolves to the content to send to the model and the captions of its images.
    */
-  private saveToFile(
-    filename: string,
-    content: string | Buffer,
-    folderPath: string,
-    isBinary: boolean = false,
-  ) {
-    this.logger.log(`Saving file ${filename}`);
-    const filePath = path.join(folderPath, filename);
-    if (isBinary) {
-      fs.writeFileSync(filePath, content);
+  private async describeImages(
+    content: string,
+    context: ExtractionContext,
+    cacheMode: CacheMode,
+  ): Promise<{ content: string; captions: Record<string, string> }> {
+    const captions: Record<string, string> = {};
+    let described = content;
+    for (const [placeholder, pending] of context.pendingImages) {
+      if (!content.includes(placeholder)) {
+        continue;
+      }
+      if (pending.placeholder === undefined) {
+        const caption = await this.imageCaptionService.caption(
+          pending.image,
+          pending.pageCaption,
+          {
+            describeImages: true,
+            llmProvider: context.llmProvider,
+            usage: context.vision,
+            onUsage: context.onUsage,
+            cache: cacheMode,
+          },
+        );
+        pending.placeholder = this.createImagePlaceholder(
+          pending.reference,
+          caption,
+          context,
+        );
+      }
+      described = described.split(placeholder).join(pending.placeholder);
+      if (context.captions.has(pending.reference)) {
+        captions[pending.reference] = context.captions.get(pending.reference);
+      }
+    }
+    return { content: described, captions };
+  }
+
+  /**
+   * Builds the placeholder of an image and records its caption for the image entries.
+   * @param {string} reference - The image file name, or the source with its error.
+   * @param {string} caption - The caption, possibly empty.
+   * @param {ExtractionContext} context - The extraction state of the scan.
+   * @returns {string} - The image placeholder.
+   */
+  private createImagePlaceholder(
+    reference: string,
+    caption: string,
+    context: ExtractionContext,
+  ): string {
+    caption = caption.replace(/[\s|\[\]]+/g, ' ').trim();
+    if (caption) {
+      context.captions.set(reference, caption);
     } else {
-      fs.writeFileSync(filePath, content, 'utf8');
+      context.captions.delete(reference);
     }
+    return caption
+      ? `[IMAGE:${reference} | ${caption}]`
+      : `[IMAGE:${reference}]`;
   }
 
   /**
-   * Fetches an image from the given URL.
-   * @param {string} url - The URL of the image.
-   * @returns {Promise<Buffer>} - A promise that resolves to the image content as a buffer.
+   * Reads the caption a page provides for an image: its alt text, title or figure caption.
+   * @param {HTMLElement} imgElement - The image element.
+   * @returns {string} - The caption, or an empty string.
    */
-  private async fetchImage(url: string): Promise<Buffer> {
-    this.logger.log(`Fetching image from ${url}`);
-    const response = await axios.get(url, { responseType: 'arraybuffer' });
-    return Buffer.from(response.data, 'binary');
+  private getPageCaption(imgElement: HTMLElement): string {
+    return (
+      imgElement.getAttribute('alt')?.trim() ||
+      imgElement.getAttribute('title')?.trim() ||
+      imgElement.closest('figure')?.querySelector('figcaption')?.text.trim() ||
+      ''
+    );
   }
 
   /**
-   * Converts an HTML table node to CSV format.
-   * @param {any} tableNode - The table node to convert.
-   * @returns {string} - The CSV representation of the table.
+   * Saves a table as a CSV artifact and returns its placeholder.
+   * @param {any} tableNode - The table node.
+   * @param {ExtractionContext} context - The extraction state of the scan.
+   * @returns {Promise<string>} - The table placeholder.
    */
-  private convertTableToCSV(tableNode: any): string {
-    let csvContent = '';
-    const rows = tableNode.querySelectorAll('tr');
-
-    rows.forEach((row: any) => {
-      const cells = row.querySelectorAll('th, td');
-      const rowContent = cells
-        .map((cell: any) => cell.text.trim().replace(/\n/g, ' '))
-        .join(',');
-      csvContent += rowContent + '\n';
-    });
+  private async extractTable(
+    tableNode: any,
+    context: ExtractionContext,
+  ): Promise<string> {
+    const table = extractTable(tableNode);
+    const csvContent = toCsv([table.columns, ...table.rows]);
+    const filename = `table_${this.calculateHash(csvContent)}.csv`;
+    await this.storageService.saveArtifact(
+      context.scanId,
+      filename,
+      csvContent,
+    );
+    context.tables.set(filename, table);
+    const caption = table.caption.replace(/[\s|\[\]]+/g, ' ').trim();
+    return caption ? `[TABLE:${filename} | ${caption}]` : `[TABLE:${filename}]`;
+  }
 
-    return csvContent;
+  /**
+   * Attaches the caption, columns and rows of each extracted table to its
+   * table entry, so the data does not depend on the model copying it.
+   * @param {any[]} sections - The merged sections.
+   * @param {Map<string, ExtractedTable>} tables - Extracted tables by file name.
+   */
+  private applyTables(sections: any[], tables: Map<string, ExtractedTable>) {
+    for (const section of sections ?? []) {
+      for (const entry of section.content ?? []) {
+        const table =
+          entry?.type === 'table' && tables.get(String(entry.value).trim());
+        if (table) {
+          entry.description = entry.description || table.caption;
+          entry.caption = table.caption;
+          entry.columns = table.columns;
+          entry.rows = toRowObjects(table);
+        }
+      }
+    }
+  }
+
+  /**
+   * Sets the description of image entries to their caption, so captions do not
+   * depend on the model copying them from the placeholder.
+   * @param {any[]} sections - The merged sections.
+   * @param {Map<string, string>} captions - Captions by image file name.
+   */
+  private applyImageCaptions(sections: any[], captions: Map<string, string>) {
+    for (const section of sections ?? []) {
+      for (const entry of section.content ?? []) {
+        const caption =
+          entry?.type === 'image' && captions.get(String(entry.value).trim());
+        if (caption) {
+          entry.description = caption;
+        }
+      }
+    }
   }
 
   /**
-   * Extracts the image URL from an image element.
-   * @param {any} imgElement - The image element.
-   * @param {string} originalUrl - The original URL of the HTML content.
-   * @returns {string} - The extracted image URL.
+   * Calculates the SHA-256 hash of the given content.
+   * @param {string | Buffer} content - The content to hash.
+   * @returns {string} - The calculated hash.
    */
-  private extractImageUrl(imgElement: any, originalUrl: string): string {
-    this.logger.log('Extracting image URL');
-    const src = imgElement.getAttribute('src');
-    return new URL(src, originalUrl).href;
+  private calculateHash(content: string | Buffer): string {
+    return createHash('sha256').update(content).digest('hex');
   }
 
   /**
@@ -275,42 +644,18 @@ export class ParserService {
   }
 
   /**
-   * Creates a folder for saving results based on the URL and timestamp.
-   * @param {string} url - The original URL of the HTML content.
-   * @returns {string} - The created folder path.
-   */
-  private createFolderForResults(url: string): string {
-    const normalizedUrl = new URL(url).toString();
-    const urlHash = crypto
-      .createHash('sha256')
-      .update(normalizedUrl)
-      .digest('hex');
-    const timestamp = Date.now();
-    const folderPath = path.join(__dirname, `${urlHash}_${timestamp}`);
-
-    if (!fs.existsSync(folderPath)) {
-      fs.mkdirSync(folderPath);
-    }
-
-    return folderPath;
-  }
-
-  /**
-   * Saves the final content to a file.
-   * @param {string} url - The original URL of the HTML content.
-   * @param {string} content - The content to save.
-   * @param {string} folderPath - The folder path to save the content in.
+   * Saves the final content as the result artifact of the scan.
+   * @param {string} scanId - The ID of the scan.
+   * @param {any} content - The content to save.
    * @returns {Promise<void>} - A promise that resolves when the content is saved.
    */
-  private async saveContent(
-    url: string,
-    content: string,
-    folderPath: string,
-  ): Promise<void> {
+  private async saveContent(scanId: string, content: any): Promise<void> {
     this.logger.log('Saving content...');
-    const filename = `result.txt`;
-    const filePath = path.join(folderPath, filename);
-    fs.writeFileSync(filePath, content);
-    this.logger.log(`Text content saved to ${filePath}`);
+    await this.storageService.saveArtifact(
+      scanId,
+      'result.json',
+      JSON.stringify(content),
+    );
+    this.logger.log(`Result saved for scan ${scanId}`);
   }
 }
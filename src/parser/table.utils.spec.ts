@@ -0,0 +1,103 @@
+import { parse } from 'node-html-parser';
+import {
+  extractTable,
+  getTableRows,
+  parseCsv,
+  toCsv,
+  toRowObjects,
+} from './table.utils';
+
+const table = (html: string) => parse(html).querySelector('table');
+
+describe('table.utils', () => {
+  it('should expand colspan and rowspan into a grid', () => {
+    const result = extractTable(
+      table(`<table>
+        <tr><th>Region</th><th>Q1</th><th>Q2</th></tr>
+        <tr><td rowspan="2">EU</td><td colspan="2">n/a</td></tr>
+        <tr><td>3</td><td>4</td></tr>
+      </table>`),
+    );
+
+    expect(result.columns).toEqual(['Region', 'Q1', 'Q2']);
+    expect(result.rows).toEqual([
+      ['EU', 'n/a', 'n/a'],
+      ['EU', '3', '4'],
+    ]);
+  });
+
+  it('should combine multiple header rows and keep the caption', () => {
+    const result = extractTable(
+      table(`<table><caption> Sales  2024 </caption>
+        <thead>
+          <tr><th rowspan="2">Region</th><th colspan="2">Revenue</th></tr>
+          <tr><th>Q1</th><th>Q2</th></tr>
+        </thead>
+        <tbody><tr><td>EU</td><td>1</td><td>2</td></tr></tbody>
+      </table>`),
+    );
+
+    expect(result.caption).toBe('Sales 2024');
+    expect(result.columns).toEqual(['Region', 'Revenue / Q1', 'Revenue / Q2']);
+    expect(toRowObjects(result)).toEqual([
+      { Region: 'EU', 'Revenue / Q1': '1', 'Revenue / Q2': '2' },
+    ]);
+  });
+
+  it('should use a label-like first row as the header', () => {
+    expect(
+      extractTable(
+        table(
+          '<table><tr><td>Name</td><td>Age</td></tr><tr><td>Ann</td><td>30</td></tr></table>',
+        ),
+      ).columns,
+    ).toEqual(['Name', 'Age']);
+    const numeric = extractTable(
+      table(
+        '<table><tr><td>2023</td><td>2024</td></tr><tr><td>1</td><td>2</td></tr></table>',
+      ),
+    );
+    expect(numeric.columns).toEqual(['column_1', 'column_2']);
+    expect(numeric.rows).toHaveLength(2);
+  });
+
+  it('should give duplicate and empty headers unique keys', () => {
+    expect(
+      extractTable(
+        table(
+          '<table><tr><th>A</th><th>A</th><th></th></tr><tr><td>1</td><td>2</td><td>3</td></tr></table>',
+        ),
+      ).columns,
+    ).toEqual(['A', 'A_2', 'column_3']);
+  });
+
+  it('should leave nested tables out of the outer grid', () => {
+    const outer = table(`<table>
+      <tr><th>Item</th><th>Parts</th></tr>
+      <tr><td>Bike</td><td>Frame<table><tr><th>Part</th></tr><tr><td>Wheel</td></tr></table></td></tr>
+    </table>`);
+
+    expect(getTableRows(outer)).toEqual([
+      ['Item', 'Parts'],
+      ['Bike', 'Frame'],
+    ]);
+    expect(getTableRows(outer.querySelector('table'))).toEqual([
+      ['Part'],
+      ['Wheel'],
+    ]);
+  });
+
+  it('should write and read RFC 4180 CSV', () => {
+    const rows = [
+      ['Name', 'Note'],
+      ['a, b', 'say "hi"'],
+      ['line\nbreak', ' padded'],
+    ];
+    const csv = toCsv(rows);
+
+    expect(csv).toBe(
+      'Name,Note\r\n"a, b","say ""hi"""\r\n"line\nbreak"," padded"\r\n',
+    );
+    expect(parseCsv(csv)).toEqual(rows);
+  });
+});
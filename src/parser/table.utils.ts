@@ -0,0 +1,248 @@
+const MAX_SPAN = 1000;
+
+/**
+ * A table extracted from HTML, with spans expanded into a rectangular grid.
+ */
+export interface ExtractedTable {
+  caption: string;
+  /** Column labels; multiple header rows are joined with " / ". */
+  columns: string[];
+  /** The header rows as they appear in the grid. */
+  headerRows: string[][];
+  /** The body rows, each as wide as the table. */
+  rows: string[][];
+}
+
+/**
+ * Extracts a table into a grid, expanding `colspan`/`rowspan` and detecting
+ * header rows from `<thead>`, rows of `<th>` cells or a label-like first row.
+ * Nested tables are not part of the grid; extract them separately.
+ * @param {any} tableNode - The table node.
+ * @returns {ExtractedTable} - The extracted table.
+ */
+export function extractTable(tableNode: any): ExtractedTable {
+  const ownRows = tableNode
+    .querySelectorAll('tr')
+    .filter((row: any) => row.closest('table') === tableNode);
+  const grid: string[][] = [];
+  const headerFlags: boolean[] = [];
+
+  ownRows.forEach((row: any, rowIndex: number) => {
+    grid[rowIndex] ??= [];
+    const cells = row.childNodes.filter(
+      (cell: any) => cell.tagName === 'TH' || cell.tagName === 'TD',
+    );
+    headerFlags[rowIndex] =
+      row.closest('thead') !== null &&
+      row.closest('thead').closest('table') === tableNode;
+    if (!headerFlags[rowIndex] && cells.length > 0) {
+      headerFlags[rowIndex] = cells.every((cell: any) => cell.tagName === 'TH');
+    }
+
+    let column = 0;
+    for (const cell of cells) {
+      while (grid[rowIndex][column] !== undefined) {
+        column++;
+      }
+      const text = getCellText(cell);
+      const colspan = readSpan(cell, 'colspan');
+      const rowspan = readSpan(cell, 'rowspan');
+      for (let r = 0; r < rowspan && rowIndex + r < ownRows.length; r++) {
+        grid[rowIndex + r] ??= [];
+        for (let c = 0; c < colspan; c++) {
+          grid[rowIndex + r][column + c] = text;
+        }
+      }
+      column += colspan;
+    }
+  });
+
+  const width = Math.max(0, ...grid.map((cells) => cells.length));
+  const rows = grid.map((cells) =>
+    Array.from({ length: width }, (_, i) => cells[i] ?? ''),
+  );
+  let headerCount = 0;
+  while (headerCount < rows.length && headerFlags[headerCount]) {
+    headerCount++;
+  }
+  if (headerCount === 0 && rows.length > 1 && looksLikeHeader(rows[0])) {
+    headerCount = 1;
+  }
+
+  const headerRows = rows.slice(0, headerCount);
+  const caption = tableNode.childNodes.find(
+    (child: any) => child.tagName === 'CAPTION',
+  );
+  return {
+    caption: caption ? caption.text.replace(/\s+/g, ' ').trim() : '',
+    columns: buildColumns(headerRows, width),
+    headerRows,
+    rows: rows.slice(headerCount),
+  };
+}
+
+/**
+ * Extracts the cell texts of an HTML table, row by row, with spans expanded and
+ * the header first.
+ * @param {any} tableNode - The table node.
+ * @returns {string[][]} - The rows of cell texts.
+ */
+export function getTableRows(tableNode: any): string[][] {
+  const table = extractTable(tableNode);
+  return table.headerRows.length > 0
+    ? [table.columns, ...table.rows]
+    : table.rows;
+}
+
+/**
+ * Serializes rows as RFC 4180 CSV: CRLF line endings, and fields containing
+ * commas, quotes, line breaks or surrounding spaces quoted with doubled quotes.
+ * @param {string[][]} rows - The rows of cell texts.
+ * @returns {string} - The CSV text.
+ */
+export function toCsv(rows: string[][]): string {
+  const escape = (field: string) =>
+    /[",\r\n]|^\s|\s$/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  return rows.map((cells) => cells.map(escape).join(',') + '\r\n').join('');
+}
+
+/**
+ * Parses RFC 4180 CSV, also accepting bare LF line endings.
+ * @param {string} csv - The CSV text.
+ * @returns {string[][]} - The rows of fields.
+ */
+export function parseCsv(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Converts the body rows of a table into objects keyed by column label.
+ * @param {ExtractedTable} table - The extracted table.
+ * @returns {Record<string, string>[]} - One object per body row.
+ */
+export function toRowObjects(table: ExtractedTable): Record<string, string>[] {
+  return table.rows.map((cells) =>
+    Object.fromEntries(
+      table.columns.map((column, index) => [column, cells[index] ?? '']),
+    ),
+  );
+}
+
+/**
+ * Renders rows of cells as a GitHub Flavored Markdown table. The first row is the header.
+ * @param {string[][]} rows - The rows of cell texts.
+ * @returns {string} - The Markdown table, or an empty string for an empty table.
+ */
+export function renderMarkdownTable(rows: string[][]): string {
+  const nonEmpty = rows.filter((cells) => cells.length > 0);
+  if (nonEmpty.length === 0) {
+    return '';
+  }
+  const width = Math.max(...nonEmpty.map((cells) => cells.length));
+  const renderRow = (cells: string[]) =>
+    '| ' +
+    Array.from({ length: width }, (_, i) =>
+      (cells[i] ?? '').replace(/\|/g, '\\|').replace(/\s+/g, ' '),
+    ).join(' | ') +
+    ' |';
+
+  const [header, ...body] = nonEmpty;
+  return [
+    renderRow(header),
+    '| ' + Array(width).fill('---').join(' | ') + ' |',
+    ...body.map(renderRow),
+  ].join('\n');
+}
+
+/**
+ * Reads the text of a cell without the content of nested tables.
+ * @param {any} cell - The cell node.
+ * @returns {string} - The cell text on a single line.
+ */
+function getCellText(cell: any): string {
+  const collect = (node: any): string =>
+    node.tagName === 'TABLE'
+      ? ' '
+      : node.childNodes?.length
+        ? node.childNodes.map(collect).join('')
+        : node.text ?? '';
+  return collect(cell).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Reads a `colspan` or `rowspan` attribute, defaulting to 1.
+ * @param {any} cell - The cell node.
+ * @param {string} name - The attribute name.
+ * @returns {number} - The span.
+ */
+function readSpan(cell: any, name: string): number {
+  const span = parseInt(cell.getAttribute(name), 10);
+  return span > 0 ? Math.min(span, MAX_SPAN) : 1;
+}
+
+/**
+ * Decides whether a first row without `<th>` cells is a header: every cell is
+ * filled and none of them is a number.
+ * @param {string[]} cells - The cells of the first row.
+ * @returns {boolean} - True if the row looks like a header.
+ */
+function looksLikeHeader(cells: string[]): boolean {
+  return cells.every(
+    (cell) => cell !== '' && !/^[-+]?[\d.,\s%$€£]+$/.test(cell),
+  );
+}
+
+/**
+ * Builds unique column labels from the header rows.
+ * @param {string[][]} headerRows - The header rows.
+ * @param {number} width - The number of columns.
+ * @returns {string[]} - The column labels.
+ */
+function buildColumns(headerRows: string[][], width: number): string[] {
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, index) => {
+    const parts = headerRows
+      .map((cells) => cells[index])
+      .filter((part, i, all) => part && all.indexOf(part) === i);
+    const label = parts.join(' / ') || `column_${index + 1}`;
+    const count = (seen.get(label) ?? 0) + 1;
+    seen.set(label, count);
+    return count > 1 ? `${label}_${count}` : label;
+  });
+}
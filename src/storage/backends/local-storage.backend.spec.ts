@@ -0,0 +1,50 @@
+import { mkdtempSync, rmSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { LocalStorageBackend } from './local-storage.backend';
+
+describe('LocalStorageBackend', () => {
+  let root: string;
+  let backend: LocalStorageBackend;
+
+  beforeEach(() => {
+    root = mkdtempSync(path.join(tmpdir(), 'storage-'));
+    backend = new LocalStorageBackend(root);
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should store, list and read artifacts', async () => {
+    await backend.put('scan1/result.json', Buffer.from('{}'));
+    await backend.put('scan1/table_a.txt', Buffer.from('a,b\n'));
+
+    expect((await backend.list('scan1')).map((a) => a.name)).toEqual([
+      'result.json',
+      'table_a.txt',
+    ]);
+    expect((await backend.get('scan1/table_a.txt')).content.toString()).toBe(
+      'a,b\n',
+    );
+    expect(await backend.get('scan1/missing.txt')).toBeNull();
+    expect(await backend.list('unknown')).toEqual([]);
+  });
+
+  it('should reject keys outside of the root', async () => {
+    await expect(backend.get('../outside.txt')).rejects.toThrow(
+      'Invalid storage key',
+    );
+  });
+
+  it('should delete scans older than the cutoff', async () => {
+    await backend.put('old/result.json', Buffer.from('{}'));
+    await backend.put('new/result.json', Buffer.from('{}'));
+    const past = new Date(Date.now() - 60000);
+    utimesSync(path.join(root, 'old'), past, past);
+
+    expect(await backend.deleteOlderThan(new Date(Date.now() - 1000))).toBe(1);
+    expect(await backend.list('old')).toEqual([]);
+    expect(await backend.list('new')).toHaveLength(1);
+  });
+});
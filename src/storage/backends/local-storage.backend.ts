@@ -0,0 +1,122 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  ArtifactInfo,
+  StorageBackend,
+  StoredArtifact,
+} from './storage-backend.interface';
+
+/**
+ * Stores artifacts as files below a root directory, one folder per scan.
+ */
+export class LocalStorageBackend implements StorageBackend {
+  constructor(private readonly root: string) {}
+
+  /**
+   * Creates the backend from the STORAGE_ROOT environment variable.
+   * @returns {LocalStorageBackend} - The configured backend.
+   */
+  static fromEnv(): LocalStorageBackend {
+    return new LocalStorageBackend(
+      path.resolve(process.env['STORAGE_ROOT'] || 'storage'),
+    );
+  }
+
+  /**
+   * Writes an artifact, creating its scan folder if needed.
+   * @param {string} key - The artifact key.
+   * @param {Buffer} content - The artifact content.
+   */
+  async put(key: string, content: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  /**
+   * Reads an artifact.
+   * @param {string} key - The artifact key.
+   * @returns {Promise<StoredArtifact | null>} - A promise that resolves to the artifact, or null if it does not exist.
+   */
+  async get(key: string): Promise<StoredArtifact | null> {
+    try {
+      return { content: await fs.readFile(this.resolve(key)) };
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the artifacts of a scan.
+   * @param {string} prefix - The scan ID.
+   * @returns {Promise<ArtifactInfo[]>} - A promise that resolves to the artifacts, sorted by name.
+   */
+  async list(prefix: string): Promise<ArtifactInfo[]> {
+    const folder = this.resolve(prefix);
+    let names: string[];
+    try {
+      names = await fs.readdir(folder);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const artifacts = await Promise.all(
+      names.map(async (name) => {
+        const stats = await fs.stat(path.join(folder, name));
+        return {
+          name,
+          size: stats.size,
+          lastModified: stats.mtime.toISOString(),
+        };
+      }),
+    );
+    return artifacts.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Deletes scan folders that were last modified before the cutoff.
+   * @param {Date} cutoff - The oldest modification time to keep.
+   * @returns {Promise<number>} - A promise that resolves to the number of deleted scans.
+   */
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    let folders: string[];
+    try {
+      folders = await fs.readdir(this.root);
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return 0;
+      }
+      throw error;
+    }
+
+    let deleted = 0;
+    for (const folder of folders) {
+      const folderPath = path.join(this.root, folder);
+      const stats = await fs.stat(folderPath);
+      if (stats.isDirectory() && stats.mtime < cutoff) {
+        await fs.rm(folderPath, { recursive: true, force: true });
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Maps a key to a path below the root, rejecting keys that would escape it.
+   * @param {string} key - The artifact key.
+   * @returns {string} - The file path.
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,91 @@
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { S3StorageBackend } from './s3-storage.backend';
+
+describe('S3StorageBackend', () => {
+  const send = jest.fn();
+  const client = { send } as unknown as S3Client;
+  let backend: S3StorageBackend;
+
+  beforeEach(() => {
+    send.mockReset();
+    backend = new S3StorageBackend(client, 'artifacts', 'scans/');
+  });
+
+  it('should upload artifacts with their content type', async () => {
+    await backend.put(
+      'scan1/result.json',
+      Buffer.from('{}'),
+      'application/json',
+    );
+
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(PutObjectCommand);
+    expect(command.input).toMatchObject({
+      Bucket: 'artifacts',
+      Key: 'scans/scan1/result.json',
+      ContentType: 'application/json',
+    });
+  });
+
+  it('should download artifacts and map missing keys to null', async () => {
+    send.mockResolvedValueOnce({
+      Body: { transformToByteArray: async () => Buffer.from('a,b') },
+      ContentType: 'text/csv',
+    });
+    const artifact = await backend.get('scan1/table.txt');
+    expect(send.mock.calls[0][0]).toBeInstanceOf(GetObjectCommand);
+    expect(artifact.content.toString()).toBe('a,b');
+
+    send.mockRejectedValueOnce(
+      Object.assign(new Error(), { name: 'NoSuchKey' }),
+    );
+    expect(await backend.get('scan1/missing.txt')).toBeNull();
+  });
+
+  it('should list artifacts across pages', async () => {
+    const lastModified = new Date('2024-01-01T00:00:00Z');
+    send
+      .mockResolvedValueOnce({
+        Contents: [
+          { Key: 'scans/scan1/b.txt', Size: 2, LastModified: lastModified },
+        ],
+        NextContinuationToken: 'next',
+      })
+      .mockResolvedValueOnce({
+        Contents: [
+          { Key: 'scans/scan1/a.txt', Size: 1, LastModified: lastModified },
+        ],
+      });
+
+    const artifacts = await backend.list('scan1');
+
+    expect(send.mock.calls[0][0]).toBeInstanceOf(ListObjectsV2Command);
+    expect(send.mock.calls[1][0].input.ContinuationToken).toBe('next');
+    expect(artifacts).toEqual([
+      { name: 'a.txt', size: 1, lastModified: '2024-01-01T00:00:00.000Z' },
+      { name: 'b.txt', size: 2, lastModified: '2024-01-01T00:00:00.000Z' },
+    ]);
+  });
+
+  it('should delete expired objects', async () => {
+    send
+      .mockResolvedValueOnce({
+        Contents: [
+          { Key: 'scans/old/a.txt', LastModified: new Date('2020-01-01') },
+          { Key: 'scans/new/a.txt', LastModified: new Date() },
+        ],
+      })
+      .mockResolvedValueOnce({});
+
+    expect(await backend.deleteOlderThan(new Date('2021-01-01'))).toBe(1);
+    const command = send.mock.calls[1][0];
+    expect(command).toBeInstanceOf(DeleteObjectsCommand);
+    expect(command.input.Delete.Objects).toEqual([{ Key: 'scans/old/a.txt' }]);
+  });
+});
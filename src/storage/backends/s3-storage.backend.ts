@@ -0,0 +1,153 @@
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import {
+  ArtifactInfo,
+  StorageBackend,
+  StoredArtifact,
+} from './storage-backend.interface';
+
+/**
+ * Stores artifacts in an S3-compatible bucket such as AWS S3 or MinIO.
+ */
+export class S3StorageBackend implements StorageBackend {
+  constructor(
+    private readonly client: S3Client,
+    private readonly bucket: string,
+    private readonly prefix: string = '',
+  ) {}
+
+  /**
+   * Creates the backend from the S3_* environment variables.
+   * @returns {S3StorageBackend} - The configured backend.
+   */
+  static fromEnv(): S3StorageBackend {
+    const bucket = process.env['S3_BUCKET'];
+    if (!bucket) {
+      throw new Error('S3_BUCKET must be set when STORAGE_BACKEND is "s3"');
+    }
+    const client = new S3Client({
+      endpoint: process.env['S3_ENDPOINT'],
+      region: process.env['S3_REGION'] || 'us-east-1',
+      forcePathStyle: process.env['S3_FORCE_PATH_STYLE'] === 'true',
+      credentials: process.env['S3_ACCESS_KEY_ID']
+        ? {
+            accessKeyId: process.env['S3_ACCESS_KEY_ID'],
+            secretAccessKey: process.env['S3_SECRET_ACCESS_KEY'],
+          }
+        : undefined,
+    });
+    return new S3StorageBackend(client, bucket, process.env['S3_PREFIX']);
+  }
+
+  /**
+   * Uploads an artifact.
+   * @param {string} key - The artifact key.
+   * @param {Buffer} content - The artifact content.
+   * @param {string} [contentType] - The MIME type of the content.
+   */
+  async put(key: string, content: Buffer, contentType?: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.prefix + key,
+        Body: content,
+        ContentType: contentType,
+      }),
+    );
+  }
+
+  /**
+   * Downloads an artifact.
+   * @param {string} key - The artifact key.
+   * @returns {Promise<StoredArtifact | null>} - A promise that resolves to the artifact, or null if it does not exist.
+   */
+  async get(key: string): Promise<StoredArtifact | null> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: this.prefix + key }),
+      );
+      return {
+        content: Buffer.from(await response.Body.transformToByteArray()),
+        contentType: response.ContentType,
+      };
+    } catch (error) {
+      if (error instanceof NoSuchKey || error.name === 'NoSuchKey') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists the artifacts of a scan.
+   * @param {string} prefix - The scan ID.
+   * @returns {Promise<ArtifactInfo[]>} - A promise that resolves to the artifacts, sorted by name.
+   */
+  async list(prefix: string): Promise<ArtifactInfo[]> {
+    const folder = `${this.prefix}${prefix}/`;
+    const artifacts: ArtifactInfo[] = [];
+    for await (const object of this.listObjects(folder)) {
+      artifacts.push({
+        name: object.Key.slice(folder.length),
+        size: object.Size,
+        lastModified: object.LastModified.toISOString(),
+      });
+    }
+    return artifacts.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Deletes objects that were last modified before the cutoff.
+   * @param {Date} cutoff - The oldest modification time to keep.
+   * @returns {Promise<number>} - A promise that resolves to the number of deleted objects.
+   */
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    const expired: string[] = [];
+    for await (const object of this.listObjects(this.prefix)) {
+      if (object.LastModified < cutoff) {
+        expired.push(object.Key);
+      }
+    }
+
+    // DeleteObjects accepts at most 1000 keys per request
+    for (let i = 0; i < expired.length; i += 1000) {
+      await this.client.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucket,
+          Delete: {
+            Objects: expired.slice(i, i + 1000).map((Key) => ({ Key })),
+          },
+        }),
+      );
+    }
+    return expired.length;
+  }
+
+  /**
+   * Iterates over all objects below a prefix, following continuation tokens.
+   * @param {string} prefix - The key prefix.
+   * @returns {AsyncGenerator<any>} - The listed objects.
+   */
+  private async *listObjects(prefix: string): AsyncGenerator<any> {
+    let continuationToken: string;
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const object of response.Contents ?? []) {
+        yield object;
+      }
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Metadata of a stored artifact.
+ */
+export interface ArtifactInfo {
+  name: string;
+  size: number;
+  lastModified: string;
+}
+
+/**
+ * A stored artifact with its content.
+ */
+export interface StoredArtifact {
+  content: Buffer;
+  contentType?: string;
+}
+
+/**
+ * A place where scan artifacts are kept. Keys have the form `<scanId>/<name>`.
+ */
+export interface StorageBackend {
+  put(key: string, content: Buffer, contentType?: string): Promise<void>;
+  get(key: string): Promise<StoredArtifact | null>;
+  list(prefix: string): Promise<ArtifactInfo[]>;
+  deleteOlderThan(cutoff: Date): Promise<number>;
+}
@@ -0,0 +1,56 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException, StreamableFile } from '@nestjs/common';
+import { StorageController } from './storage.controller';
+import { StorageService } from './storage.service';
+import { ApiKeyGuard } from '../auth/api-key.guard';
+
+describe('StorageController', () => {
+  let controller: StorageController;
+  const storageService = { listArtifacts: jest.fn(), getArtifact: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [StorageController],
+      providers: [{ provide: StorageService, useValue: storageService }],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<StorageController>(StorageController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should return 404 for scans without artifacts', async () => {
+    storageService.listArtifacts.mockResolvedValue([]);
+
+    await expect(controller.listArtifacts('scan')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should stream an artifact', async () => {
+    storageService.getArtifact.mockResolvedValue({
+      content: Buffer.from('{}'),
+      contentType: 'application/json',
+    });
+
+    const file = await controller.getArtifact('scan', 'result.json');
+
+    expect(file).toBeInstanceOf(StreamableFile);
+    expect(file.getHeaders().type).toBe('application/json');
+  });
+
+  it('should look up artifacts for the authenticated client', async () => {
+    storageService.listArtifacts.mockResolvedValue([]);
+
+    await expect(
+      controller.listArtifacts('scan', { id: 'acme' } as any),
+    ).rejects.toThrow(NotFoundException);
+    expect(storageService.listArtifacts).toHaveBeenCalledWith('scan', 'acme');
+  });
+});
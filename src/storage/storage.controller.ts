@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  Header,
+  NotFoundException,
+  Param,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { StorageService } from './storage.service';
+import { ArtifactInfo } from './backends/storage-backend.interface';
+import { ApiKeyGuard } from '../auth/api-key.guard';
+import { CurrentClient } from '../auth/api-client.decorator';
+import { ApiClient } from '../auth/interfaces/api-client.interface';
+
+/**
+ * Controller for retrieving the artifacts stored for a scan.
+ */
+@ApiTags('scans')
+@ApiSecurity('api-key')
+@UseGuards(ApiKeyGuard)
+@Controller('/api/v1/scans')
+export class StorageController {
+  constructor(private readonly storageService: StorageService) {}
+
+  /**
+   * Endpoint to list the artifacts of a scan.
+   * @param {string} scanId - The scan ID returned with the scan result.
+   * @param {ApiClient} [client] - The authenticated client; only its own scans are found.
+   * @returns {Promise<ArtifactInfo[]>} - A promise that resolves to the artifacts.
+   */
+  @Get(':scanId/artifacts')
+  @ApiOperation({ summary: 'List the artifacts of a scan' })
+  async listArtifacts(
+    @Param('scanId') scanId: string,
+    @CurrentClient() client?: ApiClient,
+  ): Promise<ArtifactInfo[]> {
+    const artifacts = await this.storageService.listArtifacts(
+      scanId,
+      client?.id,
+    );
+    if (artifacts.length === 0) {
+      throw new NotFoundException(`Scan ${scanId} not found`);
+    }
+    return artifacts;
+  }
+
+  /**
+   * Endpoint to download an artifact of a scan. Artifacts such as SVG images
+   * come from scanned pages, so they are served with a sandboxing policy.
+   * @param {string} scanId - The scan ID returned with the scan result.
+   * @param {string} name - The artifact file name.
+   * @param {ApiClient} [client] - The authenticated client; only its own scans are found.
+   * @returns {Promise<StreamableFile>} - A promise that resolves to the artifact content.
+   */
+  @Get(':scanId/artifacts/:name')
+  @ApiOperation({ summary: 'Download an artifact of a scan' })
+  @Header('Content-Security-Policy', "default-src 'none'; sandbox")
+  @Header('X-Content-Type-Options', 'nosniff')
+  async getArtifact(
+    @Param('scanId') scanId: string,
+    @Param('name') name: string,
+    @CurrentClient() client?: ApiClient,
+  ): Promise<StreamableFile> {
+    const artifact = await this.storageService.getArtifact(
+      scanId,
+      name,
+      client?.id,
+    );
+    if (!artifact) {
+      throw new NotFoundException(`Artifact ${scanId}/${name} not found`);
+    }
+    return new StreamableFile(artifact.content, {
+      type: artifact.contentType,
+      disposition: `inline; filename="${name}"`,
+    });
+  }
+}
@@ -0,0 +1,68 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { StorageService } from './storage.service';
+
+describe('StorageService', () => {
+  let service: StorageService;
+  let root: string;
+
+  beforeEach(async () => {
+    root = mkdtempSync(path.join(tmpdir(), 'storage-'));
+    process.env['STORAGE_ROOT'] = root;
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [StorageService],
+    }).compile();
+
+    service = module.get<StorageService>(StorageService);
+  });
+
+  afterEach(() => {
+    delete process.env['STORAGE_ROOT'];
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should save artifacts and derive their content type', async () => {
+    const scanId = service.createScanId();
+    await service.saveArtifact(scanId, 'result.json', '{"title":"A"}');
+    await service.saveArtifact(scanId, 'image_1.webp', Buffer.from([1]));
+
+    const artifact = await service.getArtifact(scanId, 'result.json');
+    expect(artifact.contentType).toBe('application/json');
+    expect(artifact.content.toString()).toBe('{"title":"A"}');
+    expect(
+      (await service.getArtifact(scanId, 'image_1.webp')).contentType,
+    ).toBe('image/webp');
+    expect(await service.listArtifacts(scanId)).toHaveLength(2);
+  });
+
+  it('should create random scan IDs readable only by their client', async () => {
+    const scanId = service.createScanId('acme');
+    await service.saveArtifact(scanId, 'result.json', '{}');
+
+    expect(service.createScanId('acme')).not.toBe(scanId);
+    expect(await service.getArtifact(scanId, 'result.json', 'acme')).not.toBe(
+      null,
+    );
+    expect(await service.getArtifact(scanId, 'result.json', 'other')).toBe(
+      null,
+    );
+    expect(await service.getArtifact(scanId, 'result.json')).toBe(null);
+    expect(await service.listArtifacts(scanId, 'other')).toEqual([]);
+  });
+
+  it('should reject names that could escape the scan folder', async () => {
+    await expect(service.getArtifact('scan', '../secret')).rejects.toThrow(
+      BadRequestException,
+    );
+    await expect(service.listArtifacts('..')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,224 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import * as path from 'path';
+import {
+  ArtifactInfo,
+  StorageBackend,
+  StoredArtifact,
+} from './backends/storage-backend.interface';
+import { LocalStorageBackend } from './backends/local-storage.backend';
+import { S3StorageBackend } from './backends/s3-storage.backend';
+
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const DEFAULT_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const CONTENT_TYPES: Record<string, string> = {
+  '.json': 'application/json',
+  '.txt': 'text/plain; charset=utf-8',
+  '.csv': 'text/csv; charset=utf-8',
+  '.md': 'text/markdown; charset=utf-8',
+  '.html': 'text/html; charset=utf-8',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.bmp': 'image/bmp',
+  '.ico': 'image/x-icon',
+  '.tiff': 'image/tiff',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+};
+
+/**
+ * Stores the artifacts of each scan (tables, images, results) in the configured
+ * backend and removes them again once their retention period has passed.
+ * Scan IDs start with a hash of the client that ran the scan, so artifacts are
+ * only readable by that client.
+ */
+@Injectable()
+export class StorageService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(StorageService.name);
+  private readonly backend: StorageBackend;
+  private readonly ttlMs: number;
+  private cleanupTimer: NodeJS.Timeout;
+
+  /**
+   * Initializes the storage with the backend selected by STORAGE_BACKEND.
+   */
+  constructor() {
+    this.backend =
+      process.env['STORAGE_BACKEND'] === 's3'
+        ? S3StorageBackend.fromEnv()
+        : LocalStorageBackend.fromEnv();
+    this.ttlMs = Number(process.env['STORAGE_TTL_MS']) || 0;
+  }
+
+  /**
+   * Starts the periodic cleanup when a retention period is configured.
+   */
+  onModuleInit() {
+    if (this.ttlMs > 0) {
+      const interval =
+        Number(process.env['STORAGE_CLEANUP_INTERVAL_MS']) ||
+        DEFAULT_CLEANUP_INTERVAL_MS;
+      this.cleanupTimer = setInterval(() => this.cleanup(), interval);
+      this.cleanupTimer.unref();
+    }
+  }
+
+  /**
+   * Stops the periodic cleanup.
+   */
+  onModuleDestroy() {
+    clearInterval(this.cleanupTimer);
+  }
+
+  /**
+   * Creates a random ID for a new scan, owned by the given client.
+   * @param {string} [clientId] - The API client running the scan, if authentication is enabled.
+   * @returns {string} - The scan ID.
+   */
+  createScanId(clientId?: string): string {
+    return `${this.ownerTag(clientId)}_${randomBytes(16).toString('hex')}`;
+  }
+
+  /**
+   * Saves an artifact of a scan.
+   * @param {string} scanId - The scan ID.
+   * @param {string} name - The artifact file name.
+   * @param {string | Buffer} content - The artifact content.
+   * @param {string} [contentType] - The MIME type; derived from the file name when omitted.
+   */
+  async saveArtifact(
+    scanId: string,
+    name: string,
+    content: string | Buffer,
+    contentType?: string,
+  ): Promise<void> {
+    this.logger.log(`Saving artifact ${scanId}/${name}`);
+    await this.backend.put(
+      this.toKey(scanId, name),
+      Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8'),
+      contentType ?? this.getContentType(name),
+    );
+  }
+
+  /**
+   * Lists the artifacts of a scan.
+   * @param {string} scanId - The scan ID.
+   * @param {string} [clientId] - The API client asking; scans of other clients have no artifacts.
+   * @returns {Promise<ArtifactInfo[]>} - A promise that resolves to the artifacts.
+   */
+  async listArtifacts(
+    scanId: string,
+    clientId?: string,
+  ): Promise<ArtifactInfo[]> {
+    this.assertValidName(scanId);
+    if (!this.isOwner(scanId, clientId)) {
+      return [];
+    }
+    return this.backend.list(scanId);
+  }
+
+  /**
+   * Reads an artifact of a scan.
+   * @param {string} scanId - The scan ID.
+   * @param {string} name - The artifact file name.
+   * @param {string} [clientId] - The API client asking; artifacts of other clients are not returned.
+   * @returns {Promise<StoredArtifact | null>} - A promise that resolves to the artifact, or null if it does not exist.
+   */
+  async getArtifact(
+    scanId: string,
+    name: string,
+    clientId?: string,
+  ): Promise<StoredArtifact | null> {
+    const key = this.toKey(scanId, name);
+    if (!this.isOwner(scanId, clientId)) {
+      return null;
+    }
+    const artifact = await this.backend.get(key);
+    if (artifact && !artifact.contentType) {
+      artifact.contentType = this.getContentType(name);
+    }
+    return artifact;
+  }
+
+  /**
+   * Deletes artifacts older than the retention period.
+   * @returns {Promise<number>} - A promise that resolves to the number of deleted entries.
+   */
+  async cleanup(): Promise<number> {
+    const cutoff = new Date(Date.now() - this.ttlMs);
+    try {
+      const deleted = await this.backend.deleteOlderThan(cutoff);
+      this.logger.log(`Storage cleanup removed ${deleted} expired entries`);
+      return deleted;
+    } catch (error) {
+      this.logger.error(`Storage cleanup failed: ${error.message}`);
+      return 0;
+    }
+  }
+
+  /**
+   * Checks that a scan was created for the given client.
+   * @param {string} scanId - The scan ID.
+   * @param {string} [clientId] - The API client.
+   * @returns {boolean} - Whether the client owns the scan.
+   */
+  private isOwner(scanId: string, clientId?: string): boolean {
+    return scanId.startsWith(`${this.ownerTag(clientId)}_`);
+  }
+
+  /**
+   * Derives the scan ID prefix of a client.
+   * @param {string} [clientId] - The API client, undefined while authentication is disabled.
+   * @returns {string} - The prefix.
+   */
+  private ownerTag(clientId?: string): string {
+    return createHash('sha256')
+      .update(`client\n${clientId ?? ''}`)
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  /**
+   * Builds the backend key of an artifact.
+   * @param {string} scanId - The scan ID.
+   * @param {string} name - The artifact file name.
+   * @returns {string} - The key.
+   */
+  private toKey(scanId: string, name: string): string {
+    this.assertValidName(scanId);
+    this.assertValidName(name);
+    return `${scanId}/${name}`;
+  }
+
+  /**
+   * Rejects scan IDs and artifact names that could escape their folder.
+   * @param {string} name - The scan ID or artifact name.
+   */
+  private assertValidName(name: string) {
+    if (!NAME_PATTERN.test(name ?? '') || name.includes('..')) {
+      throw new BadRequestException(`Invalid artifact name: ${name}`);
+    }
+  }
+
+  /**
+   * Derives the MIME type from a file name.
+   * @param {string} name - The file name.
+   * @returns {string} - The MIME type.
+   */
+  private getContentType(name: string): string {
+    return (
+      CONTENT_TYPES[path.extname(name).toLowerCase()] ??
+      'application/octet-stream'
+    );
+  }
+}
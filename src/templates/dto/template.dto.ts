@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsObject, IsOptional, IsString } from 'class-validator';
+
+export class UpdateTemplateDto {
+  @ApiProperty({ description: 'What the template extracts', required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    description: 'Extra instructions added to the system prompt',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  instructions?: string;
+
+  @ApiProperty({
+    description: 'JSON Schema the extracted JSON must satisfy',
+    type: 'object',
+    additionalProperties: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsObject()
+  schema?: object;
+}
+
+export class CreateTemplateDto extends UpdateTemplateDto {
+  @ApiProperty({
+    description: 'Unique template name (letters, digits, "-" and "_")',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: 'JSON Schema the extracted JSON must satisfy',
+    type: 'object',
+    additionalProperties: true,
+  })
+  @IsObject()
+  schema: object;
+}
@@ -0,0 +1,13 @@
+/**
+ * A named extraction template: the JSON Schema the output must follow and
+ * optional instructions added to the system prompt.
+ */
+export interface ExtractionTemplate {
+  name: string;
+  description?: string;
+  instructions?: string;
+  schema: object;
+  builtIn?: boolean;
+  /** The API client that created the template; only it can use and change it. */
+  clientId?: string;
+}
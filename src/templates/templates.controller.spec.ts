@@ -0,0 +1,30 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TemplatesController } from './templates.controller';
+import { TemplatesService } from './templates.service';
+import { ApiKeyGuard } from '../auth/api-key.guard';
+
+describe('TemplatesController', () => {
+  let controller: TemplatesController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TemplatesController],
+      providers: [TemplatesService],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<TemplatesController>(TemplatesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should list the default template', () => {
+    expect(controller.findAll().map((template) => template.name)).toEqual([
+      'sections',
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBody, ApiOperation, ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { TemplatesService } from './templates.service';
+import { CreateTemplateDto, UpdateTemplateDto } from './dto/template.dto';
+import { ExtractionTemplate } from './interfaces/extraction-template.interface';
+import { ApiKeyGuard } from '../auth/api-key.guard';
+import { CurrentClient } from '../auth/api-client.decorator';
+import { ApiClient } from '../auth/interfaces/api-client.interface';
+
+/**
+ * Controller for managing extraction templates.
+ */
+@ApiTags('templates')
+@ApiSecurity('api-key')
+@UseGuards(ApiKeyGuard)
+@Controller('/api/v1/templates')
+export class TemplatesController {
+  constructor(private readonly templatesService: TemplatesService) {}
+
+  /**
+   * Endpoint to list the templates of the client and the built-in template.
+   * @param {ApiClient} [client] - The authenticated client.
+   * @returns {ExtractionTemplate[]} - The templates.
+   */
+  @Get()
+  @ApiOperation({ summary: 'List extraction templates' })
+  findAll(@CurrentClient() client?: ApiClient): ExtractionTemplate[] {
+    return this.templatesService.findAll(client?.id);
+  }
+
+  /**
+   * Endpoint to get a template by name.
+   * @param {string} name - The template name.
+   * @param {ApiClient} [client] - The authenticated client.
+   * @returns {ExtractionTemplate} - The template.
+   */
+  @Get(':name')
+  @ApiOperation({ summary: 'Get an extraction template' })
+  findOne(
+    @Param('name') name: string,
+    @CurrentClient() client?: ApiClient,
+  ): ExtractionTemplate {
+    return this.templatesService.findOne(name, client?.id);
+  }
+
+  /**
+   * Endpoint to create a template.
+   * @param {CreateTemplateDto} createTemplateDto - The template to create.
+   * @param {ApiClient} [client] - The authenticated client, which owns the template.
+   * @returns {ExtractionTemplate} - The created template.
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create an extraction template' })
+  @ApiBody({ type: CreateTemplateDto })
+  create(
+    @Body() createTemplateDto: CreateTemplateDto,
+    @CurrentClient() client?: ApiClient,
+  ): ExtractionTemplate {
+    return this.templatesService.create(createTemplateDto, client?.id);
+  }
+
+  /**
+   * Endpoint to update a template.
+   * @param {string} name - The template name.
+   * @param {UpdateTemplateDto} updateTemplateDto - The fields to change.
+   * @param {ApiClient} [client] - The authenticated client.
+   * @returns {ExtractionTemplate} - The updated template.
+   */
+  @Put(':name')
+  @ApiOperation({ summary: 'Update an extraction template' })
+  @ApiBody({ type: UpdateTemplateDto })
+  update(
+    @Param('name') name: string,
+    @Body() updateTemplateDto: UpdateTemplateDto,
+    @CurrentClient() client?: ApiClient,
+  ): ExtractionTemplate {
+    return this.templatesService.update(name, updateTemplateDto, client?.id);
+  }
+
+  /**
+   * Endpoint to delete a template.
+   * @param {string} name - The template name.
+   * @param {ApiClient} [client] - The authenticated client.
+   */
+  @Delete(':name')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete an extraction template' })
+  remove(@Param('name') name: string, @CurrentClient() client?: ApiClient) {
+    this.templatesService.remove(name, client?.id);
+  }
+}
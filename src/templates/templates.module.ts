@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TemplatesService } from './templates.service';
+import { TemplatesController } from './templates.controller';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  providers: [TemplatesService],
+  controllers: [TemplatesController],
+  exports: [TemplatesService],
+})
+export class TemplatesModule {}
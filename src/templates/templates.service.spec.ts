@@ -0,0 +1,97 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { TemplatesService } from './templates.service';
+
+const productSchema = {
+  type: 'object',
+  properties: { name: { type: 'string' }, price: { type: 'number' } },
+};
+
+describe('TemplatesService', () => {
+  let service: TemplatesService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [TemplatesService],
+    }).compile();
+
+    service = module.get<TemplatesService>(TemplatesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should resolve the built-in sections template by default', () => {
+    const template = service.resolve();
+
+    expect(template.name).toBe('sections');
+    expect(service.isDefault(template)).toBe(true);
+  });
+
+  it('should create, update and delete custom templates', () => {
+    service.create({ name: 'product', schema: productSchema });
+    service.update('product', { instructions: 'Prices are in EUR.' });
+
+    const template = service.resolve('product');
+    expect(template.instructions).toBe('Prices are in EUR.');
+    expect(service.getSystemPrompt(template).content).toContain(
+      'Prices are in EUR.',
+    );
+
+    service.remove('product');
+    expect(() => service.findOne('product')).toThrow(NotFoundException);
+  });
+
+  it('should reject duplicates, invalid schemas and changes to built-ins', () => {
+    service.create({ name: 'product', schema: productSchema });
+
+    expect(() =>
+      service.create({ name: 'product', schema: productSchema }),
+    ).toThrow(ConflictException);
+    expect(() =>
+      service.create({ name: 'broken', schema: { type: 'nope' } }),
+    ).toThrow(BadRequestException);
+    expect(() => service.remove('sections')).toThrow(ForbiddenException);
+  });
+
+  it('should keep the templates of each client apart', () => {
+    service.create({ name: 'product', schema: productSchema }, 'acme');
+    service.create({ name: 'product', schema: { type: 'object' } }, 'globex');
+
+    expect(service.resolve('product', undefined, 'acme').schema).toBe(
+      productSchema,
+    );
+    expect(service.findAll('globex').map((template) => template.name)).toEqual([
+      'sections',
+      'product',
+    ]);
+    expect(() => service.findOne('product')).toThrow(NotFoundException);
+    expect(() => service.remove('product', 'initech')).toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('should accept schemas that reuse an $id', () => {
+    const schema = { ...productSchema, $id: 'https://example.com/product' };
+
+    service.create({ name: 'product', schema });
+    service.create({ name: 'product-copy', schema });
+    service.update('product', { schema: { ...schema, required: ['name'] } });
+
+    expect(service.findOne('product').schema).toMatchObject({
+      required: ['name'],
+    });
+  });
+
+  it('should prefer an inline schema over a template name', () => {
+    const template = service.resolve('sections', productSchema);
+
+    expect(template).toEqual({ name: 'inline', schema: productSchema });
+  });
+});
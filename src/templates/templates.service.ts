@@ -0,0 +1,276 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import * as fs from 'fs';
+import Ajv from 'ajv';
+import { ExtractionTemplate } from './interfaces/extraction-template.interface';
+import { CreateTemplateDto, UpdateTemplateDto } from './dto/template.dto';
+import {
+  DEFAULT_TEMPLATE_NAME,
+  generateSchemaPrompt,
+  generateSystemPrompt,
+} from '../common/prompts';
+import { SECTIONS_SCHEMA } from '../common/schemas/sections.schema';
+
+const TEMPLATE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+const INLINE_TEMPLATE_NAME = 'inline';
+
+/**
+ * Stores extraction templates. The built-in sections template is always
+ * available; custom templates belong to the API client that created it, are
+ * kept in memory and, when TEMPLATES_FILE is set, persisted to that JSON file.
+ */
+@Injectable()
+export class TemplatesService {
+  private readonly logger = new Logger(TemplatesService.name);
+  private readonly builtIn: ExtractionTemplate = {
+    name: DEFAULT_TEMPLATE_NAME,
+    description:
+      'Generic document with a title and sections of text, images and tables',
+    schema: SECTIONS_SCHEMA,
+    builtIn: true,
+  };
+  private readonly templates = new Map<string, ExtractionTemplate>();
+  private readonly ajv = new Ajv({ strict: false });
+  private readonly filePath = process.env['TEMPLATES_FILE'];
+
+  /**
+   * Loads saved templates.
+   */
+  constructor() {
+    this.loadTemplates();
+  }
+
+  /**
+   * Lists the templates available to a client.
+   * @param {string} [clientId] - The API client, undefined while authentication is disabled.
+   * @returns {ExtractionTemplate[]} - The templates, built-in first.
+   */
+  findAll(clientId?: string): ExtractionTemplate[] {
+    return [
+      this.builtIn,
+      ...[...this.templates.values()].filter(
+        (template) => template.clientId === clientId,
+      ),
+    ];
+  }
+
+  /**
+   * Finds a template of a client, or the built-in template, by name.
+   * @param {string} name - The template name.
+   * @param {string} [clientId] - The API client, undefined while authentication is disabled.
+   * @returns {ExtractionTemplate} - The template.
+   */
+  findOne(name: string, clientId?: string): ExtractionTemplate {
+    const template =
+      name === this.builtIn.name
+        ? this.builtIn
+        : this.templates.get(this.toKey(name, clientId));
+    if (!template) {
+      throw new NotFoundException(`Template "${name}" not found`);
+    }
+    return template;
+  }
+
+  /**
+   * Creates a new template for a client.
+   * @param {CreateTemplateDto} createTemplateDto - The template to create.
+   * @param {string} [clientId] - The API client, undefined while authentication is disabled.
+   * @returns {ExtractionTemplate} - The created template.
+   */
+  create(
+    createTemplateDto: CreateTemplateDto,
+    clientId?: string,
+  ): ExtractionTemplate {
+    const { name, description, instructions, schema } = createTemplateDto;
+    if (!name || !TEMPLATE_NAME_PATTERN.test(name)) {
+      throw new BadRequestException(
+        'Template name must contain only letters, digits, "-" and "_"',
+      );
+    }
+    if (
+      this.templates.has(this.toKey(name, clientId)) ||
+      name === this.builtIn.name ||
+      name === INLINE_TEMPLATE_NAME
+    ) {
+      throw new ConflictException(`Template "${name}" already exists`);
+    }
+    this.assertValidSchema(schema);
+
+    const template: ExtractionTemplate = {
+      name,
+      description,
+      instructions,
+      schema,
+      clientId,
+    };
+    this.templates.set(this.toKey(name, clientId), template);
+    this.saveTemplates();
+    this.logger.log(`Template ${name} created`);
+    return template;
+  }
+
+  /**
+   * Updates an existing custom template of a client.
+   * @param {string} name - The template name.
+   * @param {UpdateTemplateDto} updateTemplateDto - The fields to change.
+   * @param {string} [clientId] - The API client, undefined while authentication is disabled.
+   * @returns {ExtractionTemplate} - The updated template.
+   */
+  update(
+    name: string,
+    updateTemplateDto: UpdateTemplateDto,
+    clientId?: string,
+  ): ExtractionTemplate {
+    const template = this.findCustom(name, clientId);
+    if (updateTemplateDto.schema !== undefined) {
+      this.assertValidSchema(updateTemplateDto.schema);
+      template.schema = updateTemplateDto.schema;
+    }
+    if (updateTemplateDto.description !== undefined) {
+      template.description = updateTemplateDto.description;
+    }
+    if (updateTemplateDto.instructions !== undefined) {
+      template.instructions = updateTemplateDto.instructions;
+    }
+    this.saveTemplates();
+    this.logger.log(`Template ${name} updated`);
+    return template;
+  }
+
+  /**
+   * Deletes a custom template of a client.
+   * @param {string} name - The template name.
+   * @param {string} [clientId] - The API client, undefined while authentication is disabled.
+   */
+  remove(name: string, clientId?: string) {
+    this.findCustom(name, clientId);
+    this.templates.delete(this.toKey(name, clientId));
+    this.saveTemplates();
+    this.logger.log(`Template ${name} deleted`);
+  }
+
+  /**
+   * Resolves the template for a request: an inline schema takes precedence over a template name,
+   * and the default template is used when neither is given.
+   * @param {string} [name] - The template name.
+   * @param {object} [schema] - An inline JSON Schema.
+   * @param {string} [clientId] - The API client the request runs for.
+   * @returns {ExtractionTemplate} - The resolved template.
+   */
+  resolve(
+    name?: string,
+    schema?: object,
+    clientId?: string,
+  ): ExtractionTemplate {
+    if (schema) {
+      this.assertValidSchema(schema);
+      return { name: INLINE_TEMPLATE_NAME, schema };
+    }
+    return this.findOne(name || DEFAULT_TEMPLATE_NAME, clientId);
+  }
+
+  /**
+   * Checks whether a template produces the default sections document.
+   * @param {ExtractionTemplate} template - The template.
+   * @returns {boolean} - True for the built-in sections template.
+   */
+  isDefault(template: ExtractionTemplate): boolean {
+    return template.name === DEFAULT_TEMPLATE_NAME;
+  }
+
+  /**
+   * Builds the system prompt message for a template.
+   * @param {ExtractionTemplate} template - The template.
+   * @returns {any} - The system prompt message.
+   */
+  getSystemPrompt(template: ExtractionTemplate): any {
+    return this.isDefault(template)
+      ? generateSystemPrompt()
+      : generateSchemaPrompt(template.schema, template.instructions);
+  }
+
+  /**
+   * Finds a template that may be changed.
+   * @param {string} name - The template name.
+   * @param {string} [clientId] - The API client, undefined while authentication is disabled.
+   * @returns {ExtractionTemplate} - The template.
+   */
+  private findCustom(name: string, clientId?: string): ExtractionTemplate {
+    const template = this.findOne(name, clientId);
+    if (template.builtIn) {
+      throw new ForbiddenException(
+        `Template "${name}" is built in and cannot be changed`,
+      );
+    }
+    return template;
+  }
+
+  /**
+   * Verifies that a value is a valid JSON Schema. The schema is checked against
+   * the meta-schema instead of being compiled, so that nothing is added to the
+   * Ajv cache and schemas that reuse an `$id` are not rejected.
+   * @param {object} schema - The schema to check.
+   */
+  private assertValidSchema(schema: object) {
+    if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+      throw new BadRequestException('"schema" must be a JSON Schema object');
+    }
+    let valid: boolean;
+    try {
+      valid = this.ajv.validateSchema(schema) as boolean;
+    } catch (error) {
+      throw new BadRequestException(`Invalid JSON Schema: ${error.message}`);
+    }
+    if (!valid) {
+      throw new BadRequestException(
+        `Invalid JSON Schema: ${this.ajv.errorsText(this.ajv.errors)}`,
+      );
+    }
+  }
+
+  /**
+   * Builds the key of a custom template, unique per client.
+   * @param {string} name - The template name.
+   * @param {string} [clientId] - The API client.
+   * @returns {string} - The key.
+   */
+  private toKey(name: string, clientId?: string): string {
+    return `${clientId ?? ''}/${name}`;
+  }
+
+  /**
+   * Loads custom templates from TEMPLATES_FILE, if configured.
+   */
+  private loadTemplates() {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return;
+    }
+    const saved: ExtractionTemplate[] = JSON.parse(
+      fs.readFileSync(this.filePath, 'utf8'),
+    );
+    for (const template of saved) {
+      this.templates.set(
+        this.toKey(template.name, template.clientId),
+        template,
+      );
+    }
+    this.logger.log(`Loaded ${saved.length} templates from ${this.filePath}`);
+  }
+
+  /**
+   * Saves custom templates to TEMPLATES_FILE, if configured.
+   */
+  private saveTemplates() {
+    if (!this.filePath) {
+      return;
+    }
+    const custom = [...this.templates.values()];
+    fs.writeFileSync(this.filePath, JSON.stringify(custom, null, 2), 'utf8');
+  }
+}
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { UrlPolicyService } from './url-policy.service';
+
+@Module({
+  providers: [UrlPolicyService],
+  exports: [UrlPolicyService],
+})
+export class UrlPolicyModule {}
@@ -0,0 +1,275 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BlockList, isIP } from 'net';
+import { lookup, LookupAddress, promises as dnsPromises } from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import {
+  BlockedUrlException,
+  InvalidUrlException,
+} from '../common/errors/api-exceptions';
+
+const DEFAULT_ALLOWED_SCHEMES = ['http', 'https'];
+const PROXY_SCHEMES = ['http', 'https', 'socks4', 'socks5'];
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+const PRIVATE_IPV6_RANGES: [string, number][] = [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+];
+const MAPPED_IPV4_PATTERN = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i;
+
+/**
+ * Decides which URLs the service may fetch: the scheme must be allowed, the
+ * host must pass the allow and deny lists, and it must not resolve to a
+ * private, loopback or link-local address. Applies to page navigation, page
+ * subresources, server-side downloads and the proxies browsers connect through.
+ */
+@Injectable()
+export class UrlPolicyService {
+  private readonly logger = new Logger(UrlPolicyService.name);
+  private readonly allowedSchemes: string[];
+  private readonly allowedHosts: string[];
+  private readonly deniedHosts: string[];
+  private readonly blockPrivateAddresses: boolean;
+  private readonly privateRanges = new BlockList();
+  readonly httpAgent: http.Agent;
+  readonly httpsAgent: https.Agent;
+
+  /**
+   * Initializes the policy from the environment.
+   */
+  constructor() {
+    this.allowedSchemes =
+      this.readList('URL_ALLOWED_SCHEMES') ?? DEFAULT_ALLOWED_SCHEMES;
+    this.allowedHosts = this.readList('URL_ALLOWED_HOSTS') ?? [];
+    this.deniedHosts = this.readList('URL_DENIED_HOSTS') ?? [];
+    this.blockPrivateAddresses =
+      process.env['URL_ALLOW_PRIVATE_ADDRESSES'] !== 'true';
+    for (const [address, prefix] of PRIVATE_IPV4_RANGES) {
+      this.privateRanges.addSubnet(address, prefix, 'ipv4');
+    }
+    for (const [address, prefix] of PRIVATE_IPV6_RANGES) {
+      this.privateRanges.addSubnet(address, prefix, 'ipv6');
+    }
+
+    // Checking the addresses at connect time also covers redirects and DNS rebinding
+    const guardedLookup = (hostname: string, options: any, callback: any) =>
+      lookup(
+        hostname,
+        { ...options, all: true },
+        (error, addresses: LookupAddress[]) => {
+          const blocked = error
+            ? null
+            : addresses.find(({ address }) => this.isBlockedAddress(address));
+          if (error || blocked) {
+            return callback(
+              error ??
+                new BlockedUrlException(
+                  `Host "${hostname}" resolves to the private address ${blocked.address}`,
+                ),
+            );
+          }
+          return options.all
+            ? callback(null, addresses)
+            : callback(null, addresses[0].address, addresses[0].family);
+        },
+      );
+    this.httpAgent = new http.Agent({ lookup: guardedLookup });
+    this.httpsAgent = new https.Agent({ lookup: guardedLookup });
+  }
+
+  /**
+   * Options for axios requests that enforce the policy on the connection and on every redirect.
+   * @returns {object} - The agents and redirect hook.
+   */
+  get requestOptions() {
+    return {
+      httpAgent: this.httpAgent,
+      httpsAgent: this.httpsAgent,
+      beforeRedirect: (options: Record<string, any>) =>
+        this.checkUrl(new URL(`${options.protocol}//${options.host}`)),
+    };
+  }
+
+  /**
+   * Checks a URL against the policy, resolving its host.
+   * @param {string} url - The URL to check.
+   * @returns {Promise<URL>} - A promise that resolves to the parsed URL if it is allowed.
+   */
+  async assertAllowed(url: string): Promise<URL> {
+    if (typeof url !== 'string' || !URL.canParse(url)) {
+      throw new InvalidUrlException(`"${url}" is not a valid absolute URL`);
+    }
+    const parsed = new URL(url);
+    this.checkUrl(parsed);
+
+    const hostname = this.getHostname(parsed);
+    if (this.blockPrivateAddresses && !isIP(hostname)) {
+      let addresses: LookupAddress[];
+      try {
+        addresses = await dnsPromises.lookup(hostname, { all: true });
+      } catch (error) {
+        throw new InvalidUrlException(
+          `Host "${hostname}" could not be resolved: ${error.code ?? error.message}`,
+        );
+      }
+      const blocked = addresses.find(({ address }) =>
+        this.isBlockedAddress(address),
+      );
+      if (blocked) {
+        throw new BlockedUrlException(
+          `Host "${hostname}" resolves to the private address ${blocked.address}`,
+        );
+      }
+    }
+    return parsed;
+  }
+
+  /**
+   * Checks a proxy server address given as `[scheme://]host:port`. The scheme must be
+   * a proxy scheme, and the host must pass the same host lists and address checks as fetched URLs,
+   * so a proxy cannot route the browser to hosts it may not reach directly.
+   * @param {string} proxy - The proxy server address.
+   * @returns {Promise<void>} - A promise that resolves if the proxy is allowed.
+   */
+  async assertProxyAllowed(proxy: string): Promise<void> {
+    const address =
+      typeof proxy === 'string' && !proxy.includes('://')
+        ? `http://${proxy}`
+        : proxy;
+    // Chromium reads ";" and "," as proxy rule lists, so only a single plain address is accepted
+    if (
+      typeof address !== 'string' ||
+      /[\s;,]/.test(address) ||
+      !URL.canParse(address)
+    ) {
+      throw new InvalidUrlException(`"${proxy}" is not a valid proxy address`);
+    }
+    const parsed = new URL(address);
+    if (
+      parsed.username ||
+      parsed.password ||
+      !['', '/'].includes(parsed.pathname) ||
+      parsed.search ||
+      parsed.hash
+    ) {
+      throw new InvalidUrlException(`"${proxy}" is not a valid proxy address`);
+    }
+    const scheme = parsed.protocol.replace(/:$/, '');
+    if (!PROXY_SCHEMES.includes(scheme)) {
+      throw new BlockedUrlException(`Proxy scheme "${scheme}" is not allowed`);
+    }
+    await this.assertAllowed(`http://${parsed.host}/`);
+  }
+
+  /**
+   * Tells whether a URL is allowed, logging the reason when it is not.
+   * @param {string} url - The URL to check.
+   * @returns {Promise<boolean>} - A promise that resolves to true if the URL is allowed.
+   */
+  async isAllowed(url: string): Promise<boolean> {
+    try {
+      await this.assertAllowed(url);
+      return true;
+    } catch (error) {
+      this.logger.warn(`Blocked ${url}: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Checks the scheme, the host lists and literal IP addresses, without DNS.
+   * @param {URL} url - The URL to check.
+   */
+  private checkUrl(url: URL) {
+    const scheme = url.protocol.replace(/:$/, '');
+    if (!this.allowedSchemes.includes(scheme)) {
+      throw new BlockedUrlException(`Scheme "${scheme}" is not allowed`);
+    }
+    const hostname = this.getHostname(url);
+    if (this.matchesHost(hostname, this.deniedHosts)) {
+      throw new BlockedUrlException(`Host "${hostname}" is denied`);
+    }
+    if (
+      this.allowedHosts.length > 0 &&
+      !this.matchesHost(hostname, this.allowedHosts)
+    ) {
+      throw new BlockedUrlException(`Host "${hostname}" is not allowed`);
+    }
+    if (isIP(hostname) && this.isBlockedAddress(hostname)) {
+      throw new BlockedUrlException(
+        `Address ${hostname} is private, loopback or link-local`,
+      );
+    }
+  }
+
+  /**
+   * Tells whether an IP address is blocked as private, loopback, link-local or reserved.
+   * @param {string} address - The IP address.
+   * @returns {boolean} - True if the address is blocked.
+   */
+  private isBlockedAddress(address: string): boolean {
+    if (!this.blockPrivateAddresses) {
+      return false;
+    }
+    const mapped = address.match(MAPPED_IPV4_PATTERN)?.[1];
+    if (mapped) {
+      return this.privateRanges.check(mapped, 'ipv4');
+    }
+    return this.privateRanges.check(
+      address,
+      isIP(address) === 6 ? 'ipv6' : 'ipv4',
+    );
+  }
+
+  /**
+   * Tells whether a host is one of the listed hosts or a subdomain of one.
+   * @param {string} hostname - The host name.
+   * @param {string[]} hosts - The listed hosts.
+   * @returns {boolean} - True if the host matches the list.
+   */
+  private matchesHost(hostname: string, hosts: string[]): boolean {
+    return hosts.some(
+      (host) => hostname === host || hostname.endsWith(`.${host}`),
+    );
+  }
+
+  /**
+   * Returns the lowercase host name of a URL, without the brackets of IPv6 addresses.
+   * @param {URL} url - The URL.
+   * @returns {string} - The host name.
+   */
+  private getHostname(url: URL): string {
+    return url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  }
+
+  /**
+   * Reads a comma-separated list from the environment.
+   * @param {string} name - The variable name.
+   * @returns {string[] | undefined} - The lowercase entries, or undefined when unset.
+   */
+  private readList(name: string): string[] | undefined {
+    const value = process.env[name];
+    if (!value) {
+      return undefined;
+    }
+    return value
+      .split(',')
+      .map((entry) => entry.trim().toLowerCase())
+      .filter(Boolean);
+  }
+}
@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsISO8601,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class UsageQueryDto {
+  @ApiProperty({
+    description:
+      'Client whose usage is reported; authenticated clients only see their own usage',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  clientId?: string;
+
+  @ApiProperty({
+    description:
+      'First UTC day of the report (YYYY-MM-DD), 30 days before "to" by default',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(DAY_PATTERN, { message: '$property must be a day as YYYY-MM-DD' })
+  @IsISO8601({ strict: true })
+  from?: string;
+
+  @ApiProperty({
+    description: 'Last UTC day of the report (YYYY-MM-DD), today by default',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(DAY_PATTERN, { message: '$property must be a day as YYYY-MM-DD' })
+  @IsISO8601({ strict: true })
+  to?: string;
+}
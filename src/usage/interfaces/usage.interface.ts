@@ -0,0 +1,48 @@
+import { LlmCallUsage } from '../../llm/providers/llm-provider.interface';
+
+/**
+ * Token counts and estimated cost summed over LLM calls.
+ */
+export interface UsageTotals {
+  llmCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * An LLM call made for a scan, with the chunk it processed. Image descriptions
+ * carry the chunk containing the image.
+ */
+export interface ScanUsageCall extends LlmCallUsage {
+  chunk?: number;
+}
+
+/**
+ * The usage summary returned with a scan result.
+ */
+export interface ScanUsage extends UsageTotals {
+  latencyMs: number;
+  calls: ScanUsageCall[];
+}
+
+/**
+ * The usage of one client on one UTC day, in total and per model.
+ */
+export interface DailyUsage extends UsageTotals {
+  date: string;
+  clientId: string;
+  models: Record<string, UsageTotals>;
+}
+
+/**
+ * The usage returned by the usage endpoint for a range of days.
+ */
+export interface UsageReport {
+  from: string;
+  to: string;
+  clientId?: string;
+  total: UsageTotals;
+  days: DailyUsage[];
+}
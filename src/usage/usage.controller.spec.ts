@@ -0,0 +1,54 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { UsageController } from './usage.controller';
+import { UsageService } from './usage.service';
+import { ApiKeyGuard } from '../auth/api-key.guard';
+
+describe('UsageController', () => {
+  let controller: UsageController;
+  const usageService = { getReport: jest.fn() };
+  const client = { id: 'acme' } as any;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [UsageController],
+      providers: [{ provide: UsageService, useValue: usageService }],
+    })
+      .overrideGuard(ApiKeyGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<UsageController>(UsageController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should only report the usage of the authenticated client', () => {
+    controller.getUsage({ from: '2026-10-01' }, client);
+
+    expect(usageService.getReport).toHaveBeenCalledWith({
+      from: '2026-10-01',
+      clientId: 'acme',
+    });
+    expect(() => controller.getUsage({ clientId: 'globex' }, client)).toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('should report any client while authentication is disabled', () => {
+    controller.getUsage({ clientId: 'globex' });
+
+    expect(usageService.getReport).toHaveBeenCalledWith({
+      clientId: 'globex',
+    });
+  });
+
+  it('should reject ranges that end before they start', () => {
+    expect(() =>
+      controller.getUsage({ from: '2026-10-18', to: '2026-10-01' }),
+    ).toThrow(BadRequestException);
+  });
+});
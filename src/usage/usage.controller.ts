@@ -0,0 +1,61 @@
+import {
+  BadRequestException,
+  Controller,
+  ForbiddenException,
+  Get,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { UsageService } from './usage.service';
+import { UsageQueryDto } from './dto/usage-query.dto';
+import { UsageReport } from './interfaces/usage.interface';
+import { ApiKeyGuard } from '../auth/api-key.guard';
+import { CurrentClient } from '../auth/api-client.decorator';
+import { ApiClient } from '../auth/interfaces/api-client.interface';
+
+/**
+ * Controller for reporting LLM token usage and costs.
+ */
+@ApiTags('usage')
+@ApiSecurity('api-key')
+@UseGuards(ApiKeyGuard)
+@Controller('/api/v1/usage')
+export class UsageController {
+  constructor(private readonly usageService: UsageService) {}
+
+  /**
+   * Endpoint to report the LLM usage per client and day. Authenticated clients
+   * only see their own usage.
+   * @param {UsageQueryDto} usageQueryDto - The client and the range of days.
+   * @param {ApiClient} [client] - The authenticated client.
+   * @returns {UsageReport} - The usage report.
+   */
+  @Get()
+  @ApiOperation({ summary: 'Report LLM token usage and costs per day' })
+  getUsage(
+    @Query() usageQueryDto: UsageQueryDto,
+    @CurrentClient() client?: ApiClient,
+  ): UsageReport {
+    if (
+      client &&
+      usageQueryDto.clientId &&
+      usageQueryDto.clientId !== client.id
+    ) {
+      throw new ForbiddenException(
+        `Client "${client.id}" cannot read the usage of other clients`,
+      );
+    }
+    if (
+      usageQueryDto.from &&
+      usageQueryDto.to &&
+      usageQueryDto.from > usageQueryDto.to
+    ) {
+      throw new BadRequestException('"from" must not be after "to"');
+    }
+    return this.usageService.getReport({
+      ...usageQueryDto,
+      clientId: client?.id ?? usageQueryDto.clientId,
+    });
+  }
+}
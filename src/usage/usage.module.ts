@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { UsageService } from './usage.service';
+import { UsageController } from './usage.controller';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  providers: [UsageService],
+  controllers: [UsageController],
+  exports: [UsageService],
+})
+export class UsageModule {}
@@ -0,0 +1,83 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UsageService } from './usage.service';
+import { LlmCallUsage } from '../llm/providers/llm-provider.interface';
+
+describe('UsageService', () => {
+  let service: UsageService;
+
+  const call = (overrides: Partial<LlmCallUsage> = {}): LlmCallUsage => ({
+    type: 'text',
+    provider: 'openai',
+    model: 'gpt-4o',
+    promptTokens: 1000,
+    completionTokens: 100,
+    latencyMs: 500,
+    costUsd: 0.0035,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: Date.parse('2026-10-18T12:00:00Z') });
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [UsageService],
+    }).compile();
+
+    service = module.get<UsageService>(UsageService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should aggregate usage per client, day and model', () => {
+    service.record('acme', call());
+    service.record('acme', call({ model: 'gpt-4o-mini', costUsd: 0.0002 }));
+    service.record(undefined, call());
+
+    const report = service.getReport({ clientId: 'acme' });
+
+    expect(report).toMatchObject({
+      from: '2026-09-19',
+      to: '2026-10-18',
+      clientId: 'acme',
+      total: { llmCalls: 2, totalTokens: 2200, costUsd: 0.0037 },
+    });
+    expect(report.days).toEqual([
+      {
+        date: '2026-10-18',
+        clientId: 'acme',
+        llmCalls: 2,
+        promptTokens: 2000,
+        completionTokens: 200,
+        totalTokens: 2200,
+        costUsd: 0.0037,
+        models: {
+          'gpt-4o': expect.objectContaining({ llmCalls: 1, costUsd: 0.0035 }),
+          'gpt-4o-mini': expect.objectContaining({
+            llmCalls: 1,
+            costUsd: 0.0002,
+          }),
+        },
+      },
+    ]);
+    expect(service.getReport().days.map((day) => day.clientId)).toEqual([
+      'acme',
+      'anonymous',
+    ]);
+  });
+
+  it('should only report the requested days', () => {
+    service.record('acme', call());
+    jest.advanceTimersByTime(24 * 60 * 60 * 1000);
+    service.record('acme', call());
+
+    const report = service.getReport({ from: '2026-10-19', to: '2026-10-19' });
+
+    expect(report.days.map((day) => day.date)).toEqual(['2026-10-19']);
+    expect(report.total.llmCalls).toBe(1);
+  });
+});
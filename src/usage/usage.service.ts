@@ -0,0 +1,132 @@
+import { Injectable } from '@nestjs/common';
+import { LlmCallUsage } from '../llm/providers/llm-provider.interface';
+import { DailyUsage, UsageReport } from './interfaces/usage.interface';
+import { addUsage, emptyTotals, roundCost } from './usage.utils';
+
+const DEFAULT_RETENTION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Client ID under which usage is recorded while API key authentication is disabled.
+ */
+export const ANONYMOUS_CLIENT_ID = 'anonymous';
+
+/**
+ * Filters of a usage report. Dates are UTC days in `YYYY-MM-DD` form.
+ */
+export interface UsageQuery {
+  clientId?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Aggregates LLM usage per API client and UTC day, in memory. Days older than
+ * USAGE_RETENTION_DAYS are dropped.
+ */
+@Injectable()
+export class UsageService {
+  private readonly days = new Map<string, DailyUsage>();
+  private readonly retentionDays: number;
+
+  /**
+   * Initializes the usage store with the retention from the environment.
+   */
+  constructor() {
+    this.retentionDays =
+      Number(process.env['USAGE_RETENTION_DAYS']) || DEFAULT_RETENTION_DAYS;
+  }
+
+  /**
+   * Adds the usage of an LLM call to today's usage of a client.
+   * @param {string | undefined} clientId - The client; anonymous when undefined.
+   * @param {LlmCallUsage} usage - The usage of the call.
+   */
+  record(clientId: string | undefined, usage: LlmCallUsage) {
+    const date = this.toDay(Date.now());
+    const client = clientId ?? ANONYMOUS_CLIENT_ID;
+    const key = `${date}|${client}`;
+    let day = this.days.get(key);
+    if (!day) {
+      this.pruneExpiredDays();
+      day = { date, clientId: client, ...emptyTotals(), models: {} };
+      this.days.set(key, day);
+    }
+    addUsage(day, usage);
+    addUsage((day.models[usage.model] ??= emptyTotals()), usage);
+  }
+
+  /**
+   * Reports the usage of a range of days, optionally for a single client.
+   * @param {UsageQuery} [query] - The client and the first and last day; the last 30 days by default.
+   * @returns {UsageReport} - The usage per client and day, and in total.
+   */
+  getReport(query: UsageQuery = {}): UsageReport {
+    const to = query.to ?? this.toDay(Date.now());
+    const from = query.from ?? this.toDay(Date.parse(to) - 29 * DAY_MS);
+    const days = [...this.days.values()]
+      .filter(
+        (day) =>
+          day.date >= from &&
+          day.date <= to &&
+          (!query.clientId || day.clientId === query.clientId),
+      )
+      .sort(
+        (a, b) =>
+          a.date.localeCompare(b.date) || a.clientId.localeCompare(b.clientId),
+      )
+      .map((day) => this.roundDay(day));
+    const total = emptyTotals();
+    for (const day of days) {
+      total.llmCalls += day.llmCalls;
+      total.promptTokens += day.promptTokens;
+      total.completionTokens += day.completionTokens;
+      total.totalTokens += day.totalTokens;
+      total.costUsd += day.costUsd;
+    }
+    total.costUsd = roundCost(total.costUsd);
+    return {
+      from,
+      to,
+      ...(query.clientId && { clientId: query.clientId }),
+      total,
+      days,
+    };
+  }
+
+  /**
+   * Copies a day with its costs rounded.
+   * @param {DailyUsage} day - The usage of a day.
+   * @returns {DailyUsage} - The copy.
+   */
+  private roundDay(day: DailyUsage): DailyUsage {
+    const models = Object.fromEntries(
+      Object.entries(day.models).map(([model, totals]) => [
+        model,
+        { ...totals, costUsd: roundCost(totals.costUsd) },
+      ]),
+    );
+    return { ...day, costUsd: roundCost(day.costUsd), models };
+  }
+
+  /**
+   * Removes days older than the retention period.
+   */
+  private pruneExpiredDays() {
+    const cutoff = this.toDay(Date.now() - this.retentionDays * DAY_MS);
+    for (const [key, day] of this.days) {
+      if (day.date < cutoff) {
+        this.days.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Formats a timestamp as its UTC day.
+   * @param {number} timestamp - Milliseconds since the epoch.
+   * @returns {string} - The day in `YYYY-MM-DD` form.
+   */
+  private toDay(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,62 @@
+import { LlmCallUsage } from '../llm/providers/llm-provider.interface';
+import {
+  ScanUsage,
+  ScanUsageCall,
+  UsageTotals,
+} from './interfaces/usage.interface';
+
+/**
+ * Creates totals without any usage.
+ * @returns {UsageTotals} - Zeroed totals.
+ */
+export function emptyTotals(): UsageTotals {
+  return {
+    llmCalls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+  };
+}
+
+/**
+ * Adds the usage of an LLM call to running totals.
+ * @param {UsageTotals} totals - The totals, updated in place.
+ * @param {LlmCallUsage} usage - The usage of the call.
+ * @returns {UsageTotals} - The updated totals.
+ */
+export function addUsage(
+  totals: UsageTotals,
+  usage: LlmCallUsage,
+): UsageTotals {
+  totals.llmCalls++;
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  totals.totalTokens += usage.promptTokens + usage.completionTokens;
+  totals.costUsd += usage.costUsd;
+  return totals;
+}
+
+/**
+ * Summarizes the LLM calls of a scan.
+ * @param {ScanUsageCall[]} calls - The calls, in the order they were made.
+ * @returns {ScanUsage} - The usage summary, including the calls themselves.
+ */
+export function summarizeUsage(calls: ScanUsageCall[]): ScanUsage {
+  const totals = calls.reduce(addUsage, emptyTotals());
+  return {
+    ...totals,
+    costUsd: roundCost(totals.costUsd),
+    latencyMs: calls.reduce((sum, call) => sum + call.latencyMs, 0),
+    calls,
+  };
+}
+
+/**
+ * Rounds a cost to millionths of a dollar, hiding floating point noise.
+ * @param {number} costUsd - The cost in USD.
+ * @returns {number} - The rounded cost.
+ */
+export function roundCost(costUsd: number): number {
+  return Math.round(costUsd * 1_000_000) / 1_000_000;
+}